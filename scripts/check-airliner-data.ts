@@ -0,0 +1,40 @@
+// [IMPORT] Node //
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+// [IMPORT] Utilities //
+import { parseAirlinerData, detectAirlinerDataFormat, formatAirlinerDataDiagnostic } from "@/lib/data/airliner-data-processor";
+
+/**
+ * Standalone check for airliner datasets.
+ *
+ * Runs the same parsing and validation rules as the chart's loader over a CSV, JSON or NDJSON file
+ * and prints every diagnostic. Exits with a non-zero code if any error was found,
+ * so it can gate commits or CI.
+ *
+ * Usage: npm run check-data [-- path/to/file.csv|.json|.ndjson]
+ * Defaults to public/data/airliners.csv.
+ */
+async function main() {
+	const dataPath = process.argv[2] ?? path.join("public", "data", "airliners.csv");
+	const text = await readFile(dataPath, "utf8");
+
+	const { data, diagnostics } = await parseAirlinerData(text, detectAirlinerDataFormat(dataPath, null, text));
+
+	diagnostics.forEach(diagnostic => {
+		console.log(formatAirlinerDataDiagnostic(diagnostic, dataPath));
+	});
+
+	const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === "error").length;
+	const warningCount = diagnostics.length - errorCount;
+	console.log(`\n${data.length} valid row(s), ${errorCount} error(s), ${warningCount} warning(s).`);
+
+	if (errorCount > 0) {
+		process.exitCode = 1;
+	}
+}
+
+main().catch(error => {
+	console.error(error);
+	process.exitCode = 1;
+});
@@ -0,0 +1,216 @@
+"use client";
+
+// [IMPORT] React //
+import { useState, useMemo, useRef } from "react";
+
+// [IMPORT] Internal components //
+import AirlinerChart from "@/component/airliner/AirlinerChart";
+import AirlinerDatasetBar, { AirlinerDatasetMode } from "@/component/airliner/AirlinerDatasetBar";
+import AirlinerDatasetDropZone from "@/component/airliner/AirlinerDatasetDropZone";
+import AirlinerDataTable from "@/component/airliner/AirlinerDataTable";
+
+// [IMPORT] Context providers/hooks //
+import { DebugProvider } from "@/context/DebugModeContext";
+import { AirlinerUnitsProvider } from "@/context/AirlinerUnitsContext";
+import { AirlinerFilterProvider } from "@/context/AirlinerFilterContext";
+
+// [IMPORT] Utilities //
+import { createAirlinerData, mergeAirlinerData, attachPayloadRange } from "@/lib/data/airliner-dataset";
+import { EMPTY_AIRLINER_FILTER, filterAirlinerData } from "@/lib/data/airliner-filters";
+
+// [IMPORT] Types/interfaces //
+import { AirlinerData, AirlinerDataDiagnostic, AirlinerPayloadRangeData } from "@/lib/data/airliner-types";
+import type { AirlinerDataStreamProgress } from "@/lib/data/airliner-data-processor";
+import type { DistanceUnit } from "@/lib/data/airliner-units";
+import type { AirlinerFilter } from "@/lib/data/airliner-filters";
+import type { AirlinerURLSync } from "@/component/airliner/AirlinerChartURLState";
+
+// [IMPORT] CSS styling //
+import "./page.css";
+
+// Props for the home page client component
+interface HomePageProps {
+	bundledData: AirlinerData[];
+	bundledDiagnostics: AirlinerDataDiagnostic[];
+	bundledPayloadRange: AirlinerPayloadRangeData;
+}
+
+/**
+ * Main Home Component - Airliner Data Visualization
+ * 
+ * This component handles:
+ * - Loading a user's own dataset, dropped onto or picked in the page
+ * - Basic page layout
+ * 
+ * The bundled dataset is parsed and validated at build time by the server page (`page.tsx`)
+ * and arrives already typed, so the chart renders straight away.
+ * The actual chart rendering is delegated to the AirlinerChart component.
+ */
+export default function HomePage({ bundledData, bundledDiagnostics, bundledPayloadRange }: HomePageProps) {
+	// ===== STATE MANAGEMENT =====
+
+	// A dataset the user loaded from a local file, checked against the chart before committing it
+	const [userDataset, setUserDataset] = useState<{
+		name: string;
+		data: AirlinerData[];
+		diagnostics: AirlinerDataDiagnostic[];
+	} | null>(null);
+
+	// Whether the user dataset replaces the bundled data, is merged into it, or is compared with it
+	const [datasetMode, setDatasetMode] = useState<AirlinerDatasetMode>("replace");
+
+	// Why the last user file could not be read, if it could not
+	const [datasetError, setDatasetError] = useState<string | null>(null);
+
+	// How far the user file has loaded while it streams in, or null once it has finished
+	const [datasetProgress, setDatasetProgress] = useState<AirlinerDataStreamProgress | null>(null);
+
+	// Counts file loads, so that a load superseded by another file or a revert stops updating the page
+	const datasetLoadRef = useRef(0);
+	
+	// The unit distances are shown in, kept across datasets
+	const [distanceUnit, setDistanceUnit] = useState<DistanceUnit>("km");
+
+	// Which airliners the chart and data table show, kept across datasets
+	const [filter, setFilter] = useState<AirlinerFilter>(EMPTY_AIRLINER_FILTER);
+
+	// Bookkeeping for keeping the URL in step with the chart, kept here so that only the first chart restores the URL's view
+	const urlSyncRef = useRef<AirlinerURLSync>({ isRestored: false, pendingView: null, replaceNext: false });
+	
+	// State for theme selection
+	const [theme, setTheme] = useState<"default" | "light" | "dark" | "system">("default");
+
+	// ===== USER DATASETS =====
+
+	// Read a user's dataset file through the same parsing and validation as the bundled data
+	// The file is streamed, so the chart fills in as rows arrive; diagnostics follow once it has fully loaded
+	// The parsers are only fetched when a file is first loaded, to keep them out of the page bundle
+	const handleDatasetFile = async (file: File) => {
+		const loadID = ++datasetLoadRef.current;
+		const previousDataset = userDataset;
+
+		try {
+			const { streamAirlinerDataFile } = await import("@/lib/data/airliner-data-processor");
+			const { data: airlinerData, diagnostics } = await streamAirlinerDataFile(file, progress => {
+				if (loadID !== datasetLoadRef.current) return;
+				setDatasetProgress(progress);
+				if (progress.data.length > 0) {
+					setUserDataset({ name: file.name, data: createAirlinerData(progress.data), diagnostics: [] });
+				}
+			});
+			if (loadID !== datasetLoadRef.current) return;
+			setDatasetProgress(null);
+
+			// Go back to the previous dataset if nothing in the file could be charted
+			if (airlinerData.length === 0) {
+				const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === "error").length;
+				setUserDataset(previousDataset);
+				setDatasetError(`${file.name} has no valid airliners (${errorCount} ${errorCount === 1 ? "error" : "errors"})`);
+				return;
+			}
+
+			setUserDataset({ name: file.name, data: createAirlinerData(airlinerData), diagnostics });
+			setDatasetError(null);
+		} catch (error) {
+			if (loadID !== datasetLoadRef.current) return;
+			console.error("Error reading dataset file:", error);
+			setDatasetProgress(null);
+			setUserDataset(previousDataset);
+			setDatasetError(`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`);
+		}
+	};
+
+	// Drop the user dataset and go back to the bundled data, abandoning any file still loading
+	const handleDatasetRevert = () => {
+		datasetLoadRef.current++;
+		setDatasetProgress(null);
+		setUserDataset(null);
+		setDatasetError(null);
+	};
+
+	// The data and diagnostics of the active dataset
+	// Diagnostics always describe the user's file when one is loaded, since that is the one being checked
+	// Payload–range diagrams are keyed by airliner ID, so they apply to user datasets sharing the bundled IDs too
+	const data = useMemo(() => {
+		const activeData = !userDataset ? bundledData
+			: datasetMode === "merge" ? mergeAirlinerData(bundledData, userDataset.data)
+			: userDataset.data;
+		return attachPayloadRange(activeData, bundledPayloadRange);
+	}, [bundledData, bundledPayloadRange, userDataset, datasetMode]);
+	const diagnostics = userDataset ? userDataset.diagnostics : bundledDiagnostics;
+
+	// In compare mode, the chart shows how the user dataset differs from the bundled data
+	const comparisonData = userDataset && datasetMode === "compare" ? bundledData : null;
+
+	// The airliners the data table lists; the chart filters its own data, as its panel counts the airliners left out
+	const filteredData = useMemo(() => filterAirlinerData(data, filter), [data, filter]);
+
+
+	// ===== MAIN RENDER =====
+	// ChartDataContext.Provider makes airliner data available to all child components via context.
+	return (
+		<AirlinerUnitsProvider distanceUnit={distanceUnit} setDistanceUnit={setDistanceUnit}>
+		<AirlinerFilterProvider filter={filter} setFilter={setFilter}>
+			<div className="mainContainer">
+				<div className="aboveCut">
+					{/*<div className="frame-flex-horizontal">
+						<div className="frame-content frame-flex-vertical headerTitle">
+							<h1 className="text-h1">Airliner Chart</h1>
+						</div>
+						<hr className="frame-minor" />
+						<div className="frame-content headerDescription">
+							{error ? (
+								<p>Error: {error}</p>
+							) : (
+								<>
+									<p><b>Work in progress. </b>
+									By <a href="https://www.shojiushiyama.net/" className="link-augmented">Shoji Ushiyama</a> / <a href="https://bsky.app/profile/kavaeric.net" className="link-augmented">Kavaeric</a>.</p>
+									<p>Mobile support coming soon?</p>
+								</>
+							)}
+						</div>
+					</div>
+					<hr className="frame-major" />*/}
+
+					{/* Active dataset, with controls to load a local one or revert to the bundled data */}
+					<AirlinerDatasetBar
+						datasetName={userDataset ? userDataset.name : "airliners.csv"}
+						isBundled={!userDataset}
+						airlinerCount={data.length}
+						mode={datasetMode}
+						error={datasetError}
+						progress={datasetProgress}
+						onModeChange={setDatasetMode}
+						onFile={handleDatasetFile}
+						onRevert={handleDatasetRevert}
+					/>
+					<hr className="frame-minor" style={{ margin: "0" }} />
+
+					{/* Chart component handles all the complex visualization logic */}
+					{/* Keyed by dataset so that loading another one starts from a fresh viewport and selection */}
+					<AirlinerDatasetDropZone onFile={handleDatasetFile}>
+						<DebugProvider initialDebugMode={false}>
+							<AirlinerChart
+								key={userDataset ? `${userDataset.name}-${datasetMode}` : "bundled"}
+								data={data}
+								urlSyncRef={urlSyncRef}
+								diagnostics={diagnostics}
+								comparisonData={comparisonData}
+								isStreaming={datasetProgress !== null}
+							/>
+						</DebugProvider>
+					</AirlinerDatasetDropZone>
+				</div>
+
+				<div className="belowCut">
+
+					<AirlinerDataTable data={filteredData} />
+				</div>
+				<div className="frame-content">
+					<p><a href="/branding-demo.html" className="link-augmented">Secret link to DS demo</a></p>
+				</div>
+			</div>
+		</AirlinerFilterProvider>
+		</AirlinerUnitsProvider>
+	);
+}
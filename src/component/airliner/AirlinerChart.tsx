@@ -6,9 +6,19 @@ import AirlinerScatterPlot from "./AirlinerScatterPlot";
 import YAxis from "@/component/chart/ChartYAxis";
 import XAxis from "@/component/chart/ChartXAxis";
 import ChartBrush from "@/component/chart/ChartBrush";
+import ChartHistoryControls from "@/component/chart/ChartHistoryControls";
 import AirlinerScatterBrush from "./AirlinerScatterBrush";
 import AirlinerChartInfoBar from "./AirlinerChartInfoBar";
 import AirlinerChartInfoPanel from "./AirlinerChartInfoPanel";
+import AirlinerChartDataIssuesPanel from "./AirlinerChartDataIssuesPanel";
+import AirlinerChartDiffPanel from "./AirlinerChartDiffPanel";
+import AirlinerChartFilterPanel from "./AirlinerChartFilterPanel";
+import AirlinerChartComparePanel from "./AirlinerChartComparePanel";
+import AirlinerChartExportMenu from "./AirlinerChartExportMenu";
+import AirlinerChartAxisMenu from "./AirlinerChartAxisMenu";
+import AirlinerChartViewsMenu from "./AirlinerChartViewsMenu";
+import AirlinerChartTimelineBar from "./AirlinerChartTimelineBar";
+import AirlinerChartURLState from "./AirlinerChartURLState";
 
 // [IMPORT] Context providers/hooks //
 import { ResponsiveChartViewport, useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
@@ -16,9 +26,24 @@ import { createChartDataContext } from "@/context/ChartDataContext";
 import { useDebugMode } from "@/context/DebugModeContext";
 import { AirlinerSelectionProvider} from "@/context/AirlinerSelectionContext";
 import { AnimatedChartViewport } from "@/context/AnimatedChartViewport";
+import { AirlinerDiffProvider } from "@/context/AirlinerDiffContext";
+import { AirlinerAxesProvider } from "@/context/AirlinerAxesContext";
+import { AirlinerHierarchyProvider } from "@/context/AirlinerHierarchyContext";
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
+import { useAirlinerFilter } from "@/context/AirlinerFilterContext";
+
+// [IMPORT] Utilities //
+import { diffAirlinerData } from "@/lib/data/airliner-data-diff";
+import { createAirlinerHierarchy } from "@/lib/data/airliner-hierarchy";
+import { countAirlinerFilterConstraints, filterAirlinerData } from "@/lib/data/airliner-filters";
+import { getAirlinerTimelineBounds } from "@/lib/data/airliner-timeline";
+import { AIRLINER_AXIS_METRICS, DEFAULT_AIRLINER_AXES, getAirlinerAxisDomain, hasAirlinerAxisValues, getAirlinerAxisValues, getAirlinerAxisLabel, isAirlinerPlottable } from "@/lib/data/airliner-axis-metrics";
 
 // [IMPORT] Types/interfaces //
-import type { AirlinerData, AirlinerModel } from "@/lib/data/airliner-types";
+import type { AirlinerData, AirlinerDataDiagnostic, AirlinerModel } from "@/lib/data/airliner-types";
+import type { AirlinerAxes } from "@/lib/data/airliner-axis-metrics";
+import type { FamilyConnectorOrder } from "@/lib/data/plot-family-connectors";
+import type { AirlinerURLSync } from "./AirlinerChartURLState";
 import { ResponsiveSVG } from "@/context/ResponsiveSVG";
 
 // [IMPORT] CSS styling //
@@ -55,6 +80,10 @@ export const { ChartDataContext, useChartData } = createChartDataContext<Airline
 // Props for the airliner chart component
 interface AirlinerChartProps {
 	data: AirlinerData[];
+	urlSyncRef: React.RefObject<AirlinerURLSync>;
+	diagnostics?: AirlinerDataDiagnostic[];
+	comparisonData?: AirlinerData[] | null;
+	isStreaming?: boolean;
 	className?: string;
 }
 
@@ -68,23 +97,98 @@ interface AirlinerChartProps {
  * - Scale creation (data-to-pixel mapping)
  * - Chart data transformation (into AirlinerModel)
  * - Passing all layout and scale info to child components
+ * - Compare mode: when `comparisonData` is given, the chart shows how `data` differs from it
+ * - Axis metrics: the user picks the metric plotted on each axis, which markers, axes, brushes
+ *   and viewport limits all follow (via AirlinerAxesContext)
+ * - Units: distances are plotted in kilometres and labelled in the reader's unit (via AirlinerUnitsContext)
+ * - Filtering: airliners left out by the filter (via AirlinerFilterContext) are dropped before anything is plotted,
+ *   so they leave the markers, labels, brushes and axes alike; compare mode still diffs the whole dataset
+ * - Timeline: a year slider with playback, showing the plot as it stood in that year. Only the plot area follows it;
+ *   the viewport, brushes and axes keep every airliner, so they hold steady as the years go by
+ * - Side-by-side comparison: the compare panel tabulates the selected airliners against a baseline,
+ *   not to be confused with compare mode, which compares whole datasets
+ * - Shareable links: the axes, viewport, selection, filter and debug mode are kept in the URL query,
+ *   with a history entry for each settled view so that back and forward step between views.
+ *   Only the page's first chart restores the URL's view; `urlSyncRef` is kept by the page so that charts for datasets loaded later start afresh
+ * - Views: preset regions and the user's bookmarks, picked from the views menu, animate the viewport to fit them
+ * - Streaming: while `isStreaming` is set, `data` grows as rows arrive, and label placement waits for the last of them
  *
  * This architecture ensures robust, race-condition-free measurement and
  * clear separation of layout, measurement, and rendering concerns.
  */
-export default function AirlinerChart({ data }: AirlinerChartProps) {
+export default function AirlinerChart({ data, urlSyncRef, diagnostics = [], comparisonData = null, isStreaming = false }: AirlinerChartProps) {
 	
 	// Info panel visibility state
 	const [isInfoPanelVisible, setIsInfoPanelVisible] = useState(true);
+
+	// Data issues panel visibility state
+	const [isDataIssuesPanelVisible, setIsDataIssuesPanelVisible] = useState(false);
+
+	// Change list panel visibility state, shown by default in compare mode
+	// Shares the left edge with the data issues panel, so only one of them is open at a time
+	const [isDiffPanelVisible, setIsDiffPanelVisible] = useState(true);
+
+	// Filter panel visibility state
+	// Also shares the left edge, so opening it closes the other two
+	const [isFilterPanelVisible, setIsFilterPanelVisible] = useState(false);
+
+	// Compare panel visibility state
+	// Shares the left edge too, so opening it closes the others
+	const [isComparePanelVisible, setIsComparePanelVisible] = useState(false);
+
+	// Metrics plotted on each axis
+	const [axes, setAxes] = useState<AirlinerAxes>(DEFAULT_AIRLINER_AXES);
+
+	// Order family connectors join variants in, or null when they are hidden
+	const [familyConnectorOrder, setFamilyConnectorOrder] = useState<FamilyConnectorOrder | null>(null);
+
+	// Whether families collapse into a single composite until the chart is zoomed in
+	const [isSemanticZoomEnabled, setIsSemanticZoomEnabled] = useState(true);
+
+	// Year the timeline shows, or null when the timeline is closed and every airliner is shown
+	const [timelineYear, setTimelineYear] = useState<number | null>(null);
+
+	// Whether the timeline is playing through the years
+	const [isTimelinePlaying, setIsTimelinePlaying] = useState(false);
+
+	// Unit distances are labelled in; the viewport itself stays in kilometres, so switching keeps it in place
+	const { distanceUnit } = useAirlinerUnits();
+
+	// Facets and ranges the charted airliners must match
+	const { filter } = useAirlinerFilter();
 	
 	 // Transform raw CSV into chart-ready Airliner data with IDs
-	 const chartData: AirlinerData[] = useMemo(() => {
+	 const allChartData: AirlinerData[] = useMemo(() => {
 		return data.map(airliner => ({
 			airlinerID: airliner.airlinerID,
 			airlinerData: airliner.airlinerData,
+			payloadRange: airliner.payloadRange,
 		}))
 	 }, [data]);
 
+	// Metrics the dataset has values for, so that the axis menu does not offer empty axes; the filter is left out so that it does not hide them
+	const availableAxisMetrics = useMemo(() => {
+		const airliners = allChartData.map(airliner => airliner.airlinerData);
+		return AIRLINER_AXIS_METRICS.filter(metric => hasAirlinerAxisValues(airliners, metric));
+	}, [allChartData]);
+
+	// Airliners the filter keeps; everything below, from the hierarchy to the brushes, only sees these
+	const chartData = useMemo(() => filterAirlinerData(allChartData, filter), [allChartData, filter]);
+
+	// Years the timeline runs over, or null if no airliner has a first delivery year
+	const timelineBounds = useMemo(() => getAirlinerTimelineBounds(chartData), [chartData]);
+
+	// The timeline's year, kept within its bounds as the filter changes them
+	const shownTimelineYear = timelineYear !== null && timelineBounds
+		? Math.min(Math.max(timelineYear, timelineBounds[0]), timelineBounds[1])
+		: null;
+
+	// Manufacturer → family → generation → variant hierarchy, for finding an airliner's relatives
+	const hierarchy = useMemo(() => createAirlinerHierarchy(chartData), [chartData]);
+
+	// Difference from the comparison dataset, matched by airliner ID
+	const diff = useMemo(() => comparisonData ? diffAirlinerData(comparisonData, allChartData) : null, [comparisonData, allChartData]);
+
 	// ResizeObserver for plot dimensions
 	const [plotWidth, setPlotWidth] = useState(200);
 	const [plotHeight, setPlotHeight] = useState(200);
@@ -104,65 +208,75 @@ export default function AirlinerChart({ data }: AirlinerChartProps) {
 	// ResizeObserver ref for plot area
 	const plotResizeRef = useResizeObserver(handlePlotResize);
 
-	// Gather all passenger capacity values (across all configurations) into a single array
-	// Filter out non-numeric values
-	const xAxisData = chartData.flatMap(airliner => {
-		const { pax1Class, pax2Class, pax3Class, paxLimit, paxExit } = airliner.airlinerData;
-		return [pax1Class, pax2Class, pax3Class, paxLimit, paxExit].filter(val => typeof val === "number");
-	});
+	// Every airliner's ID, filter aside, for checking the selection of a view restored from the URL
+	const allAirlinerIDs = useMemo(() => allChartData.map(airliner => airliner.airlinerID), [allChartData]);
+
+	// Airliners with values for the chosen axis metrics; the rest are left off the plot
+	const plottableData = useMemo(() => {
+		return chartData.filter(airliner => isAirlinerPlottable(airliner.airlinerData, axes));
+	}, [chartData, axes]);
 
-	// Initialise initial viewport
+	// Initialise initial viewport, padded around the data as each metric specifies
 	const initialChartViewport = useMemo(() => ({
-		x: [
-			Math.min(...xAxisData) - 50,
-			Math.max(...xAxisData) - 250
-		] as [number, number],
-		y: [
-			Math.min(...chartData.map(airliner => airliner.airlinerData.rangeKM ?? 0)) - 1000,
-			Math.max(...chartData.map(airliner => airliner.airlinerData.rangeKM ?? 0)) + 800
-		] as [number, number]
-	}), [xAxisData, chartData]);
-
-	// Set viewport constraints
+		x: getAirlinerAxisDomain(plottableData.map(airliner => airliner.airlinerData), axes.x),
+		y: getAirlinerAxisDomain(plottableData.map(airliner => airliner.airlinerData), axes.y)
+	}), [plottableData, axes]);
+
+	// Full view of the whole dataset on these axes, which semantic zoom measures zoom from
+	// Left unfiltered, so that filtering does not switch between composites and variants without any zooming
+	const fullDatasetViewport = useMemo(() => {
+		const airliners = allChartData
+			.filter(airliner => isAirlinerPlottable(airliner.airlinerData, axes))
+			.map(airliner => airliner.airlinerData);
+		return { x: getAirlinerAxisDomain(airliners, axes.x), y: getAirlinerAxisDomain(airliners, axes.y) };
+	}, [allChartData, axes]);
+
+	// Set viewport constraints from the axis metrics
 	const viewportConstraints = useMemo(() => ({
-		x: [0, 950] as [number | null, number | null],		// X-axis constraints
-		y: [0, 20000] as [number | null, number | null],		// Y-axis constraints
-		extentX: [20, 1000] as [number | null, number | null],	// Zoom X constraints
-		extentY: [1000, 20000] as [number | null, number | null],	// Zoom Y constraints
-	}), [xAxisData, chartData]);
+		x: axes.x.bounds,		// X-axis constraints
+		y: axes.y.bounds,		// Y-axis constraints
+		extentX: axes.x.extent,	// Zoom X constraints
+		extentY: axes.y.extent,	// Zoom Y constraints
+	}), [axes]);
 
 
 
 	// ChartDataContext provides the airliner data array
 	// AirlinerSelectionProvider provides selection and hover state management
-	// ResponsiveChartViewport provides the viewport and zoom controls
+	// AirlinerHierarchyProvider provides the dataset's manufacturer → family → generation → variant hierarchy
+	// AirlinerAxesProvider provides the metrics plotted on each axis
+	// ResponsiveChartViewport provides the viewport and zoom controls, and starts afresh when the axes change
+	// AnimatedChartViewport animates viewport changes, and wraps the toolbar too so that its undo and redo animate
 	return (
 		<>
 		<ChartDataContext.Provider value={chartData}>
 		<AirlinerSelectionProvider>
+		<AirlinerDiffProvider diff={diff}>
+		<AirlinerHierarchyProvider hierarchy={hierarchy}>
+		<AirlinerAxesProvider axes={axes}>
 		<ResponsiveChartViewport
-			data={chartData}
-			xAccessor={(d: AirlinerData) =>
-				xAxisData.find(
-					val =>
-						val === d.airlinerData.pax1Class ||
-						val === d.airlinerData.pax2Class ||
-						val === d.airlinerData.pax3Class ||
-						val === d.airlinerData.paxLimit ||
-						val === d.airlinerData.paxExit
-				) ?? 0
-			}
-			yAccessor={(d: AirlinerData) => d.airlinerData.rangeKM ?? 0}
+			key={`${axes.x.id}-${axes.y.id}`}
+			data={plottableData}
+			xAccessor={(d: AirlinerData) => getAirlinerAxisValues(d.airlinerData, axes.x)[0] ?? 0}
+			yAccessor={(d: AirlinerData) => getAirlinerAxisValues(d.airlinerData, axes.y)[0] ?? 0}
 			width={plotWidth}
 			height={plotHeight}
 			initialViewport={initialChartViewport}
 			constraints={viewportConstraints}
 			viewportRef={viewportRef}
 		>
+			<AnimatedChartViewport animatedViewportRef={animatedViewportRef}>
+			<AirlinerChartURLState
+				axes={axes}
+				initialViewport={initialChartViewport}
+				airlinerIDs={allAirlinerIDs}
+				onAxesChange={setAxes}
+				syncRef={urlSyncRef}
+			/>
 			<div className="chartControls frame-flex-horizontal">
 				<div className="frame-flex-horizontal">
 					<div style={{ display: "flex", padding: "var(--space-100)", alignItems: "center" }}>
-						<AirlinerChartInfoBar />
+						<AirlinerChartInfoBar timelineYear={shownTimelineYear} />
 					</div>
 				</div>
 				<hr className="frame-minor" />
@@ -218,7 +332,74 @@ export default function AirlinerChart({ data }: AirlinerChartProps) {
 					<span className="material-symbols-sharp" aria-hidden="true">zoom_out_map</span>
 					Reset zoom
 				</button>
+				<ChartHistoryControls />
 				<hr className="frame-minor" />
+				<button
+					className={`${shownTimelineYear !== null ? "btn-major" : "btn-diminished"} btn-icon-only`}
+					aria-label="Timeline"
+					disabled={!timelineBounds}
+					onClick={() => {
+						setTimelineYear(shownTimelineYear === null && timelineBounds ? timelineBounds[0] : null);
+						setIsTimelinePlaying(false);
+					}}
+				>
+					<span className="material-symbols-sharp" aria-hidden="true">history</span>
+				</button>
+				<AirlinerChartAxisMenu axes={axes} metrics={availableAxisMetrics} onAxesChange={setAxes} />
+				<AirlinerChartViewsMenu axes={axes} />
+				<AirlinerChartExportMenu timelineYear={shownTimelineYear} />
+				{diff && (
+					<button
+						className={`${isDiffPanelVisible && !isDataIssuesPanelVisible && !isFilterPanelVisible && !isComparePanelVisible ? "btn-major" : "btn-diminished"} btn-icon-left`}
+						aria-label="Changes"
+						onClick={() => {
+							setIsDiffPanelVisible(!isDiffPanelVisible || isDataIssuesPanelVisible || isFilterPanelVisible || isComparePanelVisible);
+							setIsDataIssuesPanelVisible(false);
+							setIsFilterPanelVisible(false);
+							setIsComparePanelVisible(false);
+						}}
+					>
+						<span className="material-symbols-sharp" aria-hidden="true">difference</span>
+						{diff.counts.added + diff.counts.removed + diff.counts.changed}
+					</button>
+				)}
+				<button
+					className={`${isFilterPanelVisible ? "btn-major" : "btn-diminished"} btn-icon-left`}
+					aria-label="Filters"
+					onClick={() => {
+						setIsFilterPanelVisible(!isFilterPanelVisible);
+						setIsDataIssuesPanelVisible(false);
+						setIsComparePanelVisible(false);
+					}}
+				>
+					<span className="material-symbols-sharp" aria-hidden="true">filter_alt</span>
+					{countAirlinerFilterConstraints(filter) > 0 && `${chartData.length}/${allChartData.length}`}
+				</button>
+				<button
+					className={`${isComparePanelVisible ? "btn-major" : "btn-diminished"} btn-icon-only`}
+					aria-label="Compare"
+					onClick={() => {
+						setIsComparePanelVisible(!isComparePanelVisible);
+						setIsFilterPanelVisible(false);
+						setIsDataIssuesPanelVisible(false);
+					}}
+				>
+					<span className="material-symbols-sharp" aria-hidden="true">compare_arrows</span>
+				</button>
+				{diagnostics.length > 0 && (
+					<button
+						className={`${isDataIssuesPanelVisible ? "btn-major" : "btn-diminished"} btn-icon-left`}
+						aria-label="Data issues"
+						onClick={() => {
+							setIsDataIssuesPanelVisible(!isDataIssuesPanelVisible);
+							setIsFilterPanelVisible(false);
+							setIsComparePanelVisible(false);
+						}}
+					>
+						<span className="material-symbols-sharp" aria-hidden="true">report</span>
+						{diagnostics.length}
+					</button>
+				)}
 				<button
 						className={`${isInfoPanelVisible ? "btn-major" : "btn-diminished"} btn-icon-only`}
 						aria-label="Info"
@@ -229,8 +410,23 @@ export default function AirlinerChart({ data }: AirlinerChartProps) {
 			</div>
 			
 			<hr className="frame-minor" />
+			{shownTimelineYear !== null && timelineBounds && (
+				<>
+					<AirlinerChartTimelineBar
+						bounds={timelineBounds}
+						year={shownTimelineYear}
+						isPlaying={isTimelinePlaying}
+						onYearChange={setTimelineYear}
+						onPlayingChange={setIsTimelinePlaying}
+						onClose={() => {
+							setTimelineYear(null);
+							setIsTimelinePlaying(false);
+						}}
+					/>
+					<hr className="frame-minor" />
+				</>
+			)}
 			<div className="chartContainer">
-			<AnimatedChartViewport animatedViewportRef={animatedViewportRef}>
 				{/* Chart area (top-right) */}
 				<ResponsiveSVG
 					divProps={{
@@ -239,9 +435,20 @@ export default function AirlinerChart({ data }: AirlinerChartProps) {
 					}}
 					parentSizeProps={{ debounceTime: 1 }}
 				>
-					{viewportRef.current && data.length > 0
-						? <AirlinerScatterPlot />
-						: <text x={plotWidth / 2} y={plotHeight / 2} fill="var(--text-minor)" textAnchor="middle" dominantBaseline="middle">Chart loading...</text>}
+					{viewportRef.current && plottableData.length > 0
+						? <AirlinerScatterPlot
+							deferLabelPlacement={isStreaming}
+							familyConnectorOrder={familyConnectorOrder}
+							fullViewport={fullDatasetViewport}
+							semanticZoom={isSemanticZoomEnabled}
+							timelineYear={shownTimelineYear}
+							isTimelinePlaying={isTimelinePlaying}
+						/>
+						: <text x={plotWidth / 2} y={plotHeight / 2} fill="var(--text-minor)" textAnchor="middle" dominantBaseline="middle">
+							{chartData.length > 0 ? "No airliners have values for these axes"
+								: data.length > 0 ? "No airliners match the filters"
+								: "Chart loading..."}
+						</text>}
 				</ResponsiveSVG>
 
 				{/* Y-axis brush (top-left) */}
@@ -263,7 +470,7 @@ export default function AirlinerChart({ data }: AirlinerChartProps) {
 					parentSizeProps={{ debounceTime: 1 }}
 					divProps={{ className: "yAxis" }}
 				>
-					<YAxis label="Range (km × 1000)" />
+					<YAxis label={getAirlinerAxisLabel(axes.y, distanceUnit)} />
 				</ResponsiveSVG>
 
 				{/* X-axis (middle-right) */}
@@ -271,7 +478,7 @@ export default function AirlinerChart({ data }: AirlinerChartProps) {
 					parentSizeProps={{ debounceTime: 1 }}
 					divProps={{ className: "xAxis" }}
 				>
-					<XAxis label="Passenger Capacity" />
+					<XAxis label={getAirlinerAxisLabel(axes.x, distanceUnit)} />
 				</ResponsiveSVG>
 
 				{/* X-axis brush (bottom-right) */}
@@ -293,13 +500,38 @@ export default function AirlinerChart({ data }: AirlinerChartProps) {
 				<div className="empty2"></div>
 				<div className="empty3"></div>
 				<div className="empty4"></div>
-			</AnimatedChartViewport>
 			</div>
+			</AnimatedChartViewport>
 		</ResponsiveChartViewport>
 		
 		{/* Info Panel */}
-		<AirlinerChartInfoPanel isVisible={isInfoPanelVisible} />
+		<AirlinerChartInfoPanel
+			isVisible={isInfoPanelVisible}
+			familyConnectorOrder={familyConnectorOrder}
+			setFamilyConnectorOrder={setFamilyConnectorOrder}
+			isSemanticZoomEnabled={isSemanticZoomEnabled}
+			setIsSemanticZoomEnabled={setIsSemanticZoomEnabled}
+		/>
+
+		{/* Change List Panel, in compare mode */}
+		{diff && (
+			<AirlinerChartDiffPanel diff={diff} isVisible={isDiffPanelVisible && !isDataIssuesPanelVisible && !isFilterPanelVisible && !isComparePanelVisible} />
+		)}
+
+		{/* Filter Panel */}
+		<AirlinerChartFilterPanel data={allChartData} isVisible={isFilterPanelVisible} />
+
+		{/* Compare Panel */}
+		<AirlinerChartComparePanel isVisible={isComparePanelVisible} />
+
+		{/* Data Issues Panel */}
+		{diagnostics.length > 0 && (
+			<AirlinerChartDataIssuesPanel diagnostics={diagnostics} isVisible={isDataIssuesPanelVisible} />
+		)}
 		
+		</AirlinerAxesProvider>
+		</AirlinerHierarchyProvider>
+		</AirlinerDiffProvider>
 		</AirlinerSelectionProvider>
 		</ChartDataContext.Provider>
 		<hr className="frame-minor" style={{ margin: "0" }} />
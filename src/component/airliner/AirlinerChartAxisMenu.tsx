@@ -0,0 +1,94 @@
+// [IMPORT] React and core libraries //
+import React, { useState } from "react";
+import "./AirlinerChartAxisMenu.css";
+
+// [IMPORT] Context providers/hooks //
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
+
+// [IMPORT] Utilities //
+import { AIRLINER_AXIS_METRICS, getAirlinerAxisLabel } from "@/lib/data/airliner-axis-metrics";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerAxes, AirlinerAxisMetric } from "@/lib/data/airliner-axis-metrics";
+
+/**
+ * AirlinerChartAxisMenu Component
+ *
+ * Button and popover for choosing the metric plotted on each axis of the chart,
+ * e.g. passenger capacity against range, or first delivery against range.
+ * Series metrics such as passenger capacity are only offered for the x-axis.
+ *
+ * @param {AirlinerAxes} axes - The metrics currently plotted on each axis
+ * @param {AirlinerAxisMetric[]} metrics - The metrics to offer, e.g. those the dataset has values for.
+ *   The metrics currently plotted are listed whether or not they are among them
+ * @param {function} onAxesChange - Called with the new axes when the user picks a metric or swaps the axes
+ * @returns {JSX.Element} The axis button and menu
+ */
+export default function AirlinerChartAxisMenu({
+	axes,
+	metrics,
+	onAxesChange,
+}: {
+	axes: AirlinerAxes;
+	metrics: AirlinerAxisMetric[];
+	onAxesChange: (axes: AirlinerAxes) => void;
+}) {
+	const { distanceUnit } = useAirlinerUnits();
+	const [isOpen, setIsOpen] = useState(false);
+
+	// The axes can only be swapped if each metric can go on the other axis
+	const canSwap = axes.x.axes.includes("y") && axes.y.axes.includes("x");
+
+	const renderMetricOptions = (axis: "x" | "y") => (
+		<div className="frame-flex-vertical airlinerAxisMenuOptions">
+			<span className="text-label-minor">{axis === "x" ? "X-axis" : "Y-axis"}</span>
+			{AIRLINER_AXIS_METRICS.filter(metric => metric.axes.includes(axis) && (metrics.includes(metric) || metric === axes[axis])).map((metric: AirlinerAxisMetric) => (
+				<button
+					key={metric.id}
+					className={axes[axis] === metric ? "btn-major" : "btn-diminished"}
+					onClick={() => onAxesChange({ ...axes, [axis]: metric })}
+					aria-pressed={axes[axis] === metric}
+				>
+					{getAirlinerAxisLabel(metric, distanceUnit)}
+				</button>
+			))}
+		</div>
+	);
+
+	return (
+		<div className="airlinerAxisMenuAnchor">
+			<button
+				className={`${isOpen ? "btn-major" : "btn-diminished"} btn-icon-only`}
+				aria-label="Axes"
+				aria-expanded={isOpen}
+				onClick={() => setIsOpen(!isOpen)}
+			>
+				<span className="material-symbols-sharp" aria-hidden="true">scatter_plot</span>
+			</button>
+
+			{isOpen && (
+				<div className="airlinerAxisMenu frame-flex-vertical frame-major">
+					<div className="frame-content">
+						<span className="text-label-major">Axes</span>
+					</div>
+					<hr className="frame-minor" />
+
+					<div className="frame-content airlinerAxisMenuColumns">
+						{renderMetricOptions("x")}
+						{renderMetricOptions("y")}
+					</div>
+
+					<hr className="frame-minor" />
+					<button
+						className="btn-diminished btn-icon-left"
+						onClick={() => onAxesChange({ x: axes.y, y: axes.x })}
+						disabled={!canSwap}
+					>
+						<span className="material-symbols-sharp" aria-hidden="true">swap_horiz</span>
+						Swap axes
+					</button>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,116 @@
+// [IMPORT] React and core libraries //
+import { useMemo } from "react";
+
+// [IMPORT] Third-party libraries //
+import { scaleLinear } from "@visx/scale";
+
+// [IMPORT] Internal components //
+import { MarkerDiamond } from "@/component/shape/MarkerDiamond";
+import MarkerBevelLine from "@/component/shape/MarkerBevelLine";
+
+// [IMPORT] Context providers/hooks //
+import { useAirlinerAxes } from "@/context/AirlinerAxesContext";
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
+
+// [IMPORT] Utilities //
+import { plotAirlinerMarkerSeries } from "@/lib/data/plot-airliner-markers";
+import { getAirlinerAxisDomain, getAirlinerAxisLabel, isAirlinerPlottable, isClassMarker, isLimitMarker } from "@/lib/data/airliner-axis-metrics";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerData } from "@/lib/data/airliner-types";
+
+// Inset size in SVG units; the SVG scales to the panel's width
+const INSET_WIDTH = 360;
+const INSET_HEIGHT = 200;
+const INSET_PADDING = 24;
+const INSET_MARKER_SIZE = 8;
+
+/**
+ * AirlinerChartCompareInset Component
+ *
+ * Small chart of just the compared airliners' marker series, on the chart's axes
+ * but scaled to fit them, so that they can be told apart however close they are on the chart.
+ * The baseline airliner is drawn as selected.
+ *
+ * @param {AirlinerData[]} data - The airliners compared
+ * @param {string} baselineID - The ID of the baseline airliner
+ * @returns {JSX.Element} The inset chart component
+ */
+export default function AirlinerChartCompareInset({ data, baselineID }: { data: AirlinerData[]; baselineID: string }) {
+	const axes = useAirlinerAxes();
+	const { distanceUnit } = useAirlinerUnits();
+
+	// Only airliners with values for the chosen axis metrics are plotted
+	const plottableData = useMemo(() => data.filter(airliner => isAirlinerPlottable(airliner.airlinerData, axes)), [data, axes]);
+
+	// Each airliner's marker series, scaled to fit the compared airliners alone
+	const seriesList = useMemo(() => {
+		const stats = plottableData.map(airliner => airliner.airlinerData);
+		const xScale = scaleLinear<number>({
+			domain: getAirlinerAxisDomain(stats, axes.x),
+			range: [INSET_PADDING, INSET_WIDTH - INSET_PADDING],
+		});
+		const yScale = scaleLinear<number>({
+			domain: getAirlinerAxisDomain(stats, axes.y),
+			range: [INSET_HEIGHT - INSET_PADDING, INSET_PADDING],
+		});
+
+		return plottableData.map(airliner => ({
+			airliner,
+			markerSeries: plotAirlinerMarkerSeries(airliner.airlinerID, airliner.airlinerData, xScale, yScale, INSET_MARKER_SIZE, axes),
+		}));
+	}, [plottableData, axes]);
+
+	const unplottedCount = data.length - plottableData.length;
+
+	return (
+		<div className="frame-flex-vertical airlinerCompareInset">
+			<svg
+				viewBox={`0 0 ${INSET_WIDTH} ${INSET_HEIGHT}`}
+				width="100%"
+				role="img"
+				aria-label={`${getAirlinerAxisLabel(axes.y, distanceUnit)} against ${getAirlinerAxisLabel(axes.x, distanceUnit)} of the compared airliners`}
+			>
+				<rect x={0} y={0} width={INSET_WIDTH} height={INSET_HEIGHT} className="airlinerCompareInsetBackground" />
+				{seriesList.map(({ airliner, markerSeries }) => {
+					const stateClass = airliner.airlinerID === baselineID ? "selectedAirliner" : "";
+					const { x1, x2, x3, y } = markerSeries.lines;
+					return (
+						<g key={airliner.airlinerID}>
+							{x3 > x2 && (
+								<line x1={x2} x2={x3} y1={y} y2={y} className={`markerConnectingLineMinor ${stateClass}`} />
+							)}
+							<MarkerBevelLine x1={x1} x2={x2} y1={y} y2={y} weight={INSET_MARKER_SIZE / 2} className={`markerConnectingLineMajor ${stateClass}`} />
+							{markerSeries.markers.filter(marker => isLimitMarker(marker.markerClass)).map((marker, i) => (
+								<line
+									key={`line-${i}`}
+									x1={marker.markerCoordinates.x}
+									y1={marker.markerCoordinates.y - INSET_MARKER_SIZE / 2}
+									x2={marker.markerCoordinates.x}
+									y2={marker.markerCoordinates.y + INSET_MARKER_SIZE / 2}
+									className={`markerLine ${stateClass}`}
+								/>
+							))}
+							{markerSeries.markers.filter(marker => isClassMarker(marker.markerClass)).map((marker, i) => (
+								<MarkerDiamond
+									key={`diamond-${i}`}
+									cx={marker.markerCoordinates.x}
+									cy={marker.markerCoordinates.y}
+									size={INSET_MARKER_SIZE}
+									className={`markerDiamond ${stateClass}`}
+								/>
+							))}
+							<text x={x1} y={y - INSET_MARKER_SIZE} className={`airlinerCompareInsetLabel ${stateClass}`}>
+								{airliner.airlinerData.nameCommon ?? airliner.airlinerData.nameICAO}
+							</text>
+						</g>
+					);
+				})}
+			</svg>
+			<span className="text-body-diminished">
+				{getAirlinerAxisLabel(axes.y, distanceUnit)} against {getAirlinerAxisLabel(axes.x, distanceUnit)}
+				{unplottedCount > 0 && `; ${unplottedCount} without values for these axes`}
+			</span>
+		</div>
+	);
+}
@@ -0,0 +1,161 @@
+// [IMPORT] React and core libraries //
+import { useMemo, useState } from "react";
+import "./AirlinerChartComparePanel.css";
+
+// [IMPORT] Internal components //
+import AirlinerChartCompareInset from "./AirlinerChartCompareInset";
+
+// [IMPORT] Context providers/hooks //
+import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
+import { useChartData } from "./AirlinerChart";
+
+// [IMPORT] Utilities //
+import { AIRLINER_COMPARISON_ROWS, getAirlinerFieldDelta, getBestAirlinerIDs } from "@/lib/data/airliner-comparison";
+import { formatAirlinerField, formatAirlinerFieldValue } from "@/lib/data/airliner-field-format";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerFieldDelta } from "@/lib/data/airliner-comparison";
+import type { AirlinerField } from "@/lib/data/airliner-derived-fields";
+import type { DistanceUnit } from "@/lib/data/airliner-units";
+
+/**
+ * @function formatDelta
+ * @description Formats a difference from the baseline with its sign, e.g. `+4,500 kg (+5%)`.
+ */
+function formatDelta({ difference, ratio }: AirlinerFieldDelta, field: AirlinerField, distanceUnit: DistanceUnit): string {
+	const sign = difference > 0 ? "+" : "−";
+	const text = `${sign}${formatAirlinerFieldValue(Math.abs(difference), field, distanceUnit)}`;
+	return ratio === null ? text : `${text} (${sign}${Math.round(Math.abs(ratio) * 100)}%)`;
+}
+
+/**
+ * AirlinerChartComparePanel Component
+ *
+ * Collapsible panel comparing the selected airliners side by side, one column each,
+ * in the order they were selected. The best value of each ranked row is highlighted,
+ * and every column shows how its numbers differ from a baseline airliner's, the first selected unless another is picked.
+ * Can also overlay the compared airliners' marker series in an inset chart.
+ * Always rendered but positioned off-screen when not visible.
+ *
+ * @param {boolean} isVisible - Whether the panel should be visible
+ * @returns {JSX.Element} The compare panel component
+ */
+export default function AirlinerChartComparePanel({ isVisible }: { isVisible: boolean }) {
+	const { selectedAirlinerIDs, removeSelectedAirliner } = useAirlinerSelection();
+	const { distanceUnit } = useAirlinerUnits();
+	const chartData = useChartData();
+
+	// The picked baseline airliner, or null for the first selected
+	const [pickedBaselineID, setPickedBaselineID] = useState<string | null>(null);
+
+	// Whether the inset chart of the compared airliners is shown
+	const [isInsetVisible, setIsInsetVisible] = useState(false);
+
+	// Selected airliners in selection order, leaving out any the filter has since hidden
+	const comparedData = useMemo(() => selectedAirlinerIDs.flatMap(airlinerID => {
+		const airliner = chartData.find(airliner => airliner.airlinerID === airlinerID);
+		return airliner ? [airliner] : [];
+	}), [selectedAirlinerIDs, chartData]);
+
+	const baseline = comparedData.find(airliner => airliner.airlinerID === pickedBaselineID) ?? comparedData[0];
+
+	// Airliners with the best value of each row
+	const bestIDs = useMemo(() => AIRLINER_COMPARISON_ROWS.map(row => getBestAirlinerIDs(comparedData, row)), [comparedData]);
+
+	return (
+		<div className={`airlinerComparePanel frame-flex-vertical frame-major ${isVisible ? 'airlinerComparePanel--visible' : 'airlinerComparePanel--hidden'}`}>
+			<div className="frame-flex-horizontal frame-content airlinerCompareHeader">
+				<div className="frame-flex-vertical">
+					<span className="text-label-major">Compare</span>
+					<span className="text-body-diminished">
+						{comparedData.length < 2
+							? "Shift-click airliners on the chart to compare them"
+							: `${comparedData.length} airliners`}
+					</span>
+				</div>
+				<label className="input-checkbox">
+					<input
+						type="checkbox"
+						checked={isInsetVisible}
+						disabled={comparedData.length === 0}
+						onChange={() => setIsInsetVisible(!isInsetVisible)}
+					/>
+					Overlay marker series
+				</label>
+			</div>
+
+			{baseline && isInsetVisible && (
+				<>
+					<hr className="frame-minor" />
+					<div className="frame-content">
+						<AirlinerChartCompareInset data={comparedData} baselineID={baseline.airlinerID} />
+					</div>
+				</>
+			)}
+
+			{baseline && (
+				<>
+					<hr className="frame-minor" />
+					<div className="airlinerCompareTableScroll">
+						<table className="airlinerCompareTable">
+							<thead>
+								<tr>
+									<th></th>
+									{comparedData.map(airliner => {
+										const isBaseline = airliner.airlinerID === baseline.airlinerID;
+										return (
+											<th key={airliner.airlinerID} className={isBaseline ? "airlinerCompareBaseline" : undefined}>
+												<div className="frame-flex-vertical">
+													<span className="text-label-diminished">{airliner.airlinerData.manufacturer}</span>
+													<span className="text-body-minor">{airliner.airlinerData.nameCommon ?? airliner.airlinerData.nameICAO}</span>
+													<div className="frame-flex-horizontal airlinerCompareColumnActions">
+														{isBaseline
+															? <span className="text-label-minor">Baseline</span>
+															: <button className="btn-diminished" onClick={() => setPickedBaselineID(airliner.airlinerID)}>
+																Set as baseline
+															</button>}
+														<button
+															className="btn-diminished btn-icon-only"
+															onClick={() => removeSelectedAirliner(airliner.airlinerID)}
+															aria-label={`Remove ${airliner.airlinerData.nameCommon ?? airliner.airlinerData.nameICAO} from comparison`}
+														>
+															<span className="material-symbols-sharp" aria-hidden="true">close</span>
+														</button>
+													</div>
+												</div>
+											</th>
+										);
+									})}
+								</tr>
+							</thead>
+							<tbody>
+								{AIRLINER_COMPARISON_ROWS.map(({ field, label }, rowIndex) => (
+									<tr key={field}>
+										<th scope="row" className="text-label-diminished">{label}</th>
+										{comparedData.map(airliner => {
+											const isBaseline = airliner.airlinerID === baseline.airlinerID;
+											const isBest = bestIDs[rowIndex].includes(airliner.airlinerID);
+											const delta = isBaseline ? null : getAirlinerFieldDelta(airliner.airlinerData, baseline.airlinerData, field);
+											return (
+												<td
+													key={airliner.airlinerID}
+													className={`${isBaseline ? "airlinerCompareBaseline" : ""} ${isBest ? "airlinerCompareBest" : ""}`}
+												>
+													<span className="text-body-minor">{formatAirlinerField(airliner.airlinerData, field, distanceUnit)}</span>
+													{delta && delta.difference !== 0 && (
+														<span className="text-body-diminished airlinerCompareDelta">{formatDelta(delta, field, distanceUnit)}</span>
+													)}
+												</td>
+											);
+										})}
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,64 @@
+// [IMPORT] React and core libraries //
+import React, { useMemo } from "react";
+import "./AirlinerChartDataIssuesPanel.css";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerDataDiagnostic } from "@/lib/data/airliner-types";
+
+/**
+ * AirlinerChartDataIssuesPanel Component
+ * 
+ * Collapsible panel listing the problems found while loading the airliner dataset,
+ * so rejected or suspicious rows can be reviewed without opening the devtools.
+ * Always rendered but positioned off-screen when not visible.
+ * 
+ * @param {AirlinerDataDiagnostic[]} diagnostics - The diagnostics reported by the loader
+ * @param {boolean} isVisible - Whether the panel should be visible
+ * @returns {JSX.Element} The data issues panel component
+ */
+export default function AirlinerChartDataIssuesPanel({ diagnostics, isVisible }: { diagnostics: AirlinerDataDiagnostic[]; isVisible: boolean }) {
+
+	// Errors first, then warnings, each in source order
+	const sortedDiagnostics = useMemo(() => [
+		...diagnostics.filter(diagnostic => diagnostic.severity === "error"),
+		...diagnostics.filter(diagnostic => diagnostic.severity === "warning"),
+	], [diagnostics]);
+
+	const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === "error").length;
+	const warningCount = diagnostics.length - errorCount;
+
+	return (
+		<div className={`airlinerDataIssuesPanel frame-flex-vertical frame-major ${isVisible ? 'airlinerDataIssuesPanel--visible' : 'airlinerDataIssuesPanel--hidden'}`}>
+			<div className="frame-flex-vertical frame-content">
+				<span className="text-label-major">Data issues</span>
+				<span className="text-body-diminished">
+					{errorCount} {errorCount === 1 ? "error" : "errors"}, {warningCount} {warningCount === 1 ? "warning" : "warnings"}
+				</span>
+			</div>
+
+			<hr className="frame-minor" />
+
+			{sortedDiagnostics.length > 0 ? (
+				<ul className="airlinerDataIssuesList">
+					{sortedDiagnostics.map((diagnostic, index) => (
+						<li
+							key={`${diagnostic.line}-${diagnostic.field}-${diagnostic.rule}-${index}`}
+							className={`frame-content airlinerDataIssue airlinerDataIssue--${diagnostic.severity}`}
+						>
+							<span className="text-label-diminished">
+								{diagnostic.line !== null ? `Line ${diagnostic.line}` : "File"}
+								{diagnostic.field ? ` · ${diagnostic.field}` : ""}
+								{` · ${diagnostic.rule}`}
+							</span>
+							<span className="text-body-minor">{diagnostic.message}</span>
+						</li>
+					))}
+				</ul>
+			) : (
+				<div className="frame-content">
+					<p className="text-body-diminished">No issues found in the dataset.</p>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,110 @@
+// [IMPORT] React and core libraries //
+import React, { useMemo } from "react";
+import "./AirlinerChartDiffPanel.css";
+
+// [IMPORT] Context providers/hooks //
+import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerDataDiff, AirlinerDiffKind } from "@/lib/data/airliner-data-diff";
+
+// Order and headings of the change list sections
+const DIFF_SECTIONS: { kind: Exclude<AirlinerDiffKind, "unchanged">; heading: string }[] = [
+	{ kind: "changed", heading: "Changed" },
+	{ kind: "added", heading: "Added" },
+	{ kind: "removed", heading: "Removed" },
+];
+
+/**
+ * @function formatDiffValue
+ * @description Formats a field value for the change list.
+ */
+function formatDiffValue(value: unknown): string {
+	if (value === undefined || value === null || value === "") return "—";
+	if (Array.isArray(value)) return value.join(", ");
+	if (typeof value === "number") return value.toLocaleString();
+	return String(value);
+}
+
+/**
+ * AirlinerChartDiffPanel Component
+ *
+ * Collapsible panel listing the airliners that were added, removed or changed between
+ * the compared datasets, with the before and after value of every changed field.
+ * Clicking an airliner that is still in the dataset selects it on the chart.
+ * Always rendered but positioned off-screen when not visible.
+ *
+ * @param {AirlinerDataDiff} diff - The difference between the compared datasets
+ * @param {boolean} isVisible - Whether the panel should be visible
+ * @returns {JSX.Element} The change list panel component
+ */
+export default function AirlinerChartDiffPanel({ diff, isVisible }: { diff: AirlinerDataDiff; isVisible: boolean }) {
+	const { isAirlinerSelected, setSelectedAirliner } = useAirlinerSelection();
+
+	// Group the entries by kind, keeping dataset order within each group
+	const sections = useMemo(() => DIFF_SECTIONS.map(({ kind, heading }) => ({
+		kind,
+		heading,
+		entries: Array.from(diff.entries.values()).filter(entry => entry.kind === kind),
+	})).filter(section => section.entries.length > 0), [diff]);
+
+	return (
+		<div className={`airlinerDiffPanel frame-flex-vertical frame-major ${isVisible ? 'airlinerDiffPanel--visible' : 'airlinerDiffPanel--hidden'}`}>
+			<div className="frame-flex-vertical frame-content">
+				<span className="text-label-major">Changes</span>
+				<span className="text-body-diminished">
+					{diff.counts.changed} changed, {diff.counts.added} added, {diff.counts.removed} removed, {diff.counts.unchanged} unchanged
+				</span>
+			</div>
+
+			{sections.length === 0 && (
+				<>
+					<hr className="frame-minor" />
+					<div className="frame-content">
+						<p className="text-body-diminished">The datasets are identical.</p>
+					</div>
+				</>
+			)}
+
+			{sections.map(({ kind, heading, entries }) => (
+				<React.Fragment key={kind}>
+					<hr className="frame-minor" />
+					<div className="frame-content">
+						<span className="text-label-minor">{heading}</span>
+					</div>
+					<ul className="airlinerDiffList">
+						{entries.map(entry => {
+							const airliner = entry.after ?? entry.before;
+							const isSelectable = entry.kind !== "removed";
+							return (
+								<li
+									key={entry.airlinerID}
+									className={`frame-content airlinerDiffItem airlinerDiffItem--${entry.kind} ${isAirlinerSelected(entry.airlinerID) ? "airlinerDiffItem--selected" : ""}`}
+									onClick={isSelectable ? () => setSelectedAirliner(entry.airlinerID) : undefined}
+								>
+									<span className="text-label-diminished">
+										{airliner?.nameCommon ?? airliner?.nameICAO}
+										{` · ${entry.airlinerID}`}
+									</span>
+									{entry.changes.length > 0 && (
+										<table className="airlinerDiffChanges">
+											<tbody>
+												{entry.changes.map(change => (
+													<tr key={change.field}>
+														<th className="text-body-minor">{change.field}</th>
+														<td className="text-body-diminished">{formatDiffValue(change.before)}</td>
+														<td className="text-body-minor">→ {formatDiffValue(change.after)}</td>
+													</tr>
+												))}
+											</tbody>
+										</table>
+									)}
+								</li>
+							);
+						})}
+					</ul>
+				</React.Fragment>
+			))}
+		</div>
+	);
+}
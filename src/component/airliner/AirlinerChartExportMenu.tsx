@@ -0,0 +1,141 @@
+// [IMPORT] React and core libraries //
+import React, { useState, useMemo } from "react";
+import "./AirlinerChartExportMenu.css";
+
+// [IMPORT] Context providers/hooks //
+import { useChartData } from "./AirlinerChart";
+import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
+import { useAirlinerAxes } from "@/context/AirlinerAxesContext";
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
+
+// [IMPORT] Utilities //
+import { getAirlinerIDsInView } from "@/lib/data/airliner-axis-metrics";
+import { DISTANCE_UNIT_INFO } from "@/lib/data/airliner-units";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerData } from "@/lib/data/airliner-types";
+import type { AirlinerExportFormat } from "@/lib/data/airliner-data-export";
+
+/**
+ * @function downloadText
+ * @description Saves text as a file through a temporary download link.
+ */
+function downloadText(text: string, fileName: string, mimeType: string) {
+	const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.click();
+
+	// Revoking straight away can cancel the download in some browsers, so wait until the click has been handled
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * AirlinerChartExportMenu Component
+ *
+ * Button and popover for exporting the chart's dataset as CSV or JSON.
+ * Exports either the airliners currently in the viewport, leaving out those the timeline hides, or the whole dataset,
+ * optionally with computed columns such as `airlinerID`.
+ * CSV exports carry a type hint row, so they re-import through `loadAirlinerData`.
+ * Distances stay in kilometres, with extra converted columns when the reader has picked another unit.
+ *
+ * @param {number | null} timelineYear - Optional. The year the timeline shows, so that airliners it hides are not exported as in view
+ * @returns {JSX.Element} The export button and menu
+ */
+export default function AirlinerChartExportMenu({ timelineYear = null }: { timelineYear?: number | null }) {
+	const data = useChartData() as AirlinerData[];
+	const { viewportScale } = useResponsiveChartViewport();
+	const axes = useAirlinerAxes();
+	const { distanceUnit } = useAirlinerUnits();
+
+	const [isOpen, setIsOpen] = useState(false);
+	const [scope, setScope] = useState<"view" | "all">("view");
+	const [format, setFormat] = useState<AirlinerExportFormat>("csv");
+	const [includeComputed, setIncludeComputed] = useState(false);
+
+	// Airliners shown with any part of them inside the current viewport
+	const airlinersInView = useMemo(() => {
+		const idsInView = new Set(getAirlinerIDsInView(data, axes, { x: viewportScale.x.domain(), y: viewportScale.y.domain() }, timelineYear));
+		return data.filter(airliner => idsInView.has(airliner.airlinerID));
+	}, [data, viewportScale, axes, timelineYear]);
+
+	const exportedAirliners = scope === "view" ? airlinersInView : data;
+
+	// The serialisers are only fetched on export, to keep PapaParse out of the page bundle
+	const handleExport = async () => {
+		const { serialiseAirlinerData } = await import("@/lib/data/airliner-data-export");
+		const { text, mimeType, extension } = serialiseAirlinerData(exportedAirliners, format, includeComputed, distanceUnit);
+		downloadText(text, `airliners-${scope === "view" ? "in-view" : "all"}.${extension}`, mimeType);
+		setIsOpen(false);
+	};
+
+	return (
+		<div className="airlinerExportMenuAnchor">
+			<button
+				className={`${isOpen ? "btn-major" : "btn-diminished"} btn-icon-only`}
+				aria-label="Export data"
+				aria-expanded={isOpen}
+				onClick={() => setIsOpen(!isOpen)}
+			>
+				<span className="material-symbols-sharp" aria-hidden="true">download</span>
+			</button>
+
+			{isOpen && (
+				<div className="airlinerExportMenu frame-flex-vertical frame-major">
+					<div className="frame-content">
+						<span className="text-label-major">Export data</span>
+					</div>
+					<hr className="frame-minor" />
+
+					<div className="frame-flex-vertical frame-content airlinerExportMenuOptions">
+						<span className="text-label-minor">Airliners</span>
+						<div className="btn-group">
+							<button className={scope === "view" ? "btn-major" : "btn-diminished"} onClick={() => setScope("view")} aria-pressed={scope === "view"}>
+								In view ({airlinersInView.length})
+							</button>
+							<button className={scope === "all" ? "btn-major" : "btn-diminished"} onClick={() => setScope("all")} aria-pressed={scope === "all"}>
+								All ({data.length})
+							</button>
+						</div>
+
+						<span className="text-label-minor">Format</span>
+						<div className="btn-group">
+							<button className={format === "csv" ? "btn-major" : "btn-diminished"} onClick={() => setFormat("csv")} aria-pressed={format === "csv"}>
+								CSV
+							</button>
+							<button className={format === "json" ? "btn-major" : "btn-diminished"} onClick={() => setFormat("json")} aria-pressed={format === "json"}>
+								JSON
+							</button>
+						</div>
+
+						<label className="text-body-minor airlinerExportMenuCheckbox">
+							<input
+								type="checkbox"
+								checked={includeComputed}
+								onChange={event => setIncludeComputed(event.target.checked)}
+							/>
+							Include computed columns (airliner ID, derived metrics)
+						</label>
+
+						{distanceUnit !== "km" && (
+							<span className="text-body-diminished">
+								Range is exported in km, and again in {DISTANCE_UNIT_INFO[distanceUnit].symbol}.
+							</span>
+						)}
+					</div>
+
+					<hr className="frame-minor" />
+					<button
+						className="btn-major btn-icon-left"
+						onClick={handleExport}
+						disabled={exportedAirliners.length === 0}
+					>
+						<span className="material-symbols-sharp" aria-hidden="true">download</span>
+						Download {exportedAirliners.length} {exportedAirliners.length === 1 ? "airliner" : "airliners"}
+					</button>
+				</div>
+			)}
+		</div>
+	);
+}
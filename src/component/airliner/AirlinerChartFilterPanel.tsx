@@ -0,0 +1,212 @@
+// [IMPORT] React and core libraries //
+import React, { useMemo } from "react";
+import "./AirlinerChartFilterPanel.css";
+
+// [IMPORT] Context providers/hooks //
+import { useAirlinerFilter } from "@/context/AirlinerFilterContext";
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
+
+// [IMPORT] Utilities //
+import {
+	AIRLINER_FILTER_FACETS,
+	AIRLINER_FILTER_RANGES,
+	EMPTY_AIRLINER_FILTER,
+	countAirlinersInRange,
+	filterAirlinerData,
+	getAirlinerFacetCounts,
+	getAirlinerRangeBounds,
+	isAirlinerFilterActive,
+} from "@/lib/data/airliner-filters";
+import { formatDistance } from "@/lib/data/airliner-units";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerData } from "@/lib/data/airliner-types";
+import type { AirlinerFilterFacet, AirlinerFilterRange } from "@/lib/data/airliner-filters";
+import type { DistanceUnit } from "@/lib/data/airliner-units";
+
+/**
+ * Human-readable heading for each facet.
+ */
+const FACET_TEXT: Record<AirlinerFilterFacet, string> = {
+	manufacturer: "Manufacturer",
+	bodyType: "Body type",
+	status: "Status",
+};
+
+/**
+ * Human-readable text for facet values that are not shown as they are stored.
+ */
+const FACET_VALUE_TEXT: Record<string, string> = {
+	narrow: "Narrowbody",
+	wide: "Widebody",
+	development: "In development",
+	active: "Active",
+	discontinued: "Discontinued",
+	retired: "Retired",
+};
+
+/**
+ * @type {FilterRangeFormat}
+ * @description How a range's slider is labelled and stepped.
+ *
+ * @property {string} label - The range's heading.
+ * @property {number} step - The slider step, which its bounds are rounded out to.
+ * @property {function} format - Formats a value of the range for the reader.
+ */
+type FilterRangeFormat = {
+	label: string;
+	step: number;
+	format: (value: number, distanceUnit: DistanceUnit) => string;
+}
+
+/**
+ * Heading, step and formatting of each range.
+ */
+const RANGE_FORMAT: Record<AirlinerFilterRange, FilterRangeFormat> = {
+	firstDelivery: { label: "First delivery", step: 1, format: value => `${value}` },
+	rangeKM: { label: "Range", step: 100, format: (value, distanceUnit) => formatDistance(value, distanceUnit) },
+	capacity: { label: "Capacity", step: 10, format: value => `${value.toLocaleString()} seats` },
+};
+
+/**
+ * AirlinerChartFilterPanel Component
+ *
+ * Collapsible panel for narrowing down the airliners charted and listed, by picking
+ * manufacturers, body types and statuses, and by limiting first delivery, range and capacity.
+ * Each choice shows how many airliners it would keep, given the rest of the filter.
+ * Always rendered but positioned off-screen when not visible.
+ *
+ * @param {AirlinerData[]} data - The unfiltered airliners of the dataset
+ * @param {boolean} isVisible - Whether the panel should be visible
+ * @returns {JSX.Element} The filter panel component
+ */
+export default function AirlinerChartFilterPanel({ data, isVisible }: { data: AirlinerData[]; isVisible: boolean }) {
+	const { filter, setFilter } = useAirlinerFilter();
+	const { distanceUnit } = useAirlinerUnits();
+
+	const filteredCount = useMemo(() => filterAirlinerData(data, filter).length, [data, filter]);
+
+	// Values of each facet with their counts
+	const facetCounts = useMemo(() => AIRLINER_FILTER_FACETS.map(facet => ({
+		facet,
+		counts: getAirlinerFacetCounts(data, filter, facet),
+	})), [data, filter]);
+
+	// Slider bounds of each range, rounded out to its step; ranges no airliner has a value for are left out
+	const rangeBounds = useMemo(() => AIRLINER_FILTER_RANGES.flatMap(range => {
+		const bounds = getAirlinerRangeBounds(data, range);
+		if (!bounds) return [];
+		const { step } = RANGE_FORMAT[range];
+		return [{ range, bounds: [Math.floor(bounds[0] / step) * step, Math.ceil(bounds[1] / step) * step] as [number, number] }];
+	}), [data]);
+
+	// Add or remove a value of a facet
+	const toggleFacetValue = (facet: AirlinerFilterFacet, value: string) => {
+		const values = filter.facets[facet];
+		setFilter({
+			...filter,
+			facets: {
+				...filter.facets,
+				[facet]: values.includes(value) ? values.filter(v => v !== value) : [...values, value],
+			},
+		});
+	};
+
+	// Move one end of a range, keeping it from crossing the other; spanning the whole slider clears the range
+	const setRangeEnd = (range: AirlinerFilterRange, bounds: [number, number], end: 0 | 1, value: number) => {
+		const current = filter.ranges[range] ?? bounds;
+		const next: [number, number] = end === 0 ? [Math.min(value, current[1]), current[1]] : [current[0], Math.max(value, current[0])];
+		setFilter({
+			...filter,
+			ranges: {
+				...filter.ranges,
+				[range]: next[0] <= bounds[0] && next[1] >= bounds[1] ? null : next,
+			},
+		});
+	};
+
+	return (
+		<div className={`airlinerFilterPanel frame-flex-vertical frame-major ${isVisible ? 'airlinerFilterPanel--visible' : 'airlinerFilterPanel--hidden'}`}>
+			<div className="frame-flex-horizontal frame-content airlinerFilterHeader">
+				<div className="frame-flex-vertical">
+					<span className="text-label-major">Filters</span>
+					<span className="text-body-diminished">
+						Showing {filteredCount} of {data.length} airliners
+					</span>
+				</div>
+				<button
+					className="btn-diminished btn-icon-left"
+					onClick={() => setFilter(EMPTY_AIRLINER_FILTER)}
+					disabled={!isAirlinerFilterActive(filter)}
+				>
+					<span className="material-symbols-sharp" aria-hidden="true">filter_alt_off</span>
+					Reset
+				</button>
+			</div>
+
+			{facetCounts.map(({ facet, counts }) => (
+				<React.Fragment key={facet}>
+					<hr className="frame-minor" />
+					<fieldset className="frame-content airlinerFilterFacet">
+						<legend className="text-label-minor">{FACET_TEXT[facet]}</legend>
+						{counts.map(({ value, count }) => {
+							const isChecked = filter.facets[facet].includes(value);
+							return (
+								<label key={value} className="input-checkbox">
+									<input
+										type="checkbox"
+										checked={isChecked}
+										disabled={count === 0 && !isChecked}
+										onChange={() => toggleFacetValue(facet, value)}
+									/>
+									{FACET_VALUE_TEXT[value] ?? value}
+									<span className="text-body-diminished airlinerFilterCount">{count}</span>
+								</label>
+							);
+						})}
+					</fieldset>
+				</React.Fragment>
+			))}
+
+			{rangeBounds.map(({ range, bounds }) => {
+				const { label, step, format } = RANGE_FORMAT[range];
+				const [from, to] = filter.ranges[range] ?? bounds;
+				return (
+					<React.Fragment key={range}>
+						<hr className="frame-minor" />
+						<fieldset className="frame-content airlinerFilterRange">
+							<legend className="text-label-minor">{label}</legend>
+							<span className="text-body-minor">
+								{format(from, distanceUnit)} – {format(to, distanceUnit)}
+								<span className="text-body-diminished airlinerFilterCount">{countAirlinersInRange(data, filter, range, [from, to])}</span>
+							</span>
+							<input
+								type="range"
+								min={bounds[0]}
+								max={bounds[1]}
+								step={step}
+								value={from}
+								onChange={event => setRangeEnd(range, bounds, 0, Number(event.target.value))}
+								aria-label={`${label}, lowest`}
+								aria-valuetext={format(from, distanceUnit)}
+							/>
+							<input
+								type="range"
+								min={bounds[0]}
+								max={bounds[1]}
+								step={step}
+								value={to}
+								onChange={event => setRangeEnd(range, bounds, 1, Number(event.target.value))}
+								aria-label={`${label}, highest`}
+								aria-valuetext={format(to, distanceUnit)}
+							/>
+							{filter.ranges[range] && (
+								<span className="text-body-diminished">Airliners without a value are hidden.</span>
+							)}
+						</fieldset>
+					</React.Fragment>
+				);
+			})}
+		</div>
+	);
+}
@@ -3,51 +3,86 @@ import { useMemo } from "react";
 
 // [IMPORT] Context providers/hooks //
 import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
+import { useAirlinerAxes } from "@/context/AirlinerAxesContext";
+import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
 import { useChartData } from "./AirlinerChart";
 
+// [IMPORT] Utilities //
+import { getAirlinerIDsInView } from "@/lib/data/airliner-axis-metrics";
+
 /**
  * AirlinerChartInfoBar Component
- * 
+ *
  * Displays either the selected airliner name or the default info text.
  * Uses the airliner selection context to determine what to show.
- * 
+ * When several airliners are selected, names the primary one and counts the rest.
+ * Also offers to select every airliner in view, as Ctrl+A does on the chart.
+ *
+ * @param {number | null} timelineYear - Optional. The year the timeline shows, so that airliners it hides are not selected
  * @returns {JSX.Element} The info bar component
  */
-export default function AirlinerChartInfoBar() {
-	const { selectedAirlinerID } = useAirlinerSelection();
+export default function AirlinerChartInfoBar({ timelineYear = null }: { timelineYear?: number | null }) {
+	const { selectedAirlinerID, selectedAirlinerIDs, replaceSelectedAirliners } = useAirlinerSelection();
+	const { viewportScale } = useResponsiveChartViewport();
+	const axes = useAirlinerAxes();
 	const chartData = useChartData();
-	
+
 	// Get selected airliner name if one is selected
 	const selectedAirlinerName = useMemo(() => {
 		if (!selectedAirlinerID) return null;
-		
+
 		const selectedAirliner = chartData.find(airliner => airliner.airlinerID === selectedAirlinerID);
 		if (!selectedAirliner) return null;
-		
+
 		const { manufacturer, nameCommon } = selectedAirliner.airlinerData;
-		
+
 		// Construct name as manufacturer + common name
 		if (nameCommon) {
 			return `${manufacturer} ${nameCommon}`;
 		}
-		
+
 		// Fallback to just manufacturer if no common name
 		return manufacturer;
 	}, [selectedAirlinerID, chartData]);
-	
+
+	// Select every shown airliner with any part of it in view
+	const handleSelectAllInView = () => {
+		replaceSelectedAirliners(getAirlinerIDsInView(chartData, axes, { x: viewportScale.x.domain(), y: viewportScale.y.domain() }, timelineYear));
+	};
+
+	const selectAllButton = (
+		<button
+			className="btn-diminished btn-icon-only"
+			onClick={handleSelectAllInView}
+			aria-label="Select all in view"
+			title="Select all in view (Ctrl+A)"
+		>
+			<span className="material-symbols-sharp" aria-hidden="true">select_all</span>
+		</button>
+	);
+
 	// Display selected airliner name or default info
 	if (selectedAirlinerName) {
 		return (
-			<p className="text-body-minor">
-				{selectedAirlinerName}
-			</p>
+			<>
+				<p className="text-body-minor">
+					{selectedAirlinerName}
+					{selectedAirlinerIDs.length > 1 && (
+						<span className="text-body-diminished"> + {selectedAirlinerIDs.length - 1} more</span>
+					)}
+				</p>
+				{selectAllButton}
+			</>
 		);
 	}
-	
+
 	// Default info text
 	return (
-		<p className="text-body-diminished">
-			Airliner Chart by <a href="https://www.shojiushiyama.net/">Shoji Ushiyama</a> / <a href="https://www.kavaeric.com">Kavaeric</a>.
-		</p>
+		<>
+			<p className="text-body-diminished">
+				Airliner Chart by <a href="https://www.shojiushiyama.net/">Shoji Ushiyama</a> / <a href="https://www.kavaeric.com">Kavaeric</a>.
+			</p>
+			{selectAllButton}
+		</>
 	);
-} 
\ No newline at end of file
+}
@@ -8,9 +8,62 @@ import "./AirlinerChartInfoPanel.css";
 import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
 import { useChartData } from "./AirlinerChart";
 import { useDebugMode } from "@/context/DebugModeContext";
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
+import { useAirlinerHierarchy } from "@/context/AirlinerHierarchyContext";
 
 // [IMPORT] Utilities //
 import { loadAirlinerDescription } from "@/lib/utils/load-airliner-description";
+import { formatAirlinerField } from "@/lib/data/airliner-field-format";
+import { AIRLINER_DERIVED_FIELD_IDS, AIRLINER_DERIVED_FIELDS } from "@/lib/data/airliner-derived-fields";
+import { DISTANCE_UNITS, DISTANCE_UNIT_INFO } from "@/lib/data/airliner-units";
+import { FAMILY_CONNECTOR_ORDERS } from "@/lib/data/plot-family-connectors";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerStatus, AirlinerBodyType } from "@/lib/data/airliner-types";
+import type { FamilyConnectorOrder } from "@/lib/data/plot-family-connectors";
+
+/**
+ * Human-readable text for each airliner status.
+ */
+const STATUS_TEXT: Record<AirlinerStatus, string> = {
+	development: "In development",
+	active: "Active",
+	discontinued: "Discontinued",
+	retired: "Retired",
+};
+
+/**
+ * Human-readable text for each fuselage type.
+ */
+const BODY_TYPE_TEXT: Record<AirlinerBodyType, string> = {
+	narrow: "Narrowbody",
+	wide: "Widebody",
+};
+
+/**
+ * Human-readable text for each family connector order.
+ */
+const FAMILY_CONNECTOR_ORDER_TEXT: Record<FamilyConnectorOrder, string> = {
+	capacity: "By capacity",
+	generation: "By generation",
+};
+
+/**
+ * AirlinerChartInfoPanel Props
+ *
+ * @property {boolean} isVisible - Whether the panel should be visible
+ * @property {FamilyConnectorOrder | null} familyConnectorOrder - The order family connectors join variants in, or null when hidden
+ * @property {function} setFamilyConnectorOrder - Changes the family connector order, or hides them with null
+ * @property {boolean} isSemanticZoomEnabled - Whether families collapse into composites until the chart is zoomed in
+ * @property {function} setIsSemanticZoomEnabled - Turns semantic zoom on or off
+ */
+interface AirlinerChartInfoPanelProps {
+	isVisible: boolean;
+	familyConnectorOrder: FamilyConnectorOrder | null;
+	setFamilyConnectorOrder: (order: FamilyConnectorOrder | null) => void;
+	isSemanticZoomEnabled: boolean;
+	setIsSemanticZoomEnabled: (isEnabled: boolean) => void;
+}
 
 /**
  * AirlinerChartInfoPanel Component
@@ -18,13 +71,21 @@ import { loadAirlinerDescription } from "@/lib/utils/load-airliner-description";
  * Expandable/collapsible info panel for displaying detailed information about selected airliners.
  * Always rendered but positioned off-screen when not visible.
  * 
- * @param {boolean} isVisible - Whether the panel should be visible
+ * @param {AirlinerChartInfoPanelProps} props - Visibility and the chart options the panel controls
  * @returns {JSX.Element | null} The info panel component or null if no airliner is selected
  */
-export default function AirlinerChartInfoPanel({ isVisible }: { isVisible: boolean }) {
-	const { selectedAirlinerID } = useAirlinerSelection();
+export default function AirlinerChartInfoPanel({
+	isVisible,
+	familyConnectorOrder,
+	setFamilyConnectorOrder,
+	isSemanticZoomEnabled,
+	setIsSemanticZoomEnabled
+}: AirlinerChartInfoPanelProps) {
+	const { selectedAirlinerID, setSelectedAirliner } = useAirlinerSelection();
 	const chartData = useChartData();
 	const { debugMode, setDebugMode } = useDebugMode();
+	const { distanceUnit, setDistanceUnit } = useAirlinerUnits();
+	const hierarchy = useAirlinerHierarchy();
 	
 	// State for markdown description
 	const [description, setDescription] = useState<string | null>(null);
@@ -56,42 +117,16 @@ export default function AirlinerChartInfoPanel({ isVisible }: { isVisible: boole
 		loadDescription();
 	}, [selectedAirliner?.airlinerID]);
 
-	const getStatusText = (status: string | undefined): string => {
-		if (!status) return "-";
-		
-		switch (status) {
-			case "active":
-				return "Active";
-			case "discontinued":
-				return "Discontinued";
-			case "development":
-				return "In development";
-			case "retired":
-				return "Retired";
-			default:
-				return status.charAt(0).toUpperCase() + status.slice(1);
-		}
-	};
-
-	/**
-	 * Returns a human-readable body type string for the airliner.
-	 * Expands to "Widebody" or "Narrowbody" for known values, otherwise returns a capitalised fallback.
-	 * @param {string | undefined} bodyType
-	 * @returns {string}
-	 */
-	const getBodyTypeText = (bodyType: string | undefined): string => {
-		if (!bodyType) return "-";
-		switch (bodyType.toLowerCase()) {
-			case "wide":
-				return "Widebody";
-			case "narrow":
-				return "Narrowbody";
-			default:
-				return bodyType.charAt(0).toUpperCase() + bodyType.slice(1);
-		}
-	};
-	
-	const statusText = getStatusText(selectedAirliner?.airlinerData.status);
+	// Values outside the schema, which JSON datasets can hold, are shown as they are
+	const status = selectedAirliner?.airlinerData.status;
+	const statusText = status ? STATUS_TEXT[status] ?? status : "-";
+
+	const bodyType = selectedAirliner?.airlinerData.bodyType;
+	const bodyTypeText = bodyType ? BODY_TYPE_TEXT[bodyType] ?? bodyType : "-";
+
+	// The selected airliner's family, listed only if it has other variants to jump to
+	const family = selectedAirliner ? hierarchy.getFamily(selectedAirliner.airlinerID) : undefined;
+	const hasRelatives = (family?.generations.flatMap(generation => generation.variants).length ?? 0) > 1;
 	
 	return (
 		<div className={`airlinerInfoPanel frame-flex-vertical frame-major ${isVisible ? 'airlinerInfoPanel--visible' : 'airlinerInfoPanel--hidden'}`}>
@@ -110,7 +145,7 @@ export default function AirlinerChartInfoPanel({ isVisible }: { isVisible: boole
 						<span className="text-body-minor airlinerStatValue">{selectedAirliner?.airlinerData.nameICAO ?? "-" }</span>
 						
 						<span className="text-label-diminished airlinerStatLabel">Status</span>
-						<span className="text-body-minor airlinerStatValue" style={{ textTransform: 'capitalize' }}>{statusText}</span>
+						<span className="text-body-minor airlinerStatValue">{statusText}</span>
 						
 						<span className="text-label-diminished airlinerStatLabel">Introduced</span>
 						<span className="text-body-minor airlinerStatValue">{selectedAirliner?.airlinerData.firstDelivery ?? "-" }</span>
@@ -123,10 +158,10 @@ export default function AirlinerChartInfoPanel({ isVisible }: { isVisible: boole
 
 					<div className="frame-content airlinerStats">
 						<span className="text-label-diminished airlinerStatLabel">Range</span>
-						<span className="text-body-minor airlinerStatValue">{selectedAirliner?.airlinerData.rangeKM ?? "-" } km</span>
+						<span className="text-body-minor airlinerStatValue">{formatAirlinerField(selectedAirliner.airlinerData, "rangeKM", distanceUnit)}</span>
 
 						<span className="text-label-diminished airlinerStatLabel">Body</span>
-						<span className="text-body-minor airlinerStatValue">{getBodyTypeText(selectedAirliner?.airlinerData.bodyType) ?? "-" }</span>
+						<span className="text-body-minor airlinerStatValue">{bodyTypeText}</span>
 					</div>
 
 					<hr className="frame-minor" />
@@ -152,6 +187,80 @@ export default function AirlinerChartInfoPanel({ isVisible }: { isVisible: boole
 
 					<hr className="frame-minor" />
 
+					<div className="frame-content">
+						<span className="text-label-major">Performance</span>
+					</div>
+
+					<hr className="frame-diminished" />
+
+					<div className="frame-content airlinerStats">
+						<span className="text-label-diminished airlinerStatLabel">MTOW</span>
+						<span className="text-body-minor airlinerStatValue">{formatAirlinerField(selectedAirliner.airlinerData, "mtowKG")}</span>
+						<span className="text-label-diminished airlinerStatLabel">Cruise speed</span>
+						<span className="text-body-minor airlinerStatValue">{formatAirlinerField(selectedAirliner.airlinerData, "cruiseMach")}</span>
+						<span className="text-label-diminished airlinerStatLabel">Fuel capacity</span>
+						<span className="text-body-minor airlinerStatValue">{formatAirlinerField(selectedAirliner.airlinerData, "fuelCapacityL")}</span>
+						<span className="text-label-diminished airlinerStatLabel">Wingspan</span>
+						<span className="text-body-minor airlinerStatValue">{formatAirlinerField(selectedAirliner.airlinerData, "wingspanM")}</span>
+						<span className="text-label-diminished airlinerStatLabel">Length</span>
+						<span className="text-body-minor airlinerStatValue">{formatAirlinerField(selectedAirliner.airlinerData, "lengthM")}</span>
+						<span className="text-label-diminished airlinerStatLabel">Engines</span>
+						<span className="text-body-minor airlinerStatValue">{formatAirlinerField(selectedAirliner.airlinerData, "engineCount")}</span>
+						<span className="text-label-diminished airlinerStatLabel">Engine options</span>
+						<span className="text-body-minor airlinerStatValue">{formatAirlinerField(selectedAirliner.airlinerData, "engineOptions")}</span>
+					</div>
+
+					<hr className="frame-minor" />
+
+					<div className="frame-content">
+						<span className="text-label-major">Derived</span>
+					</div>
+
+					<hr className="frame-diminished" />
+
+					<div className="frame-content airlinerStats">
+						{AIRLINER_DERIVED_FIELD_IDS.map(field => (
+							<React.Fragment key={field}>
+								<span className="text-label-diminished airlinerStatLabel" title={AIRLINER_DERIVED_FIELDS[field].description}>{AIRLINER_DERIVED_FIELDS[field].label}</span>
+								<span className="text-body-minor airlinerStatValue">{formatAirlinerField(selectedAirliner.airlinerData, field)}</span>
+							</React.Fragment>
+						))}
+					</div>
+
+					<hr className="frame-minor" />
+
+					{family && hasRelatives && (
+						<>
+							<div className="frame-content">
+								<span className="text-label-major">{family.manufacturer.name} {family.name} family</span>
+							</div>
+
+							<hr className="frame-diminished" />
+
+							<div className="frame-content airlinerStats">
+								{family.generations.map(generation => (
+									<React.Fragment key={generation.id}>
+										<span className="text-label-diminished airlinerStatLabel">{generation.name ?? "Variants"}</span>
+										<span className="airlinerStatValue airlinerRelatives">
+											{generation.variants.map(variant => (
+												<button
+													key={variant.id}
+													className={variant.id === selectedAirliner.airlinerID ? "btn-major" : "btn-diminished"}
+													onClick={() => setSelectedAirliner(variant.id)}
+													aria-current={variant.id === selectedAirliner.airlinerID}
+												>
+													{variant.name}
+												</button>
+											))}
+										</span>
+									</React.Fragment>
+								))}
+							</div>
+
+							<hr className="frame-minor" />
+						</>
+					)}
+
 					<div className="frame-content airlinerDescription">
 						{descriptionLoading ? (
 							<p className="text-body-diminished">Loading description...</p>
@@ -200,6 +309,52 @@ export default function AirlinerChartInfoPanel({ isVisible }: { isVisible: boole
 			</div>
 
 			<hr className="frame-diminished" />
+			<div className="frame-flex-vertical frame-content airlinerInfoPanelOption">
+				<span className="text-label-minor">Distance units</span>
+				<div className="btn-group">
+					{DISTANCE_UNITS.map(unit => (
+						<button
+							key={unit}
+							className={distanceUnit === unit ? "btn-major" : "btn-diminished"}
+							onClick={() => setDistanceUnit(unit)}
+							aria-pressed={distanceUnit === unit}
+							title={DISTANCE_UNIT_INFO[unit].name}
+						>
+							{DISTANCE_UNIT_INFO[unit].symbol}
+						</button>
+					))}
+				</div>
+			</div>
+			<div className="frame-flex-vertical frame-content airlinerInfoPanelOption">
+				<span className="text-label-minor">Family connectors</span>
+				<div className="btn-group">
+					<button
+						className={familyConnectorOrder === null ? "btn-major" : "btn-diminished"}
+						onClick={() => setFamilyConnectorOrder(null)}
+						aria-pressed={familyConnectorOrder === null}
+					>
+						Off
+					</button>
+					{FAMILY_CONNECTOR_ORDERS.map(order => (
+						<button
+							key={order}
+							className={familyConnectorOrder === order ? "btn-major" : "btn-diminished"}
+							onClick={() => setFamilyConnectorOrder(order)}
+							aria-pressed={familyConnectorOrder === order}
+						>
+							{FAMILY_CONNECTOR_ORDER_TEXT[order]}
+						</button>
+					))}
+				</div>
+			</div>
+			<label className="input-switch">
+				<input
+					type="checkbox"
+					checked={isSemanticZoomEnabled}
+					onChange={() => setIsSemanticZoomEnabled(!isSemanticZoomEnabled)}
+				/>
+				Group families when zoomed out
+			</label>
 			<label className="input-switch">
 				<input
 					type="checkbox"
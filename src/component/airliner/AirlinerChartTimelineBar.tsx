@@ -0,0 +1,93 @@
+// [IMPORT] React and core libraries //
+import React, { useEffect } from "react";
+import "./AirlinerChartTimelineBar.css";
+
+// [IMPORT] Utilities //
+import { TIMELINE_YEAR_DURATION } from "@/lib/data/airliner-timeline";
+
+/**
+ * AirlinerChartTimelineBar Component
+ *
+ * Year slider with play and pause, for stepping the chart through time.
+ * While playing, the year advances once every `TIMELINE_YEAR_DURATION` and stops at the end;
+ * pressing play at the end starts again from the beginning.
+ *
+ * @param {[number, number]} bounds - The first and last year of the timeline
+ * @param {number} year - The year shown
+ * @param {boolean} isPlaying - Whether the timeline is playing
+ * @param {function} onYearChange - Called with the year to show
+ * @param {function} onPlayingChange - Called when playback starts or stops
+ * @param {function} onClose - Called when the user leaves the timeline, to show every airliner again
+ * @returns {JSX.Element} The timeline bar component
+ */
+export default function AirlinerChartTimelineBar({
+	bounds,
+	year,
+	isPlaying,
+	onYearChange,
+	onPlayingChange,
+	onClose,
+}: {
+	bounds: [number, number];
+	year: number;
+	isPlaying: boolean;
+	onYearChange: (year: number) => void;
+	onPlayingChange: (isPlaying: boolean) => void;
+	onClose: () => void;
+}) {
+
+	// Advance a year at a time while playing, stopping on the last one
+	useEffect(() => {
+		if (!isPlaying) return;
+		if (year >= bounds[1]) {
+			onPlayingChange(false);
+			return;
+		}
+
+		const timeout = setTimeout(() => onYearChange(year + 1), TIMELINE_YEAR_DURATION);
+		return () => clearTimeout(timeout);
+	}, [isPlaying, year, bounds, onYearChange, onPlayingChange]);
+
+	const handlePlayPause = () => {
+		if (!isPlaying && year >= bounds[1]) onYearChange(bounds[0]);
+		onPlayingChange(!isPlaying);
+	};
+
+	return (
+		<div className="airlinerTimelineBar frame-flex-horizontal">
+			<button
+				className="btn-diminished btn-icon-only"
+				onClick={handlePlayPause}
+				aria-label={isPlaying ? "Pause" : "Play"}
+			>
+				<span className="material-symbols-sharp" aria-hidden="true">{isPlaying ? "pause" : "play_arrow"}</span>
+			</button>
+			<hr className="frame-minor" />
+			<div className="frame-flex-horizontal airlinerTimelineBarSlider">
+				<span className="text-body-diminished">{bounds[0]}</span>
+				<input
+					type="range"
+					min={bounds[0]}
+					max={bounds[1]}
+					step={1}
+					value={year}
+					onChange={event => {
+						onPlayingChange(false);
+						onYearChange(Number(event.target.value));
+					}}
+					aria-label="Year"
+				/>
+				<span className="text-body-diminished">{bounds[1]}</span>
+			</div>
+			<span className="text-label-major airlinerTimelineBarYear">{year}</span>
+			<hr className="frame-minor" />
+			<button
+				className="btn-diminished btn-icon-only"
+				onClick={onClose}
+				aria-label="Close timeline"
+			>
+				<span className="material-symbols-sharp" aria-hidden="true">close</span>
+			</button>
+		</div>
+	);
+}
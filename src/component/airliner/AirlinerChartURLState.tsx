@@ -0,0 +1,152 @@
+// [IMPORT] React and core libraries //
+import { useCallback, useEffect, useRef } from "react";
+
+// [IMPORT] Context providers/hooks //
+import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
+import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
+import { useAirlinerFilter } from "@/context/AirlinerFilterContext";
+import { useDebugMode } from "@/context/DebugModeContext";
+
+// [IMPORT] Utilities //
+import { isSameAirlinerURLViewport, parseAirlinerURLState, serializeAirlinerURLState } from "@/lib/data/airliner-url-state";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerAxes } from "@/lib/data/airliner-axis-metrics";
+import type { AirlinerURLState } from "@/lib/data/airliner-url-state";
+
+// How long the view has to stay put before it is written to the URL, so that a drag or a burst of wheel zooms makes one history entry
+const URL_STATE_DELAY = 500;
+
+/**
+ * @type {AirlinerURLSync}
+ * @description Bookkeeping for keeping the URL in step with the chart, held by the page
+ * so that it survives the viewport being remounted when the axes change, and the chart when the dataset does.
+ *
+ * @property {boolean} isRestored - Whether the view has been restored from the URL the page opened with.
+ *   Charts for datasets loaded afterwards start afresh instead, and the URL follows them.
+ * @property {object | null} pendingView - The axes and viewport of a view to restore once the viewport has remounted for its axes.
+ * @property {boolean} replaceNext - Whether the next write replaces the current history entry instead of adding one,
+ *   as it follows a restore and only tidies the URL up.
+ */
+export type AirlinerURLSync = {
+	isRestored: boolean;
+	pendingView: Pick<AirlinerURLState, "axes" | "viewport"> | null;
+	replaceNext: boolean;
+}
+
+/**
+ * AirlinerChartURLState Component
+ *
+ * Keeps the page URL in step with the chart's view: its axes, viewport, selection, filter and debug mode.
+ * Opening a link restores the view it was copied from, and each settled change adds a history entry,
+ * so that the browser's back and forward buttons step through views instead of leaving the page.
+ * Restored viewports replace the viewport's undo entry, and undo and redo replace the URL's history entry,
+ * so that neither history records the other's steps.
+ * The viewport is left out of the URL while the chart shows its initial view, and selected airliners
+ * the dataset does not have are dropped when a view is restored.
+ * Renders nothing; it must sit inside the chart's viewport, selection, filter and debug mode providers.
+ *
+ * @param {AirlinerAxes} axes - The metrics plotted on each axis
+ * @param {object} initialViewport - The viewport the chart opens on, which the URL leaves out
+ * @param {string[]} airlinerIDs - The IDs of every airliner in the dataset, filter aside
+ * @param {function} onAxesChange - Called with the axes of a view being restored
+ * @param {React.RefObject<AirlinerURLSync>} syncRef - Bookkeeping kept by the page across viewport and chart remounts
+ * @returns {null}
+ */
+export default function AirlinerChartURLState({
+	axes,
+	initialViewport,
+	airlinerIDs,
+	onAxesChange,
+	syncRef,
+}: {
+	axes: AirlinerAxes;
+	initialViewport: NonNullable<AirlinerURLState["viewport"]>;
+	airlinerIDs: string[];
+	onAxesChange: (axes: AirlinerAxes) => void;
+	syncRef: React.RefObject<AirlinerURLSync>;
+}) {
+	const { viewportScale, history } = useResponsiveChartViewport();
+	const { selectedAirlinerIDs, replaceSelectedAirliners } = useAirlinerSelection();
+	const { filter, setFilter } = useAirlinerFilter();
+	const { debugMode, setDebugMode } = useDebugMode();
+
+	const [xMin, xMax] = viewportScale.x.domain() as number[];
+	const [yMin, yMax] = viewportScale.y.domain() as number[];
+	const viewport: AirlinerURLState["viewport"] = { x: [xMin, xMax], y: [yMin, yMax] };
+
+	// The chart's view as a URL query
+	const query = serializeAirlinerURLState({
+		axes,
+		viewport: isSameAirlinerURLViewport(viewport, initialViewport) ? null : viewport,
+		selectedAirlinerIDs,
+		debugMode,
+		filter,
+	});
+
+	// Restore a view; the viewport waits for a remount if the view is on other axes
+	const restoreURLState = useCallback((state: AirlinerURLState) => {
+		syncRef.current.replaceNext = true;
+		setFilter(state.filter);
+		replaceSelectedAirliners(state.selectedAirlinerIDs.filter(airlinerID => airlinerIDs.includes(airlinerID)));
+		setDebugMode(state.debugMode);
+
+		if (state.axes.x.id !== axes.x.id || state.axes.y.id !== axes.y.id) {
+			syncRef.current.pendingView = { axes: state.axes, viewport: state.viewport };
+			onAxesChange(state.axes);
+		} else {
+			history.replace(state.viewport ?? undefined);
+		}
+	}, [syncRef, setFilter, replaceSelectedAirliners, setDebugMode, airlinerIDs, axes, onAxesChange, history]);
+
+	// Restore the view the page opened with, once, or the view left waiting by a restore that changed the axes once it is on them
+	useEffect(() => {
+		const sync = syncRef.current;
+		if (!sync.isRestored) {
+			sync.isRestored = true;
+			restoreURLState(parseAirlinerURLState(window.location.search));
+		} else if (sync.pendingView && sync.pendingView.axes.x.id === axes.x.id && sync.pendingView.axes.y.id === axes.y.id) {
+			history.replace(sync.pendingView.viewport ?? undefined);
+			sync.pendingView = null;
+		}
+	}, [syncRef, restoreURLState, axes, history]);
+
+	// Undo and redo steps replace the URL instead of adding to the browser's history,
+	// so that each viewport change lands in only one of the two histories
+	const stepCountRef = useRef(history.stepCount);
+	useEffect(() => {
+		if (history.stepCount === stepCountRef.current) return;
+		stepCountRef.current = history.stepCount;
+		syncRef.current.replaceNext = true;
+	}, [history.stepCount, syncRef]);
+
+	// Restore the view of the history entry the browser moves to
+	useEffect(() => {
+		const handlePopState = () => restoreURLState(parseAirlinerURLState(window.location.search));
+		window.addEventListener("popstate", handlePopState);
+		return () => window.removeEventListener("popstate", handlePopState);
+	}, [restoreURLState]);
+
+	// Write the view to the URL once it has settled
+	useEffect(() => {
+		const sync = syncRef.current;
+		if (!sync.isRestored || sync.pendingView) return;
+		if (query === window.location.search.slice(1)) {
+			sync.replaceNext = false;
+			return;
+		}
+
+		const timeout = setTimeout(() => {
+			const url = `${window.location.pathname}?${query}${window.location.hash}`;
+			if (sync.replaceNext) {
+				window.history.replaceState(null, "", url);
+			} else {
+				window.history.pushState(null, "", url);
+			}
+			sync.replaceNext = false;
+		}, URL_STATE_DELAY);
+		return () => clearTimeout(timeout);
+	}, [query, syncRef]);
+
+	return null;
+}
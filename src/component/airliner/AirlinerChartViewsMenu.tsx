@@ -0,0 +1,176 @@
+// [IMPORT] React and core libraries //
+import React, { useState, useEffect, useMemo } from "react";
+import "./AirlinerChartViewsMenu.css";
+
+// [IMPORT] Context providers/hooks //
+import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
+import { useAnimatedChartViewport } from "@/context/AnimatedChartViewport";
+import { useAirlinerFilter } from "@/context/AirlinerFilterContext";
+
+// [IMPORT] Utilities //
+import { AIRLINER_VIEW_PRESETS } from "@/lib/data/airliner-view-presets";
+import {
+	createAirlinerBookmark,
+	getAirlinerBookmarkView,
+	getAirlinerPresetView,
+	isAirlinerViewOnAxes,
+	loadAirlinerBookmarks,
+	saveAirlinerBookmarks,
+} from "@/lib/data/airliner-views";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerAxes } from "@/lib/data/airliner-axis-metrics";
+import type { AirlinerBookmark, AirlinerView } from "@/lib/data/airliner-views";
+
+/**
+ * AirlinerChartViewsMenu Component
+ *
+ * Button and popover listing named views of the chart: the presets in `src/lib/data/airliner-view-presets.ts`,
+ * and bookmarks the user has saved to local storage. Picking a preset sets the facets and ranges it names,
+ * keeping the rest of the filter, while picking a bookmark restores the filter it was saved with.
+ * The viewport is then animated to fit the view, once the filtered data has rendered.
+ * Only views on the axes being plotted are offered.
+ * Must be rendered within both ResponsiveChartViewport and AnimatedChartViewport.
+ *
+ * @param {AirlinerAxes} axes - The metrics currently plotted on each axis
+ * @returns {JSX.Element} The views button and menu
+ */
+export default function AirlinerChartViewsMenu({ axes }: { axes: AirlinerAxes }) {
+	const { viewportScale, view } = useResponsiveChartViewport();
+	const { setAnimationDuration } = useAnimatedChartViewport();
+	const { filter, setFilter } = useAirlinerFilter();
+
+	const [isOpen, setIsOpen] = useState(false);
+	const [bookmarks, setBookmarks] = useState<AirlinerBookmark[]>([]);
+	const [bookmarkName, setBookmarkName] = useState("");
+	const [isStorageUnavailable, setIsStorageUnavailable] = useState(false);
+	const [pendingViewport, setPendingViewport] = useState<AirlinerView["viewport"] | null>(null);
+
+	// Read bookmarks once mounted, as local storage only exists in the browser
+	useEffect(() => setBookmarks(loadAirlinerBookmarks()), []);
+
+	// Presets on the current axes, with their filters merged into the current one
+	const presetViews = useMemo(() => AIRLINER_VIEW_PRESETS.flatMap(preset => {
+		const presetView = getAirlinerPresetView(preset, filter);
+		return presetView && isAirlinerViewOnAxes(presetView, axes) ? [{ id: preset.id, view: presetView }] : [];
+	}), [axes, filter]);
+
+	// Fit a picked view once its filter has rendered, so that the zoom is constrained against the filtered data
+	useEffect(() => {
+		if (!pendingViewport) return;
+		setAnimationDuration(800);
+		view.zoomToFit(pendingViewport, 0);
+		setPendingViewport(null);
+	}, [pendingViewport, setAnimationDuration, view]);
+
+	// Bookmarks on the current axes
+	const bookmarkViews = useMemo(() => bookmarks.flatMap(bookmark => {
+		const bookmarkView = getAirlinerBookmarkView(bookmark);
+		return bookmarkView && isAirlinerViewOnAxes(bookmarkView, axes) ? [{ id: bookmark.id, view: bookmarkView }] : [];
+	}), [bookmarks, axes]);
+
+	// Store bookmarks, keeping them in state even if local storage refuses them, so that they last the session
+	const updateBookmarks = (nextBookmarks: AirlinerBookmark[]) => {
+		setBookmarks(nextBookmarks);
+		setIsStorageUnavailable(!saveAirlinerBookmarks(nextBookmarks));
+	};
+
+	const handlePick = (pickedView: AirlinerView) => {
+		if (pickedView.filter) setFilter(pickedView.filter);
+		setPendingViewport(pickedView.viewport);
+		setIsOpen(false);
+	};
+
+	const handleSave = (event: React.FormEvent) => {
+		event.preventDefault();
+		const name = bookmarkName.trim();
+		if (!name) return;
+
+		const [xMin, xMax] = viewportScale.x.domain() as number[];
+		const [yMin, yMax] = viewportScale.y.domain() as number[];
+		updateBookmarks([...bookmarks, createAirlinerBookmark(name, { axes, viewport: { x: [xMin, xMax], y: [yMin, yMax] }, filter })]);
+		setBookmarkName("");
+	};
+
+	const renderViewOption = (id: string, optionView: AirlinerView, onDelete?: () => void) => (
+		<div key={id} className="frame-flex-horizontal airlinerViewsMenuOption">
+			<button className="btn-diminished" onClick={() => handlePick(optionView)}>
+				{optionView.name}
+			</button>
+			{onDelete && (
+				<button
+					className="btn-diminished btn-icon-only"
+					onClick={onDelete}
+					aria-label={`Delete bookmark ${optionView.name}`}
+				>
+					<span className="material-symbols-sharp" aria-hidden="true">delete</span>
+				</button>
+			)}
+		</div>
+	);
+
+	return (
+		<div className="airlinerViewsMenuAnchor">
+			<button
+				className={`${isOpen ? "btn-major" : "btn-diminished"} btn-icon-only`}
+				aria-label="Views"
+				aria-expanded={isOpen}
+				onClick={() => setIsOpen(!isOpen)}
+			>
+				<span className="material-symbols-sharp" aria-hidden="true">bookmarks</span>
+			</button>
+
+			{isOpen && (
+				<div className="airlinerViewsMenu frame-flex-vertical frame-major">
+					<div className="frame-content">
+						<span className="text-label-major">Views</span>
+					</div>
+					<hr className="frame-minor" />
+
+					<div className="frame-content frame-flex-vertical airlinerViewsMenuOptions">
+						<span className="text-label-minor">Presets</span>
+						<span className="text-body-diminished">Presets keep any filters they do not set</span>
+						{presetViews.length > 0
+							? presetViews.map(({ id, view: presetView }) => renderViewOption(id, presetView))
+							: <span className="text-body-diminished">No presets for these axes</span>}
+					</div>
+
+					<hr className="frame-minor" />
+					<div className="frame-content frame-flex-vertical airlinerViewsMenuOptions">
+						<span className="text-label-minor">Bookmarks</span>
+						{bookmarkViews.length > 0
+							? bookmarkViews.map(({ id, view: bookmarkView }) => renderViewOption(id, bookmarkView,
+								() => updateBookmarks(bookmarks.filter(bookmark => bookmark.id !== id))))
+							: <span className="text-body-diminished">No bookmarks for these axes</span>}
+						{bookmarks.length > bookmarkViews.length && (
+							<span className="text-body-diminished">
+								{bookmarks.length - bookmarkViews.length} more on other axes
+							</span>
+						)}
+					</div>
+
+					<hr className="frame-minor" />
+					<form className="frame-content frame-flex-vertical airlinerViewsMenuOptions" onSubmit={handleSave}>
+						<div className="frame-flex-horizontal airlinerViewsMenuOption">
+							<input
+								type="text"
+								className="airlinerViewsMenuInput"
+								value={bookmarkName}
+								onChange={event => setBookmarkName(event.target.value)}
+								placeholder="Bookmark name"
+								aria-label="Bookmark name"
+							/>
+							<button type="submit" className="btn-diminished btn-icon-left" disabled={!bookmarkName.trim()}>
+								<span className="material-symbols-sharp" aria-hidden="true">bookmark_add</span>
+								Save view
+							</button>
+						</div>
+						{isStorageUnavailable && (
+							<span className="text-body-diminished">Bookmarks could not be stored and will be lost when the page closes</span>
+						)}
+					</form>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,107 @@
+// [IMPORT] React and core libraries //
+import React, { useState, useMemo } from "react";
+import "./AirlinerDataTable.css";
+
+// [IMPORT] Context providers/hooks //
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
+
+// [IMPORT] Utilities //
+import { formatAirlinerField } from "@/lib/data/airliner-field-format";
+import { AIRLINER_DERIVED_FIELD_IDS, AIRLINER_DERIVED_FIELDS, compareAirlinerField } from "@/lib/data/airliner-derived-fields";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerData } from "@/lib/data/airliner-types";
+import type { AirlinerField } from "@/lib/data/airliner-derived-fields";
+
+/**
+ * @type {AirlinerTableColumn}
+ * @description A column of the data table.
+ *
+ * @property {AirlinerField} field - The field shown in the column, from the dataset or derived.
+ * @property {string} header - The column heading.
+ */
+type AirlinerTableColumn = {
+	field: AirlinerField;
+	header: string;
+}
+
+/**
+ * The table's columns, in order. Derived fields follow the dataset fields.
+ */
+const AIRLINER_TABLE_COLUMNS: AirlinerTableColumn[] = [
+	{ field: "manufacturer", header: "Manufacturer" },
+	{ field: "nameCommon", header: "Name" },
+	{ field: "pax3Class", header: "3-Class capacity" },
+	{ field: "pax2Class", header: "2-Class capacity" },
+	{ field: "pax1Class", header: "1-Class capacity" },
+	{ field: "paxLimit", header: "Max capacity" },
+	{ field: "paxExit", header: "Exit capacity" },
+	{ field: "rangeKM", header: "Range" },
+	{ field: "mtowKG", header: "MTOW" },
+	{ field: "cruiseMach", header: "Cruise speed" },
+	{ field: "wingspanM", header: "Wingspan" },
+	{ field: "lengthM", header: "Length" },
+	{ field: "fuelCapacityL", header: "Fuel" },
+	{ field: "engineCount", header: "Engines" },
+	{ field: "engineOptions", header: "Engine options" },
+	...AIRLINER_DERIVED_FIELD_IDS.map(field => ({ field, header: AIRLINER_DERIVED_FIELDS[field].label })),
+	{ field: "status", header: "Status" },
+];
+
+/**
+ * AirlinerDataTable Component
+ *
+ * Table of every airliner in the dataset, with values shown in the reader's units.
+ * Clicking a column heading sorts by that column; clicking it again reverses the order.
+ * Airliners without a value for the sorted column always go last.
+ *
+ * @param {AirlinerData[]} data - The airliners to list
+ * @returns {JSX.Element} The data table
+ */
+export default function AirlinerDataTable({ data }: { data: AirlinerData[] }) {
+	const { distanceUnit } = useAirlinerUnits();
+
+	// The sorted column and direction, or null to keep the dataset's order
+	const [sort, setSort] = useState<{ field: AirlinerField; direction: "ascending" | "descending" } | null>(null);
+
+	const sortedData = useMemo(() => {
+		if (!sort) return data;
+		return [...data].sort((a, b) => compareAirlinerField(a.airlinerData, b.airlinerData, sort.field, sort.direction));
+	}, [data, sort]);
+
+	const handleSort = (field: AirlinerField) => {
+		setSort(sort?.field === field
+			? { field, direction: sort.direction === "ascending" ? "descending" : "ascending" }
+			: { field, direction: "ascending" });
+	};
+
+	return (
+		<table className="dataTable">
+			<thead>
+				<tr>
+					{AIRLINER_TABLE_COLUMNS.map(({ field, header }) => (
+						<th key={field} aria-sort={sort?.field === field ? sort.direction : undefined}>
+							<button className="dataTableSortButton" onClick={() => handleSort(field)}>
+								{header}
+								{sort?.field === field && (
+									<span className="material-symbols-sharp" aria-hidden="true">
+										{sort.direction === "ascending" ? "arrow_upward" : "arrow_downward"}
+									</span>
+								)}
+							</button>
+						</th>
+					))}
+				</tr>
+			</thead>
+			<tbody>
+				{sortedData.map((airliner) => (
+					<tr key={airliner.airlinerID}>
+						{AIRLINER_TABLE_COLUMNS.map(({ field }) => (
+							<td key={field}>{formatAirlinerField(airliner.airlinerData, field, distanceUnit)}</td>
+						))}
+					</tr>
+				))}
+			</tbody>
+		</table>
+	);
+}
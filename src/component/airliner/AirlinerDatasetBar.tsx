@@ -0,0 +1,151 @@
+// [IMPORT] React and core libraries //
+import React, { useRef } from "react";
+import "./AirlinerDatasetBar.css";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerDataStreamProgress } from "@/lib/data/airliner-data-processor";
+
+/**
+ * @type {AirlinerDatasetMode}
+ * @description How a user dataset is combined with the bundled data.
+ * - `replace`: Only the user dataset is charted
+ * - `merge`: The user dataset is merged into the bundled data, matching airliners by ID
+ * - `compare`: The user dataset is charted, showing how it differs from the bundled data
+ */
+export type AirlinerDatasetMode = "replace" | "merge" | "compare";
+
+// Mode toggle buttons, and how the status line describes each mode
+const DATASET_MODES: { mode: AirlinerDatasetMode; label: string; description: string }[] = [
+	{ mode: "replace", label: "Replace", description: "Replacing bundled data" },
+	{ mode: "merge", label: "Merge", description: "Merged into bundled data" },
+	{ mode: "compare", label: "Compare", description: "Compared with bundled data" },
+];
+
+// File types accepted by the file picker, matching the formats `readAirlinerDataFile` detects
+const ACCEPTED_FILE_TYPES = ".csv,.json,.ndjson,.jsonl,text/csv,application/json,application/x-ndjson";
+
+/**
+ * @function formatBytes
+ * @description Formats a byte count for display, e.g. `812 B`, `14.2 KB`, `3.1 MB`.
+ */
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * AirlinerDatasetBar Component
+ *
+ * Shows which dataset the chart is displaying, and lets the user load a local dataset
+ * in its place or revert to the bundled data.
+ *
+ * @param {string} datasetName - The file name of the active dataset
+ * @param {boolean} isBundled - Whether the active dataset is the bundled one
+ * @param {number} airlinerCount - The number of airliners being charted
+ * @param {AirlinerDatasetMode} mode - How a user dataset is combined with the bundled data
+ * @param {string | null} error - A message describing why the last file failed to load, if it did
+ * @param {AirlinerDataStreamProgress | null} progress - Optional. How far the dataset has loaded, while it is streaming in
+ * @param {function} onModeChange - Called when the user switches between replacing, merging and comparing
+ * @param {function} onFile - Called with the file the user picked
+ * @param {function} onRevert - Called when the user reverts to the bundled data
+ * @returns {JSX.Element} The dataset bar component
+ */
+export default function AirlinerDatasetBar({
+	datasetName,
+	isBundled,
+	airlinerCount,
+	mode,
+	error,
+	progress = null,
+	onModeChange,
+	onFile,
+	onRevert,
+}: {
+	datasetName: string;
+	isBundled: boolean;
+	airlinerCount: number;
+	mode: AirlinerDatasetMode;
+	error: string | null;
+	progress?: AirlinerDataStreamProgress | null;
+	onModeChange: (mode: AirlinerDatasetMode) => void;
+	onFile: (file: File) => void;
+	onRevert: () => void;
+}) {
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		if (file) onFile(file);
+
+		// Clear the input so picking the same file again still fires a change
+		event.target.value = "";
+	};
+
+	return (
+		<div className={`airlinerDatasetBar frame-flex-horizontal ${isBundled ? "" : "airlinerDatasetBar--user"}`}>
+			<div className="frame-flex-horizontal airlinerDatasetBarStatus">
+				<span className="material-symbols-sharp" aria-hidden="true">{isBundled ? "dataset" : "upload_file"}</span>
+				<span className="text-label-major">{datasetName}</span>
+				<span className="text-body-diminished">
+					{isBundled
+						? "Bundled data"
+						: DATASET_MODES.find(option => option.mode === mode)?.description}
+					{` · ${airlinerCount} ${airlinerCount === 1 ? "airliner" : "airliners"}`}
+				</span>
+				{progress && (
+					<>
+						<span className="text-body-minor">
+							{`Loading · ${progress.rowsParsed.toLocaleString()} rows · ${formatBytes(progress.bytesLoaded)}`}
+							{progress.bytesTotal !== null && ` of ${formatBytes(progress.bytesTotal)}`}
+						</span>
+						<progress
+							className="airlinerDatasetBarProgress"
+							value={progress.bytesLoaded}
+							max={progress.bytesTotal ?? undefined}
+							aria-label="Dataset loading progress"
+						/>
+					</>
+				)}
+				{error && <span className="text-body-minor airlinerDatasetBarError">{error}</span>}
+			</div>
+
+			<hr className="frame-minor" />
+			<div className="btn-group">
+				{DATASET_MODES.map(option => (
+					<button
+						key={option.mode}
+						className={`${mode === option.mode ? "btn-major" : "btn-diminished"}`}
+						onClick={() => onModeChange(option.mode)}
+						aria-pressed={mode === option.mode}
+					>
+						{option.label}
+					</button>
+				))}
+			</div>
+			<button
+				className="btn-diminished btn-icon-left"
+				onClick={() => fileInputRef.current?.click()}
+			>
+				<span className="material-symbols-sharp" aria-hidden="true">folder_open</span>
+				Open dataset
+			</button>
+			<input
+				ref={fileInputRef}
+				type="file"
+				accept={ACCEPTED_FILE_TYPES}
+				onChange={handleFileChange}
+				hidden
+			/>
+			{!isBundled && (
+				<button
+					className="btn-diminished btn-icon-left"
+					onClick={onRevert}
+				>
+					<span className="material-symbols-sharp" aria-hidden="true">undo</span>
+					Revert to bundled data
+				</button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,71 @@
+// [IMPORT] React and core libraries //
+import React, { useState, useRef } from "react";
+import "./AirlinerDatasetDropZone.css";
+
+/**
+ * AirlinerDatasetDropZone Component
+ *
+ * Wraps its children in an area that accepts a dataset file dropped onto it.
+ * While a file is dragged over the area, an overlay invites the user to drop it.
+ *
+ * @param {function} onFile - Called with the dropped file
+ * @param {React.ReactNode} children - The content the drop zone covers
+ * @returns {JSX.Element} The drop zone component
+ */
+export default function AirlinerDatasetDropZone({ onFile, children }: { onFile: (file: File) => void; children: React.ReactNode }) {
+	const [isDragging, setIsDragging] = useState(false);
+
+	// dragenter and dragleave fire for every child element crossed, so count them
+	// to know when the drag has actually left the drop zone
+	const dragDepth = useRef(0);
+
+	// Only react to drags carrying files, not to text or elements dragged within the page
+	const isFileDrag = (event: React.DragEvent) => event.dataTransfer.types.includes("Files");
+
+	const handleDragEnter = (event: React.DragEvent) => {
+		if (!isFileDrag(event)) return;
+		event.preventDefault();
+		dragDepth.current++;
+		setIsDragging(true);
+	};
+
+	const handleDragOver = (event: React.DragEvent) => {
+		if (!isFileDrag(event)) return;
+		// Required for the drop event to fire
+		event.preventDefault();
+		event.dataTransfer.dropEffect = "copy";
+	};
+
+	const handleDragLeave = (event: React.DragEvent) => {
+		if (!isFileDrag(event)) return;
+		dragDepth.current = Math.max(0, dragDepth.current - 1);
+		if (dragDepth.current === 0) setIsDragging(false);
+	};
+
+	const handleDrop = (event: React.DragEvent) => {
+		if (!isFileDrag(event)) return;
+		event.preventDefault();
+		dragDepth.current = 0;
+		setIsDragging(false);
+
+		const file = event.dataTransfer.files[0];
+		if (file) onFile(file);
+	};
+
+	return (
+		<div
+			className="airlinerDatasetDropZone"
+			onDragEnter={handleDragEnter}
+			onDragOver={handleDragOver}
+			onDragLeave={handleDragLeave}
+			onDrop={handleDrop}
+		>
+			{children}
+			{isDragging && (
+				<div className="airlinerDatasetDropOverlay">
+					<span className="text-h3">Drop a CSV or JSON file to chart it</span>
+				</div>
+			)}
+		</div>
+	);
+}
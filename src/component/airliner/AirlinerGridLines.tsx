@@ -6,9 +6,12 @@ import React, { useMemo } from "react";
 // [IMPORT] Types //
 import type { AirlinerModel, AirlinerMarkerSeries, AirlinerMarker } from "@/lib/data/airliner-types";
 
+// [IMPORT] Utilities //
+import { isClassMarker } from "@/lib/data/airliner-axis-metrics";
+
 interface AirlinerGridLinesProps {
 	hoveredAirlinerID: string | null;
-	selectedAirlinerID: string | null;
+	selectedAirlinerIDs: string[];
 	airlinerEntries: Map<string, AirlinerModel>;
 	width: number;
 	height: number;
@@ -25,14 +28,10 @@ const PAX_CLASS_NAMES = {
 
 /**
  * Utility function to get passenger class markers from a marker series
- * Filters markers to only include pax3Class, pax2Class, and pax1Class
+ * Filters markers to only include the main markers (pax3Class, pax2Class, and pax1Class, or a single-field metric's value)
  */
 function getPaxClassMarkers(markerSeries: AirlinerMarkerSeries): AirlinerMarker[] {
-	return markerSeries.markers.filter((marker) =>
-		marker.markerClass === 'pax3Class' ||
-		marker.markerClass === 'pax2Class' ||
-		marker.markerClass === 'pax1Class'
-	);
+	return markerSeries.markers.filter((marker) => isClassMarker(marker.markerClass));
 }
 
 /**
@@ -67,15 +66,19 @@ function getMarkerBounds(paxClassMarkers: AirlinerMarker[]): { leftmost: number;
  * - Handles hover and selection state styling
  * - Only renders when an airliner is active
  * - Draws white selection rectangle for selected airliners
+ * - Every selected airliner gets its lines and rectangle; only the primary one, the last selected, labels its lines
  */
 export default function AirlinerGridLines({ 
 	hoveredAirlinerID, 
-	selectedAirlinerID, 
+	selectedAirlinerIDs, 
 	airlinerEntries, 
 	width,
 	height 
 }: AirlinerGridLinesProps) {
 	
+	// The primary selected airliner, whose lines are labelled
+	const primaryAirlinerID = selectedAirlinerIDs.length > 0 ? selectedAirlinerIDs[selectedAirlinerIDs.length - 1] : null;
+
 	// === Grid Line Calculation ===
 	// Calculate grid lines for hovered/selected airliners with pre-calculated passenger class info
 	const activeAirlinerAxisLines = useMemo(() => {
@@ -128,56 +131,54 @@ export default function AirlinerGridLines({
 			});
 		};
 
-		// Process selected airliner first (if any)
-		if (selectedAirlinerID) {
-			processAirlinerForGridLines(selectedAirlinerID, 'selected');
-		}
+		// Process selected airliners first (if any)
+		selectedAirlinerIDs.forEach(selectedAirlinerID => processAirlinerForGridLines(selectedAirlinerID, 'selected'));
 
-		// Process hovered airliner (if different from selected)
-		if (hoveredAirlinerID && hoveredAirlinerID !== selectedAirlinerID) {
+		// Process hovered airliner (if not already selected)
+		if (hoveredAirlinerID && !selectedAirlinerIDs.includes(hoveredAirlinerID)) {
 			processAirlinerForGridLines(hoveredAirlinerID, 'hovered');
 		}
 
 		return lines.length > 0 ? lines : null;
-	}, [hoveredAirlinerID, selectedAirlinerID, airlinerEntries, width, height]);
+	}, [hoveredAirlinerID, selectedAirlinerIDs, airlinerEntries, width, height]);
 
 	// === Selection Rectangle Calculation ===
-	// Calculate white rectangle for selected airliner
-	const selectionRectangle = useMemo(() => {
-		if (!selectedAirlinerID) return null;
-
+	// Calculate white rectangles for selected airliners
+	const selectionRectangles = useMemo(() => selectedAirlinerIDs.flatMap(selectedAirlinerID => {
 		const selectedAirliner = airlinerEntries.get(selectedAirlinerID);
-		if (!selectedAirliner?.markerSeries) return null;
+		if (!selectedAirliner?.markerSeries) return [];
 
 		const paxClassMarkers = getPaxClassMarkers(selectedAirliner.markerSeries);
 		const bounds = getMarkerBounds(paxClassMarkers);
-		if (!bounds) return null;
+		if (!bounds) return [];
 
-		return {
+		return [{
+			airlinerID: selectedAirlinerID,
 			x: bounds.leftmost,
 			y: 0, // Top edge of chart
 			width: bounds.rightmost - bounds.leftmost,
 			height: height // Extend to bottom edge
-		};
-	}, [selectedAirlinerID, airlinerEntries, height]);
+		}];
+	}), [selectedAirlinerIDs, airlinerEntries, height]);
 
 	// Don't render anything if no active airliner
-	if (!activeAirlinerAxisLines && !selectionRectangle) {
+	if (!activeAirlinerAxisLines && selectionRectangles.length === 0) {
 		return null;
 	}
 
 	return (
 		<g className="airlinerGridLines">
-			{/* Selection rectangle - render first so it appears behind grid lines */}
-			{selectionRectangle && (
+			{/* Selection rectangles - render first so they appear behind grid lines */}
+			{selectionRectangles.map(rectangle => (
 				<rect
-					x={selectionRectangle.x}
-					y={selectionRectangle.y}
-					width={selectionRectangle.width}
-					height={selectionRectangle.height}
+					key={rectangle.airlinerID}
+					x={rectangle.x}
+					y={rectangle.y}
+					width={rectangle.width}
+					height={rectangle.height}
 					className="airlinerSelectionCapacityHighlight"
 				/>
-			)}
+			))}
 			
 			{/* Grid lines */}
 			{activeAirlinerAxisLines?.map((line, index) => (
@@ -191,9 +192,9 @@ export default function AirlinerGridLines({
 				/>
 			))}
 
-			{/* Text labels for vertical lines - only render for selected airliners */}
+			{/* Text labels for vertical lines - only render for the primary selected airliner */}
 			{activeAirlinerAxisLines
-				?.filter(line => line.airlinerID === selectedAirlinerID && line.type === 'vertical' && line.paxClassName)
+				?.filter(line => line.airlinerID === primaryAirlinerID && line.type === 'vertical' && line.paxClassName)
 				.map((line, index) => (
 					<text
 						key={`grid-line-label-${line.airlinerID}-${line.type}-${line.state}-${index}`}
@@ -6,9 +6,11 @@ import { useChartData } from "@/component/airliner/AirlinerChart";
 import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
 import { useResponsiveSVG } from "@/context/ResponsiveSVG";
 import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
+import { useAirlinerAxes } from "@/context/AirlinerAxesContext";
 
 // [IMPORT] Types/interfaces //
 import { plotAirlinerMarkerSeries } from "@/lib/data/plot-airliner-markers";
+import { isAirlinerPlottable, isClassMarker, isLimitMarker } from "@/lib/data/airliner-axis-metrics";
 import { RectCentre } from "@/component/shape/RectCentre";
 
 // [IMPORT] CSS styling //
@@ -31,25 +33,29 @@ interface AirlinerScatterBrushProps {
 export default function AirlinerScatterBrush({ className, axisMode = "x" }: AirlinerScatterBrushProps) {
 	const { dataScale, viewportScale } = useResponsiveChartViewport();
 	const { width, height } = useResponsiveSVG();
-	const data = useChartData();
-	const { selectedAirlinerID } = useAirlinerSelection();
+	const chartData = useChartData();
+	const { isAirlinerSelected } = useAirlinerSelection();
+	const axes = useAirlinerAxes();
+
+	// Only airliners with values for the chosen axis metrics are plotted
+	const data = React.useMemo(() => chartData.filter(airliner => isAirlinerPlottable(airliner.airlinerData, axes)), [chartData, axes]);
 
 	// Scatter plot logic
 	const markerSizeMajor = 4;
 	const markerSizeMinor = 4;
 
 	// Memoised data processing - direct range calculation without overlap detection
-	const { paxClassRanges, paxLimitCoordinates, selectedAirlinerRange } = React.useMemo((): {
+	const { paxClassRanges, paxLimitCoordinates, selectedAirlinerRanges } = React.useMemo((): {
 		paxClassRanges: Array<{ x1: number; x2: number }>;
 		paxLimitCoordinates: number[];
-		selectedAirlinerRange: { x1: number; x2: number } | null;
+		selectedAirlinerRanges: Array<{ x1: number; x2: number }>;
 	} => {
 
-		if (axisMode !== "x") return { paxClassRanges: [], paxLimitCoordinates: [], selectedAirlinerRange: null };
+		if (axisMode !== "x") return { paxClassRanges: [], paxLimitCoordinates: [], selectedAirlinerRanges: [] };
 
 		const paxClassRanges: Array<{ x1: number; x2: number }> = [];
 		const paxLimitCoordinates: number[] = [];
-		let selectedAirlinerRange: { x1: number; x2: number } | null = null;
+		const selectedAirlinerRanges: Array<{ x1: number; x2: number }> = [];
 
 		data.forEach(airliner => {
 			const markerSeries = plotAirlinerMarkerSeries(
@@ -57,15 +63,12 @@ export default function AirlinerScatterBrush({ className, axisMode = "x" }: Airl
 				airliner.airlinerData,
 				dataScale.x,
 				dataScale.y,
-				markerSizeMajor
+				markerSizeMajor,
+				axes
 			);
 
-			// Extract pax class markers (pax3Class, pax2Class, pax1Class)
-			const paxClassMarkers = markerSeries.markers.filter(marker =>
-				marker.markerClass === "pax3Class" ||
-				marker.markerClass === "pax2Class" ||
-				marker.markerClass === "pax1Class"
-			);
+			// Extract pax class markers (pax3Class, pax2Class, pax1Class), or a single-field metric's marker
+			const paxClassMarkers = markerSeries.markers.filter(marker => isClassMarker(marker.markerClass));
 
 			// Calculate range directly (no overlap detection)
 			if (paxClassMarkers.length > 0) {
@@ -76,16 +79,14 @@ export default function AirlinerScatterBrush({ className, axisMode = "x" }: Airl
 				// Add range immediately (simplified approach)
 				paxClassRanges.push({ x1, x2 });
 
-				// Check if this is the selected airliner
-				if (airliner.airlinerID === selectedAirlinerID) {
-					selectedAirlinerRange = { x1, x2 };
+				// Check if this is one of the selected airliners
+				if (isAirlinerSelected(airliner.airlinerID)) {
+					selectedAirlinerRanges.push({ x1, x2 });
 				}
 			}
 
 			// Extract pax limit markers (paxLimit, paxExit)
-			const paxLimitMarkers = markerSeries.markers.filter(marker =>
-				marker.markerClass === "paxLimit" || marker.markerClass === "paxExit"
-			);
+			const paxLimitMarkers = markerSeries.markers.filter(marker => isLimitMarker(marker.markerClass));
 
 			// Collect limit x-coordinates
 			paxLimitMarkers.forEach(marker => {
@@ -93,16 +94,16 @@ export default function AirlinerScatterBrush({ className, axisMode = "x" }: Airl
 			});
 		});
 
-		return { paxClassRanges, paxLimitCoordinates, selectedAirlinerRange };
-	}, [data, dataScale.x, axisMode, markerSizeMajor, selectedAirlinerID]);
+		return { paxClassRanges, paxLimitCoordinates, selectedAirlinerRanges };
+	}, [data, dataScale.x, axisMode, markerSizeMajor, isAirlinerSelected, axes]);
 
-	// For y-axis: rangeKM is the only data we need to show
-	const { rangeCoordinates, selectedAirlinerY } = React.useMemo(() => {
+	// For y-axis: the y metric's value (e.g. rangeKM) is the only data we need to show
+	const { rangeCoordinates, selectedAirlinerYs } = React.useMemo(() => {
 
-		if (axisMode !== "y") return { rangeCoordinates: [], selectedAirlinerY: null };
+		if (axisMode !== "y") return { rangeCoordinates: [], selectedAirlinerYs: [] };
 		
 		const rangeCoordinates: number[] = [];
-		let selectedAirlinerY: number | null = null;
+		const selectedAirlinerYs: number[] = [];
 
 		data.forEach(airliner => {
 			const markerSeries = plotAirlinerMarkerSeries(
@@ -110,31 +111,24 @@ export default function AirlinerScatterBrush({ className, axisMode = "x" }: Airl
 				airliner.airlinerData,
 				dataScale.x,
 				dataScale.y,
-				markerSizeMajor
+				markerSizeMajor,
+				axes
 			);
 
-			const airlinerMarker = markerSeries.markers.find(marker => 
-				(
-					marker.markerClass === "pax3Class" ||
-					marker.markerClass === "pax2Class" ||
-					marker.markerClass === "pax1Class" ||
-					marker.markerClass === "paxLimit" ||
-					marker.markerClass === "paxExit"
-				) && typeof marker.markerCoordinates.y === "number"
-			);
+			const airlinerMarker = markerSeries.markers.find(marker => typeof marker.markerCoordinates.y === "number");
 
 			if (airlinerMarker) {
 				rangeCoordinates.push(airlinerMarker.markerCoordinates.y);
 				
-				// Check if this is the selected airliner
-				if (airliner.airlinerID === selectedAirlinerID) {
-					selectedAirlinerY = airlinerMarker.markerCoordinates.y;
+				// Check if this is one of the selected airliners
+				if (isAirlinerSelected(airliner.airlinerID)) {
+					selectedAirlinerYs.push(airlinerMarker.markerCoordinates.y);
 				}
 			}
 		});
 
-		return { rangeCoordinates, selectedAirlinerY };
-	}, [data, dataScale.y, markerSizeMajor, selectedAirlinerID]);
+		return { rangeCoordinates, selectedAirlinerYs };
+	}, [data, dataScale.y, markerSizeMajor, isAirlinerSelected, axes]);
 
 	return (
 		<g className={className}>
@@ -186,23 +180,24 @@ export default function AirlinerScatterBrush({ className, axisMode = "x" }: Airl
 					key={`pax-${index}`}
 					cx={(x.x1 + x.x2) / 2}
 					cy={3 *height / 4}
-					width={x.x2 - x.x1}
+					width={Math.max(x.x2 - x.x1, markerSizeMinor / 2)}
 					height={height / 2}
 					className="airlinerBrushPaxClassRange"
 				/>
 			))}
 
-			{/* Selected airliner highlight - white box showing extents of class passenger capacity */}
-			{axisMode === "x" && selectedAirlinerRange && (
+			{/* Selected airliner highlights - white boxes showing extents of class passenger capacity */}
+			{axisMode === "x" && selectedAirlinerRanges.map((range, index) => (
 				<MarkerBevelLine
-					x1={selectedAirlinerRange.x1}
+					key={`selected-${index}`}
+					x1={range.x1}
 					y1={3 * height / 4}
-					x2={selectedAirlinerRange.x2}
+					x2={range.x2}
 					y2={3 * height / 4}
 					weight={height / 6}
 					className="selectedAirlinerXHighlight"
 				/>
-			)}
+			))}
 
 			{axisMode === "y" && rangeCoordinates.map((y, index) => (
 				<line
@@ -215,16 +210,17 @@ export default function AirlinerScatterBrush({ className, axisMode = "x" }: Airl
 				/>
 			))}
 
-			{/* Selected airliner highlight for Y-axis - white line showing range */}
-			{axisMode === "y" && selectedAirlinerY !== null && (
+			{/* Selected airliner highlights for Y-axis - white lines showing range */}
+			{axisMode === "y" && selectedAirlinerYs.map((y, index) => (
 				<line
+					key={`selected-${index}`}
 					x1={0}
-					y1={selectedAirlinerY}
+					y1={y}
 					x2={width / 2}
-					y2={selectedAirlinerY}
+					y2={y}
 					className="selectedAirlinerYHighlight"
 				/>
-			)}
+			))}
 		</g>
 	);
 } 
\ No newline at end of file
@@ -8,6 +8,7 @@ import { createPortal } from "react-dom";
 import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
 import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
 import { useAnimatedChartViewport } from "@/context/AnimatedChartViewport";
+import { useAirlinerHierarchy } from "@/context/AirlinerHierarchyContext";
 
 // [IMPORT] Types //
 import type { labelCluster } from "@/lib/hooks/use-airliner-view-model";
@@ -21,22 +22,29 @@ import type { AirlinerModel } from "@/lib/data/airliner-types";
  * 
  * @param selectedCluster - The selected cluster data
  * @param airlinerEntries - Map of airliner data for displaying cluster contents
+ * @param onExpandFamily - Zooms in to expand a family composite listed in the cluster
  */
 interface AirlinerScatterClusterMenuProps {
 	selectedCluster: labelCluster;
 	airlinerEntries: Map<string, AirlinerModel>;
+	onExpandFamily: (compositeID: string) => void;
 }
 
 export default function AirlinerScatterClusterMenu({
 	selectedCluster,
-	airlinerEntries
+	airlinerEntries,
+	onExpandFamily
 }: AirlinerScatterClusterMenuProps) {
 	// Access selection context for clearing cluster selection and selecting airliners
-	const { clearSelection, setSelectedAirliner, setHoveredAirliner } = useAirlinerSelection();
+	const { clearSelection, setSelectedAirliner, toggleSelectedAirliner, setHoveredAirliner } = useAirlinerSelection();
 	
 	// Access viewport controls for zooming
 	const { view, viewportScale } = useResponsiveChartViewport();
 	const { setAnimationDuration } = useAnimatedChartViewport();
+
+	// Access the dataset hierarchy for grouping relatives together
+	const hierarchy = useAirlinerHierarchy();
+
 	// Convert SVG coordinates to viewport coordinates
 	const svgElement = document.querySelector('svg');
 	if (!svgElement) return null;
@@ -45,13 +53,36 @@ export default function AirlinerScatterClusterMenu({
 	const viewportX = svgRect.left + selectedCluster.position.x;
 	const viewportY = svgRect.top + selectedCluster.position.y;
 	
-	// Get airliners belonging to this cluster
+	// Get airliners belonging to this cluster, in hierarchy order so that relatives are listed together
+	// Family composites take the place of their first variant
+	const hierarchyOrder = (airliner: AirlinerModel) =>
+		hierarchy.variants.findIndex(variant => variant.id === (airliner.familyMembers?.[0] ?? airliner.airlinerID));
 	const clusterAirliners = selectedCluster.labelIDs
 		.map(airlinerID => airlinerEntries.get(airlinerID))
-		.filter((airliner): airliner is AirlinerModel => airliner !== undefined);
+		.filter((airliner): airliner is AirlinerModel => airliner !== undefined)
+		.sort((a, b) => hierarchyOrder(a) - hierarchyOrder(b));
+
+	// Describe where an airliner sits in its family, e.g. "Airbus A320 family, neo"
+	const getRelationText = (airlinerID: string) => {
+		const generation = hierarchy.getGeneration(airlinerID);
+		if (!generation) return undefined;
+		const familyText = `${generation.family.manufacturer.name} ${generation.family.name} family`;
+		return generation.name ? `${familyText}, ${generation.name}` : familyText;
+	};
 
 	// Handle button click: clear cluster selection, select the airliner, and zoom to fit its marker bounding box
-	const handleAirlinerClick = (airlinerID: string) => {
+	// Family composites are expanded instead of selected
+	// With Shift, Ctrl or Cmd held, the airliner is added to the selection or removed from it, without zooming
+	const handleAirlinerClick = (airlinerID: string, event: React.MouseEvent) => {
+		if (airlinerEntries.get(airlinerID)?.familyMembers) {
+			clearSelection();
+			onExpandFamily(airlinerID);
+			return;
+		}
+		if (event.shiftKey || event.ctrlKey || event.metaKey) {
+			toggleSelectedAirliner(airlinerID);
+			return;
+		}
 		clearSelection();
 		setSelectedAirliner(airlinerID);
 		
@@ -113,9 +144,10 @@ export default function AirlinerScatterClusterMenu({
 											key={airliner.airlinerID}
 											type="button"
 											className="btn-diminished"
-											onClick={() => handleAirlinerClick(airliner.airlinerID)}
+											onClick={event => handleAirlinerClick(airliner.airlinerID, event)}
 											onMouseEnter={() => handleAirlinerHover(airliner.airlinerID)}
 											onMouseLeave={handleAirlinerLeave}
+											title={getRelationText(airliner.airlinerID)}
 										>
 											{airliner.airlinerData.nameCommon}
 										</button>
@@ -139,9 +171,10 @@ export default function AirlinerScatterClusterMenu({
 							key={airliner.airlinerID}
 							type="button"
 							className="btn-diminished"
-							onClick={() => handleAirlinerClick(airliner.airlinerID)}
+							onClick={event => handleAirlinerClick(airliner.airlinerID, event)}
 							onMouseEnter={() => handleAirlinerHover(airliner.airlinerID)}
 							onMouseLeave={handleAirlinerLeave}
+							title={getRelationText(airliner.airlinerID)}
 						>
 							{airliner.airlinerData.nameCommon}
 						</button>
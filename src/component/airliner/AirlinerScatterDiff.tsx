@@ -0,0 +1,161 @@
+"use client";
+
+// [IMPORT] React //
+import React, { useId, useMemo } from "react";
+
+// [IMPORT] Internal components //
+import { MarkerDiamond } from "@/component/shape/MarkerDiamond";
+
+// [IMPORT] Context providers/hooks //
+import { useAirlinerDiff } from "@/context/AirlinerDiffContext";
+import { useAnimatedChartViewport } from "@/context/AnimatedChartViewport";
+import { useAirlinerAxes } from "@/context/AirlinerAxesContext";
+
+// [IMPORT] Utilities //
+import { plotAirlinerMarkerSeries } from "@/lib/data/plot-airliner-markers";
+import { isAirlinerPlottable } from "@/lib/data/airliner-axis-metrics";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerMarkerSeries, AirlinerModel } from "@/lib/data/airliner-types";
+import type { AirlinerDiffKind } from "@/lib/data/airliner-data-diff";
+
+interface AirlinerScatterDiffProps {
+	airlinerEntries: Map<string, AirlinerModel>;
+	plotFormat: any;
+}
+
+/**
+ * AirlinerScatterDiff Component
+ *
+ * Compare mode overlay for the scatter plot. Draws, for every airliner that differs from
+ * the earlier snapshot:
+ * - Added: a highlight behind its markers
+ * - Removed: a ghost of its markers at the old position
+ * - Changed: a highlight behind its markers and, if it moved, a ghost at the old position
+ *   with an arrow to the new one
+ *
+ * Renders nothing outside compare mode.
+ */
+export default function AirlinerScatterDiff({ airlinerEntries, plotFormat }: AirlinerScatterDiffProps) {
+	const diff = useAirlinerDiff();
+	const { animatedScale } = useAnimatedChartViewport();
+	const axes = useAirlinerAxes();
+
+	// Unique ID for the arrowhead marker definition
+	const arrowID = `airlinerDiffArrow-${useId().replace(/:/g, "")}`;
+
+	// Plot the old position of every removed or changed airliner, and pair it with the new one
+	const diffMarks = useMemo(() => {
+		if (!diff) return [];
+
+		return Array.from(diff.entries.values())
+			.filter(entry => entry.kind !== "unchanged")
+			.map(entry => {
+				const current = airlinerEntries.get(entry.airlinerID)?.markerSeries ?? null;
+				const ghost = entry.before && entry.kind !== "added" && isAirlinerPlottable(entry.before, axes)
+					? plotAirlinerMarkerSeries(entry.airlinerID, entry.before, animatedScale.x, animatedScale.y, plotFormat.markerSize, axes)
+					: null;
+
+				// Only draw a ghost for changed airliners if the change moved them
+				const hasMoved = !!ghost && !!current && (
+					ghost.lines.x1 !== current.lines.x1 ||
+					ghost.lines.x3 !== current.lines.x3 ||
+					ghost.lines.y !== current.lines.y
+				);
+
+				return {
+					airlinerID: entry.airlinerID,
+					kind: entry.kind,
+					current,
+					ghost: entry.kind === "removed" || hasMoved ? ghost : null,
+				};
+			});
+	}, [diff, airlinerEntries, animatedScale, plotFormat.markerSize, axes]);
+
+	if (!diff) return null;
+
+	return (
+		<g className="airlinerDiff" style={{ pointerEvents: "none" }}>
+			<defs>
+				<marker
+					id={arrowID}
+					viewBox="0 0 10 10"
+					refX={9}
+					refY={5}
+					markerWidth={6}
+					markerHeight={6}
+					orient="auto-start-reverse"
+				>
+					<path d="M 0 0 L 10 5 L 0 10 z" className="airlinerDiffArrowHead" />
+				</marker>
+			</defs>
+
+			{diffMarks.map(({ airlinerID, kind, current, ghost }) => (
+				<g key={airlinerID}>
+					{/* Highlight behind the airliner's current markers */}
+					{current && (
+						<DiffHighlight markerSeries={current} kind={kind} padding={plotFormat.markerSize} />
+					)}
+
+					{/* Ghost of the airliner's old markers */}
+					{ghost && (
+						<DiffGhost markerSeries={ghost} kind={kind} markerSize={plotFormat.markerSize} />
+					)}
+
+					{/* Arrow from the old position to the new one */}
+					{ghost && current && (
+						<line
+							x1={(ghost.lines.x1 + ghost.lines.x2) / 2}
+							y1={ghost.lines.y}
+							x2={(current.lines.x1 + current.lines.x2) / 2}
+							y2={current.lines.y}
+							className="airlinerDiffArrow"
+							markerEnd={`url(#${arrowID})`}
+						/>
+					)}
+				</g>
+			))}
+		</g>
+	);
+}
+
+/**
+ * DiffHighlight
+ *
+ * A rectangle behind an added or changed airliner's markers.
+ */
+function DiffHighlight({ markerSeries, kind, padding }: { markerSeries: AirlinerMarkerSeries; kind: AirlinerDiffKind; padding: number }) {
+	const { lines, seriesBBox } = markerSeries;
+	return (
+		<rect
+			x={seriesBBox.x[0] - padding}
+			y={seriesBBox.y[0] - padding}
+			width={Math.max(lines.x3, seriesBBox.x[1]) - seriesBBox.x[0] + padding * 2}
+			height={seriesBBox.y[1] - seriesBBox.y[0] + padding * 2}
+			className={`airlinerDiffHighlight airlinerDiff--${kind}`}
+		/>
+	);
+}
+
+/**
+ * DiffGhost
+ *
+ * A faded outline of an airliner's markers at their position in the earlier snapshot.
+ */
+function DiffGhost({ markerSeries, kind, markerSize }: { markerSeries: AirlinerMarkerSeries; kind: AirlinerDiffKind; markerSize: number }) {
+	const { lines, markers } = markerSeries;
+	return (
+		<g className={`airlinerDiffGhost airlinerDiff--${kind}`}>
+			<line x1={lines.x1} x2={lines.x3} y1={lines.y} y2={lines.y} className="airlinerDiffGhostLine" />
+			{markers.map(marker => (
+				<MarkerDiamond
+					key={marker.markerClass}
+					cx={marker.markerCoordinates.x}
+					cy={marker.markerCoordinates.y}
+					size={markerSize}
+					className="airlinerDiffGhostMarker"
+				/>
+			))}
+		</g>
+	);
+}
@@ -0,0 +1,51 @@
+"use client";
+
+// [IMPORT] Types //
+import type { AirlinerMarkerSeries } from "@/lib/data/airliner-types";
+
+// [IMPORT] Context hooks //
+import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
+
+interface AirlinerScatterFamilyCompositeProps {
+	airlinerID: string;
+	familyMembers: string[];
+	airlinerMarkers: AirlinerMarkerSeries;
+}
+
+/**
+ * AirlinerScatterFamilyComposite Component
+ *
+ * Renders a family composite, shown in place of the family's variants when zoomed out,
+ * as a box spanning their capacity and range envelope.
+ * Highlighted when the composite is hovered, or when any of its variants is selected.
+ */
+export default function AirlinerScatterFamilyComposite({
+	airlinerID,
+	familyMembers,
+	airlinerMarkers
+}: AirlinerScatterFamilyCompositeProps) {
+
+	// === Selection State Management ===
+	// Access airliner selection context for visual state only
+	// Interaction logic is handled centrally in AirlinerScatterPlot
+	const { isAirlinerSelected, hoveredAirlinerID } = useAirlinerSelection();
+
+	const isHovered = hoveredAirlinerID === airlinerID;
+	const isSelected = familyMembers.some(isAirlinerSelected);
+
+	const { x: [xMin, xMax], y: [yMin, yMax] } = airlinerMarkers.seriesBBox;
+
+	return (
+		<rect
+			x={xMin}
+			y={yMin}
+			width={xMax - xMin}
+			height={yMax - yMin}
+			rx={4}
+			className={`familyComposite ${
+				isSelected ? 'selectedAirliner' : ''
+			} ${isHovered ? 'hoveredAirliner' : ''}`}
+			style={{ pointerEvents: 'none' }}
+		/>
+	);
+}
@@ -0,0 +1,45 @@
+"use client";
+
+// [IMPORT] Context hooks //
+import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
+
+// [IMPORT] Types //
+import type { AirlinerFamilyConnector } from "@/lib/data/plot-family-connectors";
+
+interface AirlinerScatterFamilyConnectorsProps {
+	familyConnectors: AirlinerFamilyConnector[];
+	plotFormat: any;
+}
+
+/**
+ * AirlinerScatterFamilyConnectors Component
+ *
+ * Renders a path through the variants of each airliner family, beneath the markers.
+ * Hovering or selecting any variant of a family highlights its whole path.
+ */
+export default function AirlinerScatterFamilyConnectors({
+	familyConnectors,
+	plotFormat
+}: AirlinerScatterFamilyConnectorsProps) {
+	const { isAirlinerSelected, hoveredAirlinerID } = useAirlinerSelection();
+
+	return (
+		<g style={{ pointerEvents: 'none' }}>
+			{familyConnectors.map(({ familyID, airlinerIDs, points }) => {
+				const isHovered = hoveredAirlinerID !== null && airlinerIDs.includes(hoveredAirlinerID);
+				const isSelected = airlinerIDs.some(isAirlinerSelected);
+
+				return (
+					<polyline
+						key={familyID}
+						points={points.map(({ x, y }) => `${x},${y}`).join(" ")}
+						className={`familyConnector ${
+							isSelected ? 'selectedAirliner' : ''
+						} ${isHovered ? 'hoveredAirliner' : ''}`}
+						strokeWidth={plotFormat.familyConnectorWidth}
+					/>
+				);
+			})}
+		</g>
+	);
+}
@@ -15,6 +15,7 @@ interface AirlinerScatterLabelProps {
 	airlinerID: string;
 	airlinerLabel: AirlinerLabel;
 	classNames?: string;
+	animatePosition?: boolean;
 	debug?: boolean;
 }
 
@@ -26,6 +27,7 @@ interface AirlinerScatterLabelProps {
  * @param {string} airlinerID - The ID of the airliner
  * @param {AirlinerLabel} airlinerLabel - The label data for the airliner
  * @param {string} classNames - Additional CSS class names
+ * @param {boolean} animatePosition - Optional. Glides the label to where it is placed, rather than moving it straight there
  * @param {boolean} debug - Optional debug flag
  */
 const AirlinerScatterLabel = React.forwardRef<SVGGElement, AirlinerScatterLabelProps>(
@@ -33,18 +35,19 @@ const AirlinerScatterLabel = React.forwardRef<SVGGElement, AirlinerScatterLabelP
 		airlinerID,
 		airlinerLabel,
 		classNames = "",
+		animatePosition = false,
 		debug = false
 	}, ref) => {
 
 		// === Selection State Management ===
 		// Access airliner selection context for visual state only
 		// Interaction logic is handled centrally in AirlinerScatterPlot
-		const { selectedAirlinerID, hoveredAirlinerID } = useAirlinerSelection();
+		const { isAirlinerSelected, hoveredAirlinerID } = useAirlinerSelection();
 
 		// === Visual State Calculation ===
 		// Determine visual state based on selection context
 		const isHovered = hoveredAirlinerID === airlinerID;
-		const isSelected = selectedAirlinerID === airlinerID;
+		const isSelected = isAirlinerSelected(airlinerID);
 
 		// === Rendering Configuration ===
 		const labelVerticalAnchor = "middle";
@@ -53,15 +56,22 @@ const AirlinerScatterLabel = React.forwardRef<SVGGElement, AirlinerScatterLabelP
 		const dx = 0;
 		const dy = 0;
 
+		// An animated label is moved by a CSS transform, which can transition, and drawn at its origin
+		const x = airlinerLabel.labelCoordinates?.x || airlinerLabel.labelAnchor.x;
+		const y = airlinerLabel.labelCoordinates?.y || airlinerLabel.labelAnchor.y;
+		const textX = animatePosition ? 0 : x;
+		const textY = animatePosition ? 0 : y;
+
 		return (
 			<g 
 				ref={ref}
-				style={{ pointerEvents: 'none' }}
+				className={`${classNames} ${animatePosition ? 'airlinerLabelAnimated' : ''}`}
+				style={{ pointerEvents: 'none', transform: animatePosition ? `translate(${x}px, ${y}px)` : undefined }}
 			>
 				{/* This is the only way I can think of to have an outline that's on the outside */}
 				<Text
-					x={airlinerLabel.labelCoordinates?.x || airlinerLabel.labelAnchor.x}
-					y={airlinerLabel.labelCoordinates?.y || airlinerLabel.labelAnchor.y}
+					x={textX}
+					y={textY}
 					dx={dx}
 					dy={dy}
 					verticalAnchor={labelVerticalAnchor}
@@ -75,8 +85,8 @@ const AirlinerScatterLabel = React.forwardRef<SVGGElement, AirlinerScatterLabelP
 
 				{/* Main label text */}
 				<Text
-					x={airlinerLabel.labelCoordinates?.x || airlinerLabel.labelAnchor.x}
-					y={airlinerLabel.labelCoordinates?.y || airlinerLabel.labelAnchor.y}
+					x={textX}
+					y={textY}
 					dx={dx}
 					dy={dy}
 					verticalAnchor={labelVerticalAnchor}
@@ -34,12 +34,12 @@ export default function AirlinerScatterLine({
 	// === Selection State Management ===
 	// Access airliner selection context for visual state only
 	// Interaction logic is handled centrally in AirlinerScatterPlot
-	const { selectedAirlinerID, hoveredAirlinerID } = useAirlinerSelection();
+	const { isAirlinerSelected, hoveredAirlinerID } = useAirlinerSelection();
 
 	// === Visual State Calculation ===
 	// Determine visual state based on selection context
 	const isHovered = hoveredAirlinerID === airlinerID;
-	const isSelected = selectedAirlinerID === airlinerID;
+	const isSelected = isAirlinerSelected(airlinerID);
 
 	// === Rendering Configuration ===
 	const y = airlinerMarkers.lines.y;
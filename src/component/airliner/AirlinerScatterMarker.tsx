@@ -7,6 +7,9 @@ import { MarkerDiamond } from "@/component/shape/MarkerDiamond";
 // [IMPORT] Types //
 import type { AirlinerMarkerSeries } from "@/lib/data/airliner-types";
 
+// [IMPORT] Utilities //
+import { isClassMarker, isLimitMarker } from "@/lib/data/airliner-axis-metrics";
+
 // [IMPORT] Context hooks //
 import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
 
@@ -31,26 +34,19 @@ export default function AirlinerScatterMarker({
 
 	// === Selection State Management ===
 	// Access airliner selection context for hover and selection states
-	const { selectedAirlinerID, hoveredAirlinerID } = useAirlinerSelection();
+	const { isAirlinerSelected, hoveredAirlinerID } = useAirlinerSelection();
 
 	// === Interaction State Calculation ===
 	// Determine if this airliner is currently hovered or selected
 	const isHovered = hoveredAirlinerID === airlinerID;
-	const isSelected = selectedAirlinerID === airlinerID;
+	const isSelected = isAirlinerSelected(airlinerID);
 	const isInteractive = isHovered || isSelected;
 
-	// Get class markers
-	const classMarkers = airlinerMarkers.markers.filter(marker =>
-		marker.markerClass === 'pax3Class' ||
-		marker.markerClass === 'pax2Class' ||
-		marker.markerClass === 'pax1Class'
-	);
+	// Get class markers, including the single marker of a single-field metric
+	const classMarkers = airlinerMarkers.markers.filter(marker => isClassMarker(marker.markerClass));
 
 	// Get limit markers
-	const limitMarkers = airlinerMarkers.markers.filter(marker =>
-		marker.markerClass === 'paxLimit' ||
-		marker.markerClass === 'paxExit'
-	);
+	const limitMarkers = airlinerMarkers.markers.filter(marker => isLimitMarker(marker.markerClass));
 
 	return (
 		<g>
@@ -0,0 +1,96 @@
+"use client";
+
+// [IMPORT] React //
+import React, { useMemo } from "react";
+
+// [IMPORT] Visx components //
+import { Text } from "@visx/text";
+
+// [IMPORT] Context providers/hooks //
+import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
+import { useAnimatedChartViewport } from "@/context/AnimatedChartViewport";
+import { useAirlinerAxes } from "@/context/AirlinerAxesContext";
+import { useChartData } from "./AirlinerChart";
+
+// [IMPORT] Utilities //
+import { CAPACITY_AXIS_METRIC, RANGE_AXIS_METRIC } from "@/lib/data/airliner-axis-metrics";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerData, AirlinerPayloadRangePointKind } from "@/lib/data/airliner-types";
+
+// Mass of a passenger with baggage, used to express payload as passengers on the capacity axis
+const PASSENGER_MASS_KG = 100;
+
+/**
+ * Human-readable text for each point of a payload–range diagram.
+ */
+const POINT_TEXT: Record<AirlinerPayloadRangePointKind, string> = {
+	maxPayload: "Max payload",
+	maxFuel: "Max fuel",
+	ferry: "Ferry",
+};
+
+/**
+ * AirlinerScatterPayloadRange Component
+ *
+ * Draws the payload–range diagram of every selected airliner, and of the hovered one, as a polyline
+ * through its points, labelling each point. Every other airliner keeps its single range marker.
+ *
+ * The diagram is plotted on the default axes only: range on the y-axis, and payload on the
+ * capacity axis as an equivalent number of passengers of `PASSENGER_MASS_KG` each.
+ * Renders nothing on other axes, or for airliners without a diagram.
+ */
+export default function AirlinerScatterPayloadRange() {
+	const { hoveredAirlinerID, selectedAirlinerIDs } = useAirlinerSelection();
+	const { animatedScale } = useAnimatedChartViewport();
+	const axes = useAirlinerAxes();
+	const data = useChartData() as AirlinerData[];
+
+	// The selected airliners, then the hovered one if it is not selected, that have a diagram
+	const airliners = useMemo(() => {
+		if (axes.x !== CAPACITY_AXIS_METRIC || axes.y !== RANGE_AXIS_METRIC) return [];
+
+		return [
+			...selectedAirlinerIDs.map(airlinerID => ({ airlinerID, state: "selectedAirliner" })),
+			{ airlinerID: hoveredAirlinerID && !selectedAirlinerIDs.includes(hoveredAirlinerID) ? hoveredAirlinerID : null, state: "hoveredAirliner" },
+		].flatMap(({ airlinerID, state }) => {
+			const airliner = airlinerID ? data.find(d => d.airlinerID === airlinerID) : undefined;
+			return airliner?.payloadRange?.length ? [{ airlinerID: airliner.airlinerID, payloadRange: airliner.payloadRange, state }] : [];
+		});
+	}, [axes, data, selectedAirlinerIDs, hoveredAirlinerID]);
+
+	return (
+		<g style={{ pointerEvents: "none" }}>
+			{airliners.map(({ airlinerID, payloadRange, state }) => {
+				const points = payloadRange.map(({ point, rangeKM, payloadKG }) => ({
+					point,
+					x: Number(animatedScale.x(payloadKG / PASSENGER_MASS_KG)),
+					y: Number(animatedScale.y(rangeKM)),
+				}));
+
+				return (
+					<g key={airlinerID} className={`airlinerPayloadRange ${state}`}>
+						<polyline
+							points={points.map(({ x, y }) => `${x},${y}`).join(" ")}
+							className="airlinerPayloadRangeLine"
+						/>
+						{points.map(({ point, x, y }) => (
+							<g key={point}>
+								<circle cx={x} cy={y} r={3} className="airlinerPayloadRangePoint" />
+								<Text
+									x={x + 6}
+									y={y}
+									textAnchor="start"
+									verticalAnchor="middle"
+									className="airlinerPayloadRangeLabel"
+								>
+									{POINT_TEXT[point]}
+								</Text>
+							</g>
+						))}
+					</g>
+				);
+			})}
+		</g>
+	);
+}
@@ -12,6 +12,10 @@ import AirlinerScatterCluster from './AirlinerScatterCluster';
 import AirlinerScatterClusterMenu from './AirlinerScatterClusterMenu';
 import AirlinerGridLines from './AirlinerGridLines';
 import AirlinerScatterRangeLine from './AirlinerScatterRangeLine';
+import AirlinerScatterDiff from './AirlinerScatterDiff';
+import AirlinerScatterPayloadRange from './AirlinerScatterPayloadRange';
+import AirlinerScatterFamilyConnectors from './AirlinerScatterFamilyConnectors';
+import AirlinerScatterFamilyComposite from './AirlinerScatterFamilyComposite';
 import { MarkerPlus } from "../shape/MarkerPlus";
 import { MarkerLeader } from "../shape/MarkerLeader";
 import { MarkerCross } from "../shape/MarkerCross";
@@ -21,6 +25,7 @@ import { GridDots } from "../chart/GridDots";
 import { useChartData } from "./AirlinerChart";
 import { useDebugMode } from "@/context/DebugModeContext";
 import { useAirlinerViewModel } from "@/lib/hooks/use-airliner-view-model";
+import { useAirlinerAxes } from "@/context/AirlinerAxesContext";
 import { useResponsiveSVG } from "@/context/ResponsiveSVG";
 import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
 import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
@@ -28,6 +33,10 @@ import { useProximityDetection } from "@/lib/hooks/use-proximity-detection";
 
 // [IMPORT] Utilities //
 import type { AirlinerModel } from "@/lib/data/airliner-types";
+import type { FamilyConnectorOrder } from "@/lib/data/plot-family-connectors";
+import { isAirlinerPlottable, getAirlinerIDsInView, RANGE_AXIS_METRIC } from "@/lib/data/airliner-axis-metrics";
+import { getAirlinerDetailLevel, isFamilyCompositeID, FAMILY_EXPAND_ZOOM } from "@/lib/data/plot-family-composites";
+import { getAirlinerTimelineState } from "@/lib/data/airliner-timeline";
 
 // [IMPORT] CSS styling //
 import { RectCentre } from "../shape/RectCentre";
@@ -39,20 +48,64 @@ import { Text } from "@visx/text";
  * 
  * MVVM: View. Renders the main chart area and plots data.
  * 
+ * @param fullViewport - The full view of the whole dataset on the current axes, filter aside, which semantic zoom measures zoom from
+ * @param deferLabelPlacement - Optional. Holds off placing labels, e.g. while the dataset is still streaming in
+ * @param familyConnectorOrder - Optional. The order to join each family's variants in, or null to draw no connectors
+ * @param semanticZoom - Optional. Collapses each family into a single composite until the chart is zoomed in
+ * @param timelineYear - Optional. Shows the chart as it stood in this year, or every airliner when null
+ * @param isTimelinePlaying - Optional. Whether the timeline is playing, which glides labels to their new places
  */
-export default function AirlinerScatterPlot() {
+export default function AirlinerScatterPlot({
+	fullViewport,
+	deferLabelPlacement = false,
+	familyConnectorOrder = null,
+	semanticZoom = false,
+	timelineYear = null,
+	isTimelinePlaying = false
+}: {
+	fullViewport: { x: [number, number]; y: [number, number] };
+	deferLabelPlacement?: boolean;
+	familyConnectorOrder?: FamilyConnectorOrder | null;
+	semanticZoom?: boolean;
+	timelineYear?: number | null;
+	isTimelinePlaying?: boolean;
+}) {
 	// === Context and chart config ===
 	// Retrieve chart scales (x/y), layout config, data, and debug mode from context providers.
 	const { width, height } = useResponsiveSVG();
-	const { dataScale, view, drag, mouse } = useResponsiveChartViewport();
+	const { dataScale, viewportScale, view, drag, mouse } = useResponsiveChartViewport();
 	const { animatedScale, setAnimationDuration } = useAnimatedChartViewport();
-	const data = useChartData() as AirlinerModel[];
+	const chartData = useChartData() as AirlinerModel[];
+	const axes = useAirlinerAxes();
+
+	// Only airliners with values for the chosen axis metrics are plotted
+	const data = useMemo(() => chartData.filter(airliner => isAirlinerPlottable(airliner.airlinerData, axes)), [chartData, axes]);
 	const { debugMode } = useDebugMode();
-	const { clearSelection, hoveredAirlinerID, selectedAirlinerID, hoveredClusterIndex, selectedClusterIndex, setHoveredAirliner, setSelectedAirliner, setHoveredCluster, setSelectedCluster } = useAirlinerSelection();
+	const { clearSelection, hoveredAirlinerID, selectedAirlinerID, selectedAirlinerIDs, isAirlinerSelected, hoveredClusterIndex, selectedClusterIndex, setHoveredAirliner, setSelectedAirliner, toggleSelectedAirliner, replaceSelectedAirliners, setHoveredCluster, setSelectedCluster } = useAirlinerSelection();
 
 	// Hide/consolidate labels in clusters larger than this
 	const labelClusterThreshold = 2;
 
+	// === Timeline ===
+	// Airliners not yet delivered in the timeline's year are left off; the full view still covers them,
+	// so that the viewport and level of detail hold steady as the years go by
+	const plottedData = useMemo(() => timelineYear === null
+		? data
+		: data.filter(airliner => getAirlinerTimelineState(airliner.airlinerData, timelineYear) !== "undelivered"),
+	[data, timelineYear]);
+
+	// Airliners out of production in the timeline's year, drawn in a retired style
+	const retiredIDs = useMemo(() => new Set(timelineYear === null ? [] : plottedData
+		.filter(airliner => getAirlinerTimelineState(airliner.airlinerData, timelineYear) === "outOfProduction")
+		.map(airliner => airliner.airlinerID)
+	), [plottedData, timelineYear]);
+
+	// === Semantic zoom ===
+	// Families collapse into composites until the viewport is zoomed in far enough from the full view
+	const detailLevel = semanticZoom
+		? getAirlinerDetailLevel(fullViewport, { x: viewportScale.x.domain(), y: viewportScale.y.domain() })
+		: "variants";
+
 	// === ViewModel ===
 	const {
 		airlinerEntries,		// Map of airliner IDs to their view model data
@@ -61,7 +114,56 @@ export default function AirlinerScatterPlot() {
 		areLabelsMeasured,	// Flag for if all labels have been measured
 		plotFormat,				// Formatting options for the plot
 		airlinerLabelClusters,	// Cluster detection results
-	} = useAirlinerViewModel(data, animatedScale.x, animatedScale.y, width, height, debugMode);
+		familyConnectors,		// Paths joining each family's variants
+	} = useAirlinerViewModel(plottedData, animatedScale.x, animatedScale.y, width, height, debugMode, deferLabelPlacement, familyConnectorOrder, detailLevel);
+
+	// IDs of the variants hidden in family composites, kept after the families expand so that they can animate in
+	const collapsedIDs = useRef<Set<string>>(new Set());
+	const [expandingIDs, setExpandingIDs] = useState<Set<string>>(new Set());
+
+	useEffect(() => {
+		const composites = Array.from(airlinerEntries.values()).filter(airliner => airliner.familyMembers);
+		if (composites.length > 0) {
+			collapsedIDs.current = new Set(composites.flatMap(composite => composite.familyMembers ?? []));
+		}
+	}, [airlinerEntries]);
+
+	useEffect(() => {
+		if (detailLevel !== "variants" || collapsedIDs.current.size === 0) return;
+
+		setExpandingIDs(collapsedIDs.current);
+		collapsedIDs.current = new Set();
+		const timeout = setTimeout(() => setExpandingIDs(new Set()), 400);
+		return () => clearTimeout(timeout);
+	}, [detailLevel]);
+
+	/**
+	 * expandFamilyComposite
+	 * 
+	 * Zooms to fit a family composite's envelope, far enough in for the family to expand into its variants.
+	 */
+	const expandFamilyComposite = useCallback((compositeID: string) => {
+		const composite = airlinerEntries.get(compositeID);
+		if (!composite?.markerSeries) return;
+
+		const padding = 0.5;
+
+		// Narrow an extent around its centre if fitting it would not zoom in far enough to expand the family
+		const narrowExtent = (extent: [number, number], fullExtent: [number, number]): [number, number] => {
+			const maxSpan = (fullExtent[1] - fullExtent[0]) / (FAMILY_EXPAND_ZOOM * (1 + padding));
+			const span = Math.min(extent[1] - extent[0], maxSpan);
+			const centre = (extent[0] + extent[1]) / 2;
+			return [centre - span / 2, centre + span / 2];
+		};
+
+		// Convert the envelope from SVG coordinates to data coordinates; the y scale is inverted
+		const { x: [svgXMin, svgXMax], y: [svgYMin, svgYMax] } = composite.markerSeries.seriesBBox;
+		const dataX: [number, number] = [animatedScale.x.invert(svgXMin), animatedScale.x.invert(svgXMax)];
+		const dataY: [number, number] = [animatedScale.y.invert(svgYMax), animatedScale.y.invert(svgYMin)];
+
+		setAnimationDuration(800);
+		view.zoomToFit({ x: narrowExtent(dataX, fullViewport.x), y: narrowExtent(dataY, fullViewport.y) }, padding);
+	}, [airlinerEntries, animatedScale.x, animatedScale.y, fullViewport, setAnimationDuration, view]);
 
 	// === Proximity Detection ===
 	// 
@@ -290,6 +392,7 @@ export default function AirlinerScatterPlot() {
 	 * 
 	 * Handles mouse clicks within the chart area.
 	 * Manages selection state based on what was clicked.
+	 * Shift-, Ctrl- or Cmd-clicking an airliner adds it to the selection or removes it, leaving the rest selected.
 	 */
 	const handleClick = useCallback((event: React.MouseEvent) => {
 		// Check if we have a current target from proximity detection
@@ -309,19 +412,27 @@ export default function AirlinerScatterPlot() {
 				// Clicked on an airliner line or label - select it
 				const airlinerID = proximityDetection.nearestTarget.id;
 				
-				// Toggle selection if clicking on already selected airliner
-				if (selectedAirlinerID === airlinerID) {
+				// Clicked on a family composite - zoom in to expand it
+				if (isFamilyCompositeID(airlinerID)) {
+					expandFamilyComposite(airlinerID);
+				}
+				// Add to or remove from the selection with a modifier key held
+				else if (event.shiftKey || event.ctrlKey || event.metaKey) {
+					toggleSelectedAirliner(airlinerID);
+				}
+				// Toggle selection if clicking on the only selected airliner
+				else if (selectedAirlinerIDs.length === 1 && selectedAirlinerID === airlinerID) {
 					clearSelection();
 				} else {
 					// Select the new airliner
 					setSelectedAirliner(airlinerID);
 				}
 			}
-		} else {
-			// Clicked on empty chart area - clear selection
+		} else if (!(event.shiftKey || event.ctrlKey || event.metaKey)) {
+			// Clicked on empty chart area - clear selection, unless adding to it
 			clearSelection();
 		}
-	}, [proximityDetection, selectedAirlinerID, selectedClusterIndex, clearSelection, setSelectedAirliner, setSelectedCluster]);
+	}, [proximityDetection, selectedAirlinerID, selectedAirlinerIDs, selectedClusterIndex, clearSelection, setSelectedAirliner, toggleSelectedAirliner, setSelectedCluster, expandFamilyComposite]);
 
 	/**
 	 * handleTouchStart
@@ -364,8 +475,12 @@ export default function AirlinerScatterPlot() {
 				// Touched on an airliner line or label - select it
 				const airlinerID = proximityDetection.nearestTarget.id;
 				
-				// Toggle selection if touching on already selected airliner
-				if (selectedAirlinerID === airlinerID) {
+				// Touched on a family composite - zoom in to expand it
+				if (isFamilyCompositeID(airlinerID)) {
+					expandFamilyComposite(airlinerID);
+				}
+				// Toggle selection if touching on the only selected airliner
+				else if (selectedAirlinerIDs.length === 1 && selectedAirlinerID === airlinerID) {
 					clearSelection();
 				} else {
 					// Select the new airliner
@@ -376,13 +491,14 @@ export default function AirlinerScatterPlot() {
 			// Touched on empty chart area - clear selection
 			clearSelection();
 		}
-	}, [proximityDetection, selectedAirlinerID, selectedClusterIndex, clearSelection, setSelectedAirliner, setSelectedCluster]);
+	}, [proximityDetection, selectedAirlinerID, selectedAirlinerIDs, selectedClusterIndex, clearSelection, setSelectedAirliner, setSelectedCluster, expandFamilyComposite]);
 
 	/**
 	 * handleKeyDown
 	 * 
 	 * Handles keyboard events within the chart area.
 	 * Provides keyboard shortcuts for selection management.
+	 * Holding Shift, Ctrl or Cmd with Enter or Space adds the hovered airliner to the selection or removes it.
 	 */
 	const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
 		switch (event.key) {
@@ -390,15 +506,27 @@ export default function AirlinerScatterPlot() {
 				// Clear selection on Escape key
 				clearSelection();
 				break;
+			case 'a':
+			case 'A':
+				// Select every airliner in view on Ctrl+A or Cmd+A
+				if (event.ctrlKey || event.metaKey) {
+					event.preventDefault();
+					replaceSelectedAirliners(getAirlinerIDsInView(chartData, axes, { x: viewportScale.x.domain(), y: viewportScale.y.domain() }, timelineYear));
+				}
+				break;
 			case 'Enter':
 			case ' ':
-				// Select currently hovered airliner on Enter or Space
-				if (hoveredAirlinerID && hoveredAirlinerID !== selectedAirlinerID) {
+				// Select currently hovered airliner on Enter or Space, or expand a hovered family composite
+				if (hoveredAirlinerID && isFamilyCompositeID(hoveredAirlinerID)) {
+					expandFamilyComposite(hoveredAirlinerID);
+				} else if (hoveredAirlinerID && (event.shiftKey || event.ctrlKey || event.metaKey)) {
+					toggleSelectedAirliner(hoveredAirlinerID);
+				} else if (hoveredAirlinerID && hoveredAirlinerID !== selectedAirlinerID) {
 					setSelectedAirliner(hoveredAirlinerID);
 				}
 				break;
 		}
-	}, [hoveredAirlinerID, selectedAirlinerID, clearSelection, setSelectedAirliner]);
+	}, [hoveredAirlinerID, selectedAirlinerID, chartData, timelineYear, axes, viewportScale, clearSelection, setSelectedAirliner, toggleSelectedAirliner, replaceSelectedAirliners, expandFamilyComposite]);
 
 	/**
 	 * handleWheel
@@ -522,10 +650,8 @@ export default function AirlinerScatterPlot() {
 			});
 
 			// If all ghost labels have been measured, call batchUpdateLabelDimensions
-			if (
-				pendingLabelDimensions.current.size === ghostLabelIDs.length &&
-				ghostLabelIDs.every(id => pendingLabelDimensions.current.has(id))
-			) {
+			// Measurements are merged into those already taken, so leftovers from an earlier batch do no harm
+			if (ghostLabelIDs.every(id => pendingLabelDimensions.current.has(id))) {
 				batchUpdateLabelDimensions(new Map(pendingLabelDimensions.current));
 
 				// Clear the pendingLabelDimensions map of references
@@ -534,6 +660,19 @@ export default function AirlinerScatterPlot() {
 		}
 	}, [ghostLabelIDs, batchUpdateLabelDimensions]);
 	
+	// Timeline classes of an airliner's marks: fading in as it is delivered, and retired once out of production
+	// A composite is retired once every variant it stands for is
+	const getTimelineClassName = (airliner: AirlinerModel) => timelineYear === null ? "" : [
+		"airlinerTimelineEntry",
+		(airliner.familyMembers ? airliner.familyMembers.every(id => retiredIDs.has(id)) : retiredIDs.has(airliner.airlinerID)) ? "airlinerRetired" : "",
+	].filter(Boolean).join(" ");
+
+	// Classes of the group wrapping an airliner's markers and lines, which also grow out of a composite that has just expanded
+	const getEntryClassName = (airliner: AirlinerModel) => [
+		expandingIDs.has(airliner.airlinerID) ? "airlinerExpanding" : "",
+		getTimelineClassName(airliner),
+	].filter(Boolean).join(" ") || undefined;
+
 	// === Early exit for empty chart ===
 	// If chart has no size or no data, show loading state.
 	if (width === 0 || height === 0 || data.length === 0) {
@@ -559,16 +698,31 @@ export default function AirlinerScatterPlot() {
 				className="gridIntersectionDot"
 			/>
 
+			{/* Timeline: the year shown, as a watermark behind everything else */}
+			{timelineYear !== null && (
+				<text
+					x={width / 2}
+					y={height / 2}
+					fontSize={Math.min(width / 3, height / 2)}
+					textAnchor="middle"
+					dominantBaseline="central"
+					className="timelineWatermark"
+				>
+					{timelineYear}
+				</text>
+			)}
+
 			{/* Airliner grid lines - drawn from markers across entire plot area */}
 			<AirlinerGridLines
 				hoveredAirlinerID={hoveredAirlinerID}
-				selectedAirlinerID={selectedAirlinerID}
+				selectedAirlinerIDs={selectedAirlinerIDs}
 				airlinerEntries={airlinerEntries}
 				width={width}
 				height={height}
 			/>
 
-			{/* Range reference lines for common long-haul and regional routes */}
+			{/* Range reference lines for common long-haul and regional routes, when range is on the y-axis */}
+			{axes.y === RANGE_AXIS_METRIC && <>
 			<AirlinerScatterRangeLine
 				rangeValue={4000}
 				description="New York to Los Angeles"
@@ -617,6 +771,7 @@ export default function AirlinerScatterPlot() {
 				yScale={animatedScale.y}
 				width={width}
 			/>
+			</>}
 			
 			{/* Chart area draggable area with comprehensive interaction handling */}
 			<rect
@@ -701,27 +856,57 @@ export default function AirlinerScatterPlot() {
 				</g>
 			))}
 
-			{/* Airliner connecting lines */}
+			{/* Compare mode: ghosts of old positions, and highlights of added and changed airliners */}
+			<AirlinerScatterDiff
+				airlinerEntries={airlinerEntries}
+				plotFormat={plotFormat}
+			/>
+
+			{/* Payload-range diagram of the selected and hovered airliners */}
+			<AirlinerScatterPayloadRange />
+
+			{/* Family connectors, beneath the airliners they join */}
+			<AirlinerScatterFamilyConnectors
+				familyConnectors={familyConnectors}
+				plotFormat={plotFormat}
+			/>
+
+			{/* Family composites, standing in for their variants when zoomed out */}
 			{Array.from(airlinerEntries.values()).map((airliner) =>
-				airliner.markerSeries ? (
-					<AirlinerScatterLine
-						key={airliner.airlinerID}
-						airlinerID={airliner.airlinerID}
-						airlinerMarkers={airliner.markerSeries}
-						plotFormat={plotFormat}
-					/>
+				airliner.markerSeries && airliner.familyMembers ? (
+					<g key={airliner.airlinerID} className={getEntryClassName(airliner)}>
+						<AirlinerScatterFamilyComposite
+							airlinerID={airliner.airlinerID}
+							familyMembers={airliner.familyMembers}
+							airlinerMarkers={airliner.markerSeries}
+						/>
+					</g>
+				) : null
+			)}
+
+			{/* Airliner connecting lines; variants of a family that has just expanded animate in */}
+			{Array.from(airlinerEntries.values()).map((airliner) =>
+				airliner.markerSeries && !airliner.familyMembers ? (
+					<g key={airliner.airlinerID} className={getEntryClassName(airliner)}>
+						<AirlinerScatterLine
+							airlinerID={airliner.airlinerID}
+							airlinerMarkers={airliner.markerSeries}
+							plotFormat={plotFormat}
+						/>
+					</g>
 				) : null
 			)}
 
 			{/* Airliner markers */}
 			{Array.from(airlinerEntries.values()).map((airliner) =>
-				airliner.markerSeries ? (
-					<AirlinerScatterMarker
-						key={airliner.airlinerID}
-						airlinerID={airliner.airlinerID}
-						airlinerMarkers={airliner.markerSeries}
-						markerSize={plotFormat.markerSize}
-					/>
+				airliner.markerSeries && !airliner.familyMembers ? (
+					<g key={airliner.airlinerID} className={getEntryClassName(airliner)}>
+						<AirlinerScatterMarker
+							airlinerID={airliner.airlinerID}
+							airlinerMarkers={airliner.markerSeries}
+							markerSize={plotFormat.markerSize}
+						/>
+					</g>
 				) : null
 			)}
 
@@ -759,11 +944,12 @@ export default function AirlinerScatterPlot() {
 
 				// Determine interactive state classes
 				const isHovered = airliner.airlinerID === hoveredAirlinerID;
-				const isSelected = airliner.airlinerID === selectedAirlinerID;
+				const isSelected = isAirlinerSelected(airliner.airlinerID);
 				const leaderClassNames = [
 					"markerLeader",
 					isHovered ? "hoveredAirliner" : "",
-					isSelected ? "selectedAirliner" : ""
+					isSelected ? "selectedAirliner" : "",
+					getTimelineClassName(airliner)
 				].filter(Boolean).join(" ");
 
 				return (
@@ -790,8 +976,8 @@ export default function AirlinerScatterPlot() {
 				);
 			})}
 
-			{/* Ghost labels (batch measurement) */}
-			{!areLabelsMeasured && (
+			{/* Ghost labels (batch measurement), including family composites when they first appear */}
+			{ghostLabelIDs.length > 0 && (
 				<g style={{ opacity: 0, pointerEvents: 'none', position: 'absolute' }}>
 					{ghostLabelIDs.map(id => {
 						const label = airlinerEntries.get(id)?.labels;
@@ -819,7 +1005,8 @@ export default function AirlinerScatterPlot() {
 						key={airliner.airlinerID}
 						airlinerID={airliner.airlinerID}
 						airlinerLabel={label}
-						classNames={`label-${airliner.airlinerID}`}
+						classNames={`label-${airliner.airlinerID} ${getTimelineClassName(airliner)}`}
+						animatePosition={isTimelinePlaying}
 						debug={debugMode}
 					/>
 				);
@@ -1001,7 +1188,13 @@ export default function AirlinerScatterPlot() {
 			const selectedCluster = airlinerLabelClusters.get(selectedClusterIndex);
 			if (!selectedCluster) return null;
 			
-			return <AirlinerScatterClusterMenu selectedCluster={selectedCluster} airlinerEntries={airlinerEntries} />;
+			return (
+				<AirlinerScatterClusterMenu
+					selectedCluster={selectedCluster}
+					airlinerEntries={airlinerEntries}
+					onExpandFamily={expandFamilyComposite}
+				/>
+			);
 		})()}
 		</>
 	);
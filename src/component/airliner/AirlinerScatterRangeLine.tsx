@@ -6,13 +6,20 @@ import React from "react";
 // [IMPORT] Visx components //
 import { Text } from "@visx/text";
 
+// [IMPORT] Context providers/hooks //
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
+
+// [IMPORT] Utilities //
+import { formatDistance } from "@/lib/data/airliner-units";
+
 /**
  * AirlinerScatterRangeLine
  * 
  * Renders a horizontal reference line with descriptive labels.
  * Used to highlight specific range values on the airliner chart.
+ * The value is labelled in the reader's distance unit.
  * 
- * @param rangeValue - The y-axis value to draw the reference line at
+ * @param rangeValue - The y-axis value to draw the reference line at, in kilometres
  * @param description - The description text to display above the line
  * @param yScale - The animated y-scale for positioning
  * @param width - The width of the chart area
@@ -33,6 +40,8 @@ export default function AirlinerScatterRangeLine({
 	width,
 	className = "airlinerRangeReferenceLine"
 }: AirlinerScatterRangeLineProps) {
+	const { distanceUnit } = useAirlinerUnits();
+
 	// Calculate the y position for the line
 	const yPosition = yScale(rangeValue) as unknown as number;
 	
@@ -66,7 +75,7 @@ export default function AirlinerScatterRangeLine({
 				verticalAnchor="start"
 				className="airlinerRangeReferenceLabel"
 			>
-				{`${rangeValue.toLocaleString()} km`}
+				{formatDistance(rangeValue, distanceUnit)}
 			</Text>
 		</g>
 	);
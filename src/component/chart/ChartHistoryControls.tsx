@@ -0,0 +1,84 @@
+// [IMPORT] React and core libraries //
+import { useCallback, useEffect } from "react";
+
+// [IMPORT] Context providers/hooks //
+import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
+import { useAnimatedChartViewport } from "@/context/AnimatedChartViewport";
+
+// How long stepping through the viewport history animates for, in milliseconds
+const HISTORY_STEP_DURATION = 300;
+
+/**
+ * @function isEditableTarget
+ * @description Checks whether a key event is aimed at a text field, which keeps its own undo and redo.
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+	return target instanceof HTMLElement
+		&& (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+}
+
+/**
+ * ChartHistoryControls Component
+ *
+ * Undo and redo buttons for the chart viewport, animating each step.
+ * Also binds Ctrl+Z (Cmd+Z) to undo, and Ctrl+Shift+Z (Cmd+Shift+Z) or Ctrl+Y to redo, anywhere on the page but text fields.
+ * Must be rendered within both ResponsiveChartViewport and AnimatedChartViewport.
+ *
+ * @returns {JSX.Element} The undo and redo buttons
+ */
+export default function ChartHistoryControls() {
+	const { history } = useResponsiveChartViewport();
+	const { setAnimationDuration } = useAnimatedChartViewport();
+
+	const handleUndo = useCallback(() => {
+		setAnimationDuration(HISTORY_STEP_DURATION);
+		history.undo();
+	}, [history, setAnimationDuration]);
+
+	const handleRedo = useCallback(() => {
+		setAnimationDuration(HISTORY_STEP_DURATION);
+		history.redo();
+	}, [history, setAnimationDuration]);
+
+	// Keyboard shortcuts
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return;
+
+			const key = event.key.toLowerCase();
+			if (key === "z" && !event.shiftKey) {
+				event.preventDefault();
+				handleUndo();
+			} else if ((key === "z" && event.shiftKey) || (key === "y" && !event.shiftKey)) {
+				event.preventDefault();
+				handleRedo();
+			}
+		};
+
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, [handleUndo, handleRedo]);
+
+	return (
+		<>
+			<button
+				className="btn-diminished btn-icon-only"
+				onClick={handleUndo}
+				disabled={!history.canUndo}
+				aria-label="Undo zoom"
+				title="Undo zoom (Ctrl+Z)"
+			>
+				<span className="material-symbols-sharp" aria-hidden="true">undo</span>
+			</button>
+			<button
+				className="btn-diminished btn-icon-only"
+				onClick={handleRedo}
+				disabled={!history.canRedo}
+				aria-label="Redo zoom"
+				title="Redo zoom (Ctrl+Shift+Z)"
+			>
+				<span className="material-symbols-sharp" aria-hidden="true">redo</span>
+			</button>
+		</>
+	);
+}
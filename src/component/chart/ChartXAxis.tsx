@@ -12,9 +12,17 @@ import { useResponsiveSVG } from "@/context/ResponsiveSVG";
 import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
 import { useAnimatedChartViewport } from "@/context/AnimatedChartViewport";
 import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
+import { useAirlinerAxes } from "@/context/AirlinerAxesContext";
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
 import { useChartData } from "@/component/airliner/AirlinerChart";
 import { RectCentre } from "@/component/shape/RectCentre";
 
+// [IMPORT] Utilities //
+import { isClassMarker, getAirlinerAxisTicks, getAirlinerAxisFieldValue, convertAirlinerAxisValue } from "@/lib/data/airliner-axis-metrics";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerNumericField } from "@/lib/data/airliner-axis-metrics";
+
 interface XAxisProps {
 	label?: string;
 }
@@ -28,6 +36,7 @@ interface XAxisProps {
  * - Receives all layout and scale info as props
  * - Renders ticks and gridlines
  * - Shows passenger figure that follows mouse cursor or snaps to airliner positions
+ * - Formats ticks and figures for the x metric in the AirlinerAxesContext, in the reader's units
  *
  * This enables robust, race-condition-free axis measurement and layout.
  */
@@ -35,8 +44,10 @@ export default function XAxis({ label }: XAxisProps) {
 	const { viewportScale, mouse } = useResponsiveChartViewport();
 	const { animatedScale } = useAnimatedChartViewport();
 	const { width, height } = useResponsiveSVG();
-	const { hoveredAirlinerID, selectedAirlinerID } = useAirlinerSelection();
+	const { hoveredAirlinerID, selectedAirlinerIDs } = useAirlinerSelection();
 	const data = useChartData();
+	const axes = useAirlinerAxes();
+	const { distanceUnit } = useAirlinerUnits();
 
 	// === Position Caching ===
 	// Cache the last valid passenger figure position to prevent jarring animations
@@ -44,31 +55,38 @@ export default function XAxis({ label }: XAxisProps) {
 
 	// === Passenger Figure Calculation ===
 	// Calculate passenger figures for all passenger classes with priority: selected > hovered > mouse cursor > cached position
+	// Every selected airliner gets its own figures
+	// Passenger classes are the x metric's main fields, so a single-field metric has a single figure
 	const passengerFigures = useMemo(() => {
+		const passengerClasses = axes.x.fields
+			.filter(({ markerClass }) => isClassMarker(markerClass))
+			.map(({ field }) => field);
+
 		const figures: Array<{
 			x: number;
 			passengerCount: number | undefined;
 			state: 'hovered' | 'selected' | 'mouse' | 'cached';
 			source: 'airliner' | 'mouse' | 'cached';
 			hasData: boolean;
-			passengerClass: 'pax3Class' | 'pax2Class' | 'pax1Class';
+			passengerClass: AirlinerNumericField;
 		}> = [];
 
 		// Helper function to process airliner for a specific passenger class
 		const processAirlinerForPassengerClass = (
 			airlinerID: string, 
 			state: 'hovered' | 'selected', 
-			passengerClass: 'pax3Class' | 'pax2Class' | 'pax1Class'
+			passengerClass: AirlinerNumericField
 		) => {
 			const airliner = data?.find(d => d.airlinerID === airlinerID);
-			if (airliner?.airlinerData[passengerClass]) {
-				const x = viewportScale.x(airliner.airlinerData[passengerClass]!);
+			const passengerCount = airliner && getAirlinerAxisFieldValue(airliner.airlinerData, passengerClass);
+			if (passengerCount) {
+				const x = viewportScale.x(passengerCount);
 				if (x !== undefined && x !== null) {
 					const position = Number(x);
 					setLastValidPosition(position);
 					return {
 						x: position,
-						passengerCount: airliner.airlinerData[passengerClass]!,
+						passengerCount,
 						state,
 						source: 'airliner' as const,
 						hasData: true,
@@ -87,21 +105,17 @@ export default function XAxis({ label }: XAxisProps) {
 			};
 		};
 
-		// Priority 1: Selected airliner
-		if (selectedAirlinerID && data) {
-			figures.push(
-				processAirlinerForPassengerClass(selectedAirlinerID, 'selected', 'pax3Class'),
-				processAirlinerForPassengerClass(selectedAirlinerID, 'selected', 'pax2Class'),
-				processAirlinerForPassengerClass(selectedAirlinerID, 'selected', 'pax1Class')
-			);
+		// Priority 1: Selected airliners, every one of them
+		if (selectedAirlinerIDs.length > 0 && data) {
+			selectedAirlinerIDs.forEach(selectedAirlinerID => figures.push(...passengerClasses.map(passengerClass =>
+				processAirlinerForPassengerClass(selectedAirlinerID, 'selected', passengerClass)
+			)));
 		}
 		// Priority 2: Hovered airliner (if different from selected)
 		else if (hoveredAirlinerID && data) {
-			figures.push(
-				processAirlinerForPassengerClass(hoveredAirlinerID, 'hovered', 'pax3Class'),
-				processAirlinerForPassengerClass(hoveredAirlinerID, 'hovered', 'pax2Class'),
-				processAirlinerForPassengerClass(hoveredAirlinerID, 'hovered', 'pax1Class')
-			);
+			figures.push(...passengerClasses.map(passengerClass =>
+				processAirlinerForPassengerClass(hoveredAirlinerID, 'hovered', passengerClass)
+			));
 		}
 		// Priority 3: Mouse cursor position
 		else if (mouse.coordinates && mouse.isOverChart) {
@@ -113,7 +127,7 @@ export default function XAxis({ label }: XAxisProps) {
 				state: 'mouse' as const,
 				source: 'mouse' as const,
 				hasData: true,
-				passengerClass: 'pax3Class',
+				passengerClass: passengerClasses[0],
 			});
 		}
 		// Priority 4: Cached position (prevents jarring animations)
@@ -124,12 +138,12 @@ export default function XAxis({ label }: XAxisProps) {
 				state: 'cached' as const,
 				source: 'cached' as const,
 				hasData: true,
-				passengerClass: 'pax3Class',
+				passengerClass: passengerClasses[0],
 			});
 		}
 
 		return figures.length > 0 ? figures : null;
-	}, [hoveredAirlinerID, selectedAirlinerID, data, viewportScale.x, mouse.coordinates, mouse.isOverChart, lastValidPosition]);
+	}, [hoveredAirlinerID, selectedAirlinerIDs, data, viewportScale.x, mouse.coordinates, mouse.isOverChart, lastValidPosition, axes]);
 
 	// === State-based CSS classes helper ===
 	// Pre-compute state-specific CSS classes to avoid duplication
@@ -151,14 +165,17 @@ export default function XAxis({ label }: XAxisProps) {
 	};
 
 	// === Passenger class display names ===
-	const getPassengerClassDisplayName = (passengerClass: 'pax3Class' | 'pax2Class' | 'pax1Class') => {
-		switch (passengerClass) {
-			case 'pax3Class': return '3-Class';
-			case 'pax2Class': return '2-Class';
-			case 'pax1Class': return '1-Class';
-		}
+	const getPassengerClassDisplayName = (passengerClass: AirlinerNumericField) => {
+		return axes.x.fields.find(({ field }) => field === passengerClass)?.label;
 	};
 
+	// === Ticks ===
+	// Ticks of a distance fall on round values of the reader's unit
+	const ticks = useMemo(
+		() => getAirlinerAxisTicks(axes.x, animatedScale.x.domain() as number[], distanceUnit),
+		[axes.x, animatedScale.x, distanceUnit]
+	);
+
 	return (
 		<g>
 
@@ -177,6 +194,8 @@ export default function XAxis({ label }: XAxisProps) {
 				scale={animatedScale.x}
 				numTicks={10}
 				tickLength={4}
+				tickValues={ticks.tickValues}
+				tickFormat={ticks.tickFormat && (d => ticks.tickFormat!(Number(d)))}
 				axisClassName="axis"
 				axisLineClassName="axisLine"
 				tickClassName="tick"
@@ -215,9 +234,9 @@ export default function XAxis({ label }: XAxisProps) {
 						verticalAnchor="middle"
 					>
 						{passengerFigure.source === 'airliner' 
-							? passengerFigure.passengerCount 
+							? passengerFigure.passengerCount !== undefined ? Math.round(convertAirlinerAxisValue(axes.x, passengerFigure.passengerCount, distanceUnit)) : ""
 							: passengerFigure.source === 'mouse' && mouse.coordinates
-								? Math.round((viewportScale.x as any).invert(mouse.coordinates.screen.x))
+								? Math.round(convertAirlinerAxisValue(axes.x, (viewportScale.x as any).invert(mouse.coordinates.screen.x), distanceUnit))
 								: ""
 						}
 					</Text>
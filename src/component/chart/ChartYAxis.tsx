@@ -10,11 +10,16 @@ import { AxisLeft } from "@visx/axis";
 import { useResponsiveSVG } from "@/context/ResponsiveSVG";
 import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
 import { useAirlinerSelection } from "@/context/AirlinerSelectionContext";
+import { useAirlinerAxes } from "@/context/AirlinerAxesContext";
+import { useAirlinerUnits } from "@/context/AirlinerUnitsContext";
 import { useChartData } from "@/component/airliner/AirlinerChart";
 import { Text } from "@visx/text";
 import { RectCentre } from "@/component/shape/RectCentre";
 import { useAnimatedChartViewport } from "@/context/AnimatedChartViewport";
 
+// [IMPORT] Utilities //
+import { getAirlinerAxisValues, getAirlinerAxisTicks, convertAirlinerAxisValue } from "@/lib/data/airliner-axis-metrics";
+
 interface YAxisProps {
 	label?: string;
 }
@@ -28,6 +33,7 @@ interface YAxisProps {
  * - Receives all layout and scale info as props
  * - Renders ticks and gridlines
  * - Shows range figure that follows mouse cursor or snaps to airliner positions
+ * - Formats ticks and figures for the y metric in the AirlinerAxesContext, in the reader's units
  *
  * This enables robust, race-condition-free axis measurement and layout.
  */
@@ -35,8 +41,10 @@ export default function YAxis({ label }: YAxisProps) {
 	const { viewportScale, mouse } = useResponsiveChartViewport();
 	const { animatedScale } = useAnimatedChartViewport();
 	const { width, height } = useResponsiveSVG();
-	const { hoveredAirlinerID, selectedAirlinerID } = useAirlinerSelection();
+	const { hoveredAirlinerID, selectedAirlinerID, selectedAirlinerIDs } = useAirlinerSelection();
 	const data = useChartData();
+	const axes = useAirlinerAxes();
+	const { distanceUnit } = useAirlinerUnits();
 
 	// === Position Caching ===
 	// Cache the last valid range figure position to prevent jarring animations
@@ -48,14 +56,15 @@ export default function YAxis({ label }: YAxisProps) {
 		// Priority 1: Selected airliner
 		if (selectedAirlinerID && data) {
 			const airliner = data.find(d => d.airlinerID === selectedAirlinerID);
-			if (airliner?.airlinerData.rangeKM) {
-				const y = viewportScale.y(airliner.airlinerData.rangeKM);
+			const value = airliner && getAirlinerAxisValues(airliner.airlinerData, axes.y)[0];
+			if (value) {
+				const y = viewportScale.y(value);
 				if (y !== undefined && y !== null) {
 					const position = Number(y);
 					setLastValidPosition(position);
 					return {
 						y: position,
-						rangeKM: airliner.airlinerData.rangeKM,
+						value,
 						state: 'selected' as const,
 						source: 'airliner' as const,
 					};
@@ -66,14 +75,15 @@ export default function YAxis({ label }: YAxisProps) {
 		// Priority 2: Hovered airliner
 		if (hoveredAirlinerID && data) {
 			const airliner = data.find(d => d.airlinerID === hoveredAirlinerID);
-			if (airliner?.airlinerData.rangeKM) {
-				const y = viewportScale.y(airliner.airlinerData.rangeKM);
+			const value = airliner && getAirlinerAxisValues(airliner.airlinerData, axes.y)[0];
+			if (value) {
+				const y = viewportScale.y(value);
 				if (y !== undefined && y !== null) {
 					const position = Number(y);
 					setLastValidPosition(position);
 					return {
 						y: position,
-						rangeKM: airliner.airlinerData.rangeKM,
+						value,
 						state: 'hovered' as const,
 						source: 'airliner' as const,
 					};
@@ -87,7 +97,7 @@ export default function YAxis({ label }: YAxisProps) {
 			setLastValidPosition(position);
 			return {
 				y: position,
-				rangeKM: null,
+				value: null,
 				state: 'mouse' as const,
 				source: 'mouse' as const,
 			};
@@ -97,7 +107,7 @@ export default function YAxis({ label }: YAxisProps) {
 		if (lastValidPosition !== null) {
 			return {
 				y: lastValidPosition,
-				rangeKM: null,
+				value: null,
 				state: 'cached' as const,
 				source: 'cached' as const,
 			};
@@ -105,7 +115,17 @@ export default function YAxis({ label }: YAxisProps) {
 
 		// No active position and no cached position
 		return null;
-	}, [hoveredAirlinerID, selectedAirlinerID, data, viewportScale.y, mouse.coordinates, mouse.isOverChart, lastValidPosition]);
+	}, [hoveredAirlinerID, selectedAirlinerID, data, viewportScale.y, mouse.coordinates, mouse.isOverChart, lastValidPosition, axes]);
+
+	// === Other Selected Airliners ===
+	// The range figure follows the primary selection; the other selected airliners each get a fixed readout of their own
+	const otherSelectedFigures = useMemo(() => selectedAirlinerIDs
+		.filter(id => id !== selectedAirlinerID)
+		.flatMap(id => {
+			const airliner = data?.find(d => d.airlinerID === id);
+			const value = airliner && getAirlinerAxisValues(airliner.airlinerData, axes.y)[0];
+			return value ? [{ airlinerID: id, y: Number(viewportScale.y(value)), value }] : [];
+		}), [selectedAirlinerIDs, selectedAirlinerID, data, viewportScale.y, axes]);
 
 	// === State-based CSS classes helper ===
 	// Pre-compute state-specific CSS classes to avoid duplication
@@ -117,6 +137,13 @@ export default function YAxis({ label }: YAxisProps) {
 			   rangeFigure.state === 'cached' ? "" : ""; // No special styling for cached state
 	}, [rangeFigure]);
 
+	// === Ticks ===
+	// Ticks of a distance fall on round values of the reader's unit
+	const ticks = useMemo(
+		() => getAirlinerAxisTicks(axes.y, animatedScale.y.domain() as number[], distanceUnit),
+		[axes.y, animatedScale.y, distanceUnit]
+	);
+
 	return (
 		<g style={{transform: `translateX(${width}px)`}}>
 
@@ -134,14 +161,8 @@ export default function YAxis({ label }: YAxisProps) {
 				scale={animatedScale.y}
 				numTicks={10}
 				tickLength={4}
-				tickFormat={d => {
-					const n = Number(d);
-					if (isNaN(n)) return "";
-					if (Math.abs(n) >= 1000) {
-						return (n / 1000).toFixed(1);
-					}
-					return n.toString();
-				}} /* Format numbers in thousands, e.g. 2000 -> 2k */
+				tickValues={ticks.tickValues}
+				tickFormat={ticks.tickFormat && (d => ticks.tickFormat!(Number(d)))} /* e.g. range in thousands, 2000 -> 2.0 */
 				
 				axisClassName="axis"
 				axisLineClassName="axisLine"
@@ -158,6 +179,32 @@ export default function YAxis({ label }: YAxisProps) {
 				{label}
 			</text>
 
+			{/* Readouts of the other selected airliners */}
+			{otherSelectedFigures.map(figure => (
+				<g
+					key={figure.airlinerID}
+					className="yAxisReadout selectedAirliner"
+					transform={`translate(0, ${figure.y})`}
+				>
+					<RectCentre
+						cx={-width / 2}
+						cy={0}
+						width={width}
+						height={32}
+						className="yAxisReadoutBox selectedAirliner"
+					/>
+					<Text
+						x={0}
+						y={0}
+						className="yAxisReadoutText selectedAirliner"
+						textAnchor="end"
+						verticalAnchor="middle"
+					>
+						{Math.round(convertAirlinerAxisValue(axes.y, figure.value, distanceUnit))}
+					</Text>
+				</g>
+			))}
+
 			{/* Range figure group - always renders, follows mouse or snaps to airliners */}
 			<g
 				className={`yAxisReadout ${stateClass}`}
@@ -179,9 +226,9 @@ export default function YAxis({ label }: YAxisProps) {
 					verticalAnchor="middle"
 				>
 					{rangeFigure && rangeFigure.source === 'airliner' 
-						? rangeFigure.rangeKM 
+						? Math.round(convertAirlinerAxisValue(axes.y, rangeFigure.value!, distanceUnit))
 						: rangeFigure && rangeFigure.source === 'mouse' && mouse.coordinates
-							? Math.round((viewportScale.y as any).invert(mouse.coordinates.screen.y))
+							? Math.round(convertAirlinerAxisValue(axes.y, (viewportScale.y as any).invert(mouse.coordinates.screen.y), distanceUnit))
 							: ""
 					}
 				</Text>
@@ -0,0 +1,57 @@
+"use client";
+
+// [IMPORT] React //
+import React, { createContext, useContext, ReactNode } from "react";
+
+// [IMPORT] Utilities //
+import { DEFAULT_AIRLINER_AXES } from "@/lib/data/airliner-axis-metrics";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerAxes } from "@/lib/data/airliner-axis-metrics";
+
+/**
+ * AirlinerAxesContext
+ *
+ * React context carrying the metrics plotted on each axis of the chart.
+ * Defaults to passenger capacity against range.
+ */
+const AirlinerAxesContext = createContext<AirlinerAxes>(DEFAULT_AIRLINER_AXES);
+
+/**
+ * AirlinerAxesProvider Props
+ *
+ * @property {AirlinerAxes} axes - The metrics plotted on each axis
+ * @property {ReactNode} children - Child components that will have access to the axes
+ */
+interface AirlinerAxesProviderProps {
+	axes: AirlinerAxes;
+	children: ReactNode;
+}
+
+/**
+ * AirlinerAxesProvider
+ *
+ * Context provider component that makes the chart's axis metrics available to chart components.
+ *
+ * @param {AirlinerAxesProviderProps} props - Provider props containing the axes and children
+ * @returns {JSX.Element} Context provider wrapping children
+ */
+export function AirlinerAxesProvider({ axes, children }: AirlinerAxesProviderProps) {
+	return (
+		<AirlinerAxesContext.Provider value={axes}>
+			{children}
+		</AirlinerAxesContext.Provider>
+	);
+}
+
+/**
+ * useAirlinerAxes
+ *
+ * Custom hook to access the chart's axis metrics.
+ * May be used without a provider, in which case the default axes are returned.
+ *
+ * @returns {AirlinerAxes} The metrics plotted on each axis
+ */
+export function useAirlinerAxes(): AirlinerAxes {
+	return useContext(AirlinerAxesContext);
+}
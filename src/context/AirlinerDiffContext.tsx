@@ -0,0 +1,55 @@
+"use client";
+
+// [IMPORT] React //
+import React, { createContext, useContext, ReactNode } from "react";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerDataDiff } from "@/lib/data/airliner-data-diff";
+
+/**
+ * AirlinerDiffContext
+ *
+ * React context carrying the difference between the charted dataset and an earlier snapshot
+ * of it, for compare mode. Null when the chart is not comparing datasets.
+ */
+const AirlinerDiffContext = createContext<AirlinerDataDiff | null>(null);
+
+/**
+ * AirlinerDiffProvider Props
+ *
+ * @property {AirlinerDataDiff | null} diff - The dataset difference, or null outside compare mode
+ * @property {ReactNode} children - Child components that will have access to the diff
+ */
+interface AirlinerDiffProviderProps {
+	diff: AirlinerDataDiff | null;
+	children: ReactNode;
+}
+
+/**
+ * AirlinerDiffProvider
+ *
+ * Context provider component that makes the dataset difference available to chart components.
+ *
+ * @param {AirlinerDiffProviderProps} props - Provider props containing the diff and children
+ * @returns {JSX.Element} Context provider wrapping children
+ */
+export function AirlinerDiffProvider({ diff, children }: AirlinerDiffProviderProps) {
+	return (
+		<AirlinerDiffContext.Provider value={diff}>
+			{children}
+		</AirlinerDiffContext.Provider>
+	);
+}
+
+/**
+ * useAirlinerDiff
+ *
+ * Custom hook to access the dataset difference.
+ * Unlike the selection context, this may be used without a provider, in which case
+ * the chart is not comparing datasets.
+ *
+ * @returns {AirlinerDataDiff | null} The dataset difference, or null outside compare mode
+ */
+export function useAirlinerDiff(): AirlinerDataDiff | null {
+	return useContext(AirlinerDiffContext);
+}
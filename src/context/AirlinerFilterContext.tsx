@@ -0,0 +1,77 @@
+"use client";
+
+// [IMPORT] React //
+import React, { createContext, useContext, ReactNode } from "react";
+
+// [IMPORT] Utilities //
+import { EMPTY_AIRLINER_FILTER } from "@/lib/data/airliner-filters";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerFilter } from "@/lib/data/airliner-filters";
+
+/**
+ * @type {AirlinerFilterContextType}
+ * @description The filter deciding which airliners are charted and listed.
+ *
+ * @property {AirlinerFilter} filter - The facets and ranges airliners must match
+ * @property {function} setFilter - Changes the filter
+ */
+type AirlinerFilterContextType = {
+	filter: AirlinerFilter;
+	setFilter: (filter: AirlinerFilter) => void;
+}
+
+/**
+ * AirlinerFilterContext
+ *
+ * React context carrying the airliner filter, shared by the chart and the data table
+ * so that both show the same airliners. Defaults to a filter that keeps every airliner.
+ */
+const AirlinerFilterContext = createContext<AirlinerFilterContextType>({
+	filter: EMPTY_AIRLINER_FILTER,
+	setFilter: () => {
+		console.warn("Filter setter called but no AirlinerFilterProvider found");
+	},
+});
+
+/**
+ * AirlinerFilterProvider Props
+ *
+ * @property {AirlinerFilter} filter - The facets and ranges airliners must match
+ * @property {function} setFilter - Changes the filter
+ * @property {ReactNode} children - Child components that will have access to the filter
+ */
+interface AirlinerFilterProviderProps {
+	filter: AirlinerFilter;
+	setFilter: (filter: AirlinerFilter) => void;
+	children: ReactNode;
+}
+
+/**
+ * AirlinerFilterProvider
+ *
+ * Context provider component that makes the airliner filter available to the chart and data table.
+ * The filter is held by the parent, so that it outlives the chart when a new dataset is loaded.
+ *
+ * @param {AirlinerFilterProviderProps} props - Provider props containing the filter, its setter and children
+ * @returns {JSX.Element} Context provider wrapping children
+ */
+export function AirlinerFilterProvider({ filter, setFilter, children }: AirlinerFilterProviderProps) {
+	return (
+		<AirlinerFilterContext.Provider value={{ filter, setFilter }}>
+			{children}
+		</AirlinerFilterContext.Provider>
+	);
+}
+
+/**
+ * useAirlinerFilter
+ *
+ * Custom hook to access the airliner filter.
+ * May be used without a provider, in which case every airliner is kept.
+ *
+ * @returns {AirlinerFilterContextType} The filter and its setter
+ */
+export function useAirlinerFilter(): AirlinerFilterContextType {
+	return useContext(AirlinerFilterContext);
+}
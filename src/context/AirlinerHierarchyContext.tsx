@@ -0,0 +1,56 @@
+"use client";
+
+// [IMPORT] React //
+import React, { createContext, useContext, ReactNode } from "react";
+
+// [IMPORT] Utilities //
+import { createAirlinerHierarchy } from "@/lib/data/airliner-hierarchy";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerHierarchy } from "@/lib/data/airliner-hierarchy";
+
+/**
+ * AirlinerHierarchyContext
+ *
+ * React context carrying the charted dataset's manufacturer → family → generation → variant hierarchy,
+ * so that components can find an airliner's relatives. Defaults to an empty hierarchy.
+ */
+const AirlinerHierarchyContext = createContext<AirlinerHierarchy>(createAirlinerHierarchy([]));
+
+/**
+ * AirlinerHierarchyProvider Props
+ *
+ * @property {AirlinerHierarchy} hierarchy - The hierarchy of the charted dataset
+ * @property {ReactNode} children - Child components that will have access to the hierarchy
+ */
+interface AirlinerHierarchyProviderProps {
+	hierarchy: AirlinerHierarchy;
+	children: ReactNode;
+}
+
+/**
+ * AirlinerHierarchyProvider
+ *
+ * Context provider component that makes the dataset hierarchy available to chart components.
+ *
+ * @param {AirlinerHierarchyProviderProps} props - Provider props containing the hierarchy and children
+ * @returns {JSX.Element} Context provider wrapping children
+ */
+export function AirlinerHierarchyProvider({ hierarchy, children }: AirlinerHierarchyProviderProps) {
+	return (
+		<AirlinerHierarchyContext.Provider value={hierarchy}>
+			{children}
+		</AirlinerHierarchyContext.Provider>
+	);
+}
+
+/**
+ * useAirlinerHierarchy
+ *
+ * Custom hook to access the dataset hierarchy and its query helpers.
+ *
+ * @returns {AirlinerHierarchy} The hierarchy of the charted dataset
+ */
+export function useAirlinerHierarchy(): AirlinerHierarchy {
+	return useContext(AirlinerHierarchyContext);
+}
@@ -7,23 +7,37 @@ import React, { createContext, useContext, useState, useCallback, ReactNode } fr
  * AirlinerSelectionState
  * 
  * Defines the state and actions for managing airliner selection and hover interactions.
+ * Any number of airliners can be selected at once. The most recently selected is the primary one,
+ * which is what single-selection views such as the info panel show.
  * 
- * @property {string | null} selectedAirlinerID - The currently selected airliner ID, or null if none selected
+ * @property {string[]} selectedAirlinerIDs - The selected airliner IDs, in the order they were selected
+ * @property {string | null} selectedAirlinerID - The primary selected airliner ID, the last one selected, or null if none selected
  * @property {string | null} hoveredAirlinerID - The currently hovered airliner ID, or null if none hovered
  * @property {number | null} selectedClusterIndex - The currently selected cluster index, or null if none selected
  * @property {number | null} hoveredClusterIndex - The currently hovered cluster index, or null if none hovered
- * @property {function} setSelectedAirliner - Function to set the selected airliner ID
+ * @property {function} isAirlinerSelected - Function to check whether an airliner ID is selected
+ * @property {function} setSelectedAirliner - Function to select just one airliner ID, clearing everything else, or nothing with null
+ * @property {function} addSelectedAirliner - Function to add an airliner ID to the selection, making it the primary one
+ * @property {function} removeSelectedAirliner - Function to remove an airliner ID from the selection
+ * @property {function} toggleSelectedAirliner - Function to add an airliner ID to the selection, or remove it if already selected
+ * @property {function} replaceSelectedAirliners - Function to select exactly the given airliner IDs, the last becoming the primary one
  * @property {function} setHoveredAirliner - Function to set the hovered airliner ID
  * @property {function} setSelectedCluster - Function to set the selected cluster index
  * @property {function} setHoveredCluster - Function to set the hovered cluster index
  * @property {function} clearSelection - Function to clear both selection and hover states
  */
 interface AirlinerSelectionState {
+	selectedAirlinerIDs: string[];
 	selectedAirlinerID: string | null;
 	hoveredAirlinerID: string | null;
 	selectedClusterIndex: number | null;
 	hoveredClusterIndex: number | null;
+	isAirlinerSelected: (id: string) => boolean;
 	setSelectedAirliner: (id: string | null) => void;
+	addSelectedAirliner: (id: string) => void;
+	removeSelectedAirliner: (id: string) => void;
+	toggleSelectedAirliner: (id: string) => void;
+	replaceSelectedAirliners: (ids: string[]) => void;
 	setHoveredAirliner: (id: string | null) => void;
 	setSelectedCluster: (index: number | null) => void;
 	setHoveredCluster: (index: number | null) => void;
@@ -58,18 +72,47 @@ interface AirlinerSelectionProviderProps {
 export function AirlinerSelectionProvider({ children }: AirlinerSelectionProviderProps) {
 	// === State Management ===
 	// Track currently selected and hovered airliner IDs
-	const [selectedAirlinerID, setSelectedAirlinerID] = useState<string | null>(null);
+	// Selected IDs are kept in the order they were selected, the last being the primary one
+	const [selectedAirlinerIDs, setSelectedAirlinerIDs] = useState<string[]>([]);
 	const [hoveredAirlinerID, setHoveredAirlinerID] = useState<string | null>(null);
+	const selectedAirlinerID = selectedAirlinerIDs.length > 0 ? selectedAirlinerIDs[selectedAirlinerIDs.length - 1] : null;
 	
 	// Track currently selected and hovered cluster indices
 	const [selectedClusterIndex, setSelectedClusterIndex] = useState<number | null>(null);
 	const [hoveredClusterIndex, setHoveredClusterIndex] = useState<number | null>(null);
 
 	// === Action Handlers ===
-	// Set the selected airliner ID
+	// Check whether an airliner ID is selected
+	const isAirlinerSelected = useCallback((id: string) => selectedAirlinerIDs.includes(id), [selectedAirlinerIDs]);
+
+	// Set the selected airliner ID, clearing any other selection
 	const setSelectedAirliner = useCallback((id: string | null) => {
 		clearSelection();
-		setSelectedAirlinerID(id);
+		setSelectedAirlinerIDs(id !== null ? [id] : []);
+	}, []);
+
+	// Add an airliner ID to the selection, moving it to the end if already selected so that it becomes the primary one
+	// Airliner and cluster selections are exclusive, so any selected cluster is cleared
+	const addSelectedAirliner = useCallback((id: string) => {
+		setSelectedClusterIndex(null);
+		setSelectedAirlinerIDs(ids => [...ids.filter(selectedID => selectedID !== id), id]);
+	}, []);
+
+	// Remove an airliner ID from the selection
+	const removeSelectedAirliner = useCallback((id: string) => {
+		setSelectedAirlinerIDs(ids => ids.filter(selectedID => selectedID !== id));
+	}, []);
+
+	// Add an airliner ID to the selection, or remove it if it is already selected
+	const toggleSelectedAirliner = useCallback((id: string) => {
+		setSelectedClusterIndex(null);
+		setSelectedAirlinerIDs(ids => ids.includes(id) ? ids.filter(selectedID => selectedID !== id) : [...ids, id]);
+	}, []);
+
+	// Select exactly the given airliner IDs, dropping duplicates
+	const replaceSelectedAirliners = useCallback((ids: string[]) => {
+		setSelectedClusterIndex(null);
+		setSelectedAirlinerIDs(Array.from(new Set(ids)));
 	}, []);
 
 	// Set the hovered airliner ID
@@ -90,7 +133,7 @@ export function AirlinerSelectionProvider({ children }: AirlinerSelectionProvide
 
 	// Clear both selection and hover states
 	const clearSelection = useCallback(() => {
-		setSelectedAirlinerID(null);
+		setSelectedAirlinerIDs([]);
 		setHoveredAirlinerID(null);
 		setSelectedClusterIndex(null);
 		setHoveredClusterIndex(null);
@@ -99,11 +142,17 @@ export function AirlinerSelectionProvider({ children }: AirlinerSelectionProvide
 	// === Context Value ===
 	// Create the context value object with state and actions
 	const contextValue: AirlinerSelectionState = {
+		selectedAirlinerIDs,
 		selectedAirlinerID,
 		hoveredAirlinerID,
 		selectedClusterIndex,
 		hoveredClusterIndex,
+		isAirlinerSelected,
 		setSelectedAirliner,
+		addSelectedAirliner,
+		removeSelectedAirliner,
+		toggleSelectedAirliner,
+		replaceSelectedAirliners,
 		setHoveredAirliner,
 		setSelectedCluster,
 		setHoveredCluster,
@@ -0,0 +1,75 @@
+"use client";
+
+// [IMPORT] React //
+import React, { createContext, useContext, ReactNode } from "react";
+
+// [IMPORT] Types/interfaces //
+import type { DistanceUnit } from "@/lib/data/airliner-units";
+
+/**
+ * @type {AirlinerUnitsContextType}
+ * @description The reader's unit preference.
+ *
+ * @property {DistanceUnit} distanceUnit - The unit distances, such as range, are shown in
+ * @property {function} setDistanceUnit - Changes the distance unit
+ */
+type AirlinerUnitsContextType = {
+	distanceUnit: DistanceUnit;
+	setDistanceUnit: (distanceUnit: DistanceUnit) => void;
+}
+
+/**
+ * AirlinerUnitsContext
+ *
+ * React context carrying the units values are shown in. Data is always stored in
+ * canonical units (kilometres); components convert values only when showing them.
+ * Defaults to kilometres.
+ */
+const AirlinerUnitsContext = createContext<AirlinerUnitsContextType>({
+	distanceUnit: "km",
+	setDistanceUnit: () => {
+		console.warn("Distance unit setter called but no AirlinerUnitsProvider found");
+	},
+});
+
+/**
+ * AirlinerUnitsProvider Props
+ *
+ * @property {DistanceUnit} distanceUnit - The unit distances are shown in
+ * @property {function} setDistanceUnit - Changes the distance unit
+ * @property {ReactNode} children - Child components that will have access to the units
+ */
+interface AirlinerUnitsProviderProps {
+	distanceUnit: DistanceUnit;
+	setDistanceUnit: (distanceUnit: DistanceUnit) => void;
+	children: ReactNode;
+}
+
+/**
+ * AirlinerUnitsProvider
+ *
+ * Context provider component that makes the unit preference available to the chart and data table.
+ * The preference is held by the parent, so that it outlives the chart when a new dataset is loaded.
+ *
+ * @param {AirlinerUnitsProviderProps} props - Provider props containing the units, their setter and children
+ * @returns {JSX.Element} Context provider wrapping children
+ */
+export function AirlinerUnitsProvider({ distanceUnit, setDistanceUnit, children }: AirlinerUnitsProviderProps) {
+	return (
+		<AirlinerUnitsContext.Provider value={{ distanceUnit, setDistanceUnit }}>
+			{children}
+		</AirlinerUnitsContext.Provider>
+	);
+}
+
+/**
+ * useAirlinerUnits
+ *
+ * Custom hook to access the unit preference.
+ * May be used without a provider, in which case distances are shown in kilometres.
+ *
+ * @returns {AirlinerUnitsContextType} The distance unit and its setter
+ */
+export function useAirlinerUnits(): AirlinerUnitsContextType {
+	return useContext(AirlinerUnitsContext);
+}
@@ -1,11 +1,9 @@
 // [IMPORT] React and core libraries //
 import React, { createContext, useContext, ReactNode, useState, useMemo, useEffect, useRef, useImperativeHandle, forwardRef } from "react";
 
-// [IMPORT] Third-party libraries //
-import { AxisScale } from "@visx/axis";
-
 // [IMPORT] Internal context //
 import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
+import type { ChartScale } from "@/context/ResponsiveChartViewport";
 
 /**
  * @interface AnimatedChartViewportType
@@ -21,8 +19,8 @@ import { useResponsiveChartViewport } from "@/context/ResponsiveChartViewport";
  */
 interface AnimatedChartViewportType {
 	animatedScale: {
-		x: AxisScale;
-		y: AxisScale;
+		x: ChartScale;
+		y: ChartScale;
 	};
 	setAnimationDuration: (duration: number) => void;
 }
@@ -42,8 +40,8 @@ interface AnimatedChartViewportType {
  */
 interface AnimatedChartViewportRefType {
 	animatedScale: {
-		x: AxisScale;
-		y: AxisScale;
+		x: ChartScale;
+		y: ChartScale;
 	};
 	setAnimationDuration: (duration: number) => void;
 	isAnimating: boolean;
@@ -154,7 +152,7 @@ export const AnimatedChartViewport = forwardRef<AnimatedChartViewportRefType, An
 	}, [targetViewportScales, animationDuration]);
 
 	// Helper function to interpolate between two scales
-	const interpolateScale = (startScale: AxisScale, endScale: AxisScale, progress: number): AxisScale => {
+	const interpolateScale = (startScale: ChartScale, endScale: ChartScale, progress: number): ChartScale => {
 		// Create a new scale with interpolated domain
 		const startDomain = startScale.domain();
 		const endDomain = endScale.domain();
@@ -2,10 +2,16 @@
 import React, { createContext, useContext, useState, useRef, useMemo, useCallback, useEffect, ReactNode, useImperativeHandle, forwardRef } from "react";
 
 // [IMPORT] Third-party libraries //
-import { AxisScale } from "@visx/axis";
 import { scaleLinear } from "@visx/scale";
+import type { PickD3Scale } from "@visx/scale";
 import { useDrag, useWheel } from "@use-gesture/react";
 
+/**
+ * @type {ChartScale}
+ * A linear scale from data values on one axis to SVG coordinates, with `invert` to map back.
+ */
+export type ChartScale = PickD3Scale<"linear", number>;
+
 /**
  * @interface ViewportState
  * Represents the current visible region of the chart in data-space coordinates.
@@ -25,6 +31,35 @@ interface ViewportState {
 	y: [number, number];
 }
 
+/**
+ * @interface ViewportHistory
+ * The viewports the user has settled on, for stepping back and forth between them.
+ *
+ * - `entries`: The committed viewports, oldest first, at most `VIEWPORT_HISTORY_LIMIT` of them.
+ * - `index`: The index of the entry the viewport was last committed as or stepped to.
+ * - `stepCount`: How many times undo or redo has stepped the viewport, so that a change can be told apart as a step.
+ */
+interface ViewportHistory {
+	entries: ViewportState[];
+	index: number;
+	stepCount: number;
+}
+
+// The most viewports the history keeps; the oldest are dropped first
+const VIEWPORT_HISTORY_LIMIT = 50;
+
+// How long the viewport has to stay put, outside a drag, to be committed to the history
+// Long enough for a burst of wheel zooms to make a single entry
+const VIEWPORT_COMMIT_DELAY = 300;
+
+/**
+ * @function isSameViewport
+ * Checks whether two viewports show exactly the same domains.
+ */
+function isSameViewport(a: ViewportState, b: ViewportState): boolean {
+	return a.x[0] === b.x[0] && a.x[1] === b.x[1] && a.y[0] === b.y[0] && a.y[1] === b.y[1];
+}
+
 /**
  * @interface MouseCoordinates
  * Represents mouse coordinates in both screen space and data space
@@ -82,6 +117,14 @@ interface DragConfig {
  * @property {Object} drag Drag interaction functions.
  *   - `bindDrag`: Returns gesture bind props for drag interactions with optional configuration.
  *   - `isDragging`: Whether a drag operation is currently in progress.
+ * @property {Object} history Undo and redo over the viewports the user has settled on.
+ *   A viewport is committed once it has stayed put for a moment outside a drag, so a drag or a burst of wheel zooms is one step.
+ *   - `undo`: Go back to the previous committed viewport, or to the last one if the viewport has moved since.
+ *   - `redo`: Go forward to the next committed viewport.
+ *   - `canUndo`: Whether there is a viewport to go back to.
+ *   - `canRedo`: Whether there is a viewport to go forward to.
+ *   - `stepCount`: How many undo and redo steps have been taken, which changes with each step.
+ *   - `replace`: Move to a viewport without adding a step, replacing the current one, e.g. for a view restored from the URL.
  */
 interface ResponsiveChartViewportType {
 	plotArea: {
@@ -89,12 +132,12 @@ interface ResponsiveChartViewportType {
 		height: number;// previously plotHeight
 	};
 	dataScale: {
-		x: AxisScale;	// previously xScale
-		y: AxisScale;	// previously yScale
+		x: ChartScale;	// previously xScale
+		y: ChartScale;	// previously yScale
 	};
 	viewportScale: {
-		x: AxisScale;	// previously xScaleView
-		y: AxisScale;	// previously yScaleView
+		x: ChartScale;	// previously xScaleView
+		y: ChartScale;	// previously yScaleView
 	};
 	mouse: {
 		coordinates: MouseCoordinates | null;
@@ -112,6 +155,14 @@ interface ResponsiveChartViewportType {
 		bindDrag: (config?: Partial<DragConfig>) => any;
 		isDragging: boolean;
 	},
+	history: {
+		undo: () => void;
+		redo: () => void;
+		canUndo: boolean;
+		canRedo: boolean;
+		stepCount: number;
+		replace: (extents?: { x: [number, number]; y: [number, number] }) => void;
+	},
 }
 
 /**
@@ -424,6 +475,23 @@ export function ResponsiveChartViewport<T>({
 	const [isDragging, setIsDragging] = useState(false);
 	const dragStartViewport = useRef<ViewportState | null>(null);
 
+	// Committed viewports for undo and redo, starting with the initial one
+	const [viewportHistory, setViewportHistory] = useState<ViewportHistory>(() => ({ entries: [viewport], index: 0, stepCount: 0 }));
+
+	// Commit the viewport once it has settled, dropping any entries ahead of the current one
+	useEffect(() => {
+		if (isDragging) return;
+
+		const timeout = setTimeout(() => {
+			setViewportHistory(history => {
+				if (isSameViewport(history.entries[history.index], viewport)) return history;
+				const entries = [...history.entries.slice(0, history.index + 1), viewport].slice(-VIEWPORT_HISTORY_LIMIT);
+				return { ...history, entries, index: entries.length - 1 };
+			});
+		}, VIEWPORT_COMMIT_DELAY);
+		return () => clearTimeout(timeout);
+	}, [viewport, isDragging]);
+
 	// Mouse tracking state
 	const [mouseCoordinates, setMouseCoordinates] = useState<MouseCoordinates | null>(null);
 	const [isMouseOverChart, setIsMouseOverChart] = useState(false);
@@ -792,6 +860,72 @@ export function ResponsiveChartViewport<T>({
 		});
 	}
 
+	// Whether the viewport has moved since it was last committed or stepped to
+	const hasUncommittedViewport = !isSameViewport(viewportHistory.entries[viewportHistory.index], viewport);
+
+	/**
+	 * @function undoViewport
+	 * 
+	 * Go back to the previous committed viewport. If the viewport has moved since the last commit,
+	 * go back to the last committed viewport instead, so that a change still settling is undone first.
+	 * 
+	 * @example
+	 * ```jsx
+	 * <button onClick={() => {
+	 * 	if (viewportRef.current) {
+	 * 	  viewportRef.current.history.undo();
+	 * 	}
+	 * }}>
+	 * 	Undo
+	 * </button>
+	 * ```
+	 */
+	const undoViewport = useCallback(() => {
+		const index = hasUncommittedViewport ? viewportHistory.index : viewportHistory.index - 1;
+		if (index < 0) return;
+
+		setViewportHistory({ ...viewportHistory, index, stepCount: viewportHistory.stepCount + 1 });
+		setViewport(viewportHistory.entries[index]);
+	}, [viewportHistory, hasUncommittedViewport]);
+
+	/**
+	 * @function redoViewport
+	 * 
+	 * Go forward to the next committed viewport, after undoing.
+	 */
+	const redoViewport = useCallback(() => {
+		const index = viewportHistory.index + 1;
+		if (index >= viewportHistory.entries.length) return;
+
+		setViewportHistory({ ...viewportHistory, index, stepCount: viewportHistory.stepCount + 1 });
+		setViewport(viewportHistory.entries[index]);
+	}, [viewportHistory]);
+
+	/**
+	 * @function replaceViewport
+	 * 
+	 * Move the viewport to the given extents, or to its initial state, in place of the current history entry
+	 * instead of adding one, so that undo skips over it. For views restored from elsewhere, such as the page URL,
+	 * which keeps a history of its own.
+	 * 
+	 * @example
+	 * ```jsx
+	 * viewportRef.current.history.replace({ x: [100, 300], y: [2000, 8000] });
+	 * ```
+	 */
+	function replaceViewport(extents?: ViewportState) {
+		const replacement = {
+			x: applyAllConstraints(extents?.x ?? initialViewport?.x ?? xDomain, 'x', viewportConstraints),
+			y: applyAllConstraints(extents?.y ?? initialViewport?.y ?? yDomain, 'y', viewportConstraints),
+		};
+
+		setViewportHistory(history => ({
+			...history,
+			entries: history.entries.map((entry, index) => index === history.index ? replacement : entry),
+		}));
+		setViewport(replacement);
+	}
+
 	/**
 	 * @function createDragHandler
 	 * Creates a drag handler function based on configuration
@@ -964,7 +1098,15 @@ export function ResponsiveChartViewport<T>({
 			bindDrag: bindDragConfigurable,
 			isDragging,
 		},
-	}), [width, height, xScale, yScale, xScaleView, yScaleView, mouseCoordinates, isMouseOverChart, updateMouseCoordinates, translateViewport, zoomViewport, resetViewport, zoomToExtents, zoomToFit, bindDragConfigurable, isDragging]);
+		history: {
+			undo: undoViewport,
+			redo: redoViewport,
+			canUndo: viewportHistory.index > 0 || hasUncommittedViewport,
+			canRedo: viewportHistory.index < viewportHistory.entries.length - 1,
+			stepCount: viewportHistory.stepCount,
+			replace: replaceViewport,
+		},
+	}), [width, height, xScale, yScale, xScaleView, yScaleView, mouseCoordinates, isMouseOverChart, updateMouseCoordinates, translateViewport, zoomViewport, resetViewport, zoomToExtents, zoomToFit, bindDragConfigurable, isDragging, undoViewport, redoViewport, replaceViewport, viewportHistory, hasUncommittedViewport]);
 
 	// Expose viewport functions via ref if provided
 	useImperativeHandle(viewportRef, () => viewportManager, [viewportManager]);
@@ -1002,6 +1144,13 @@ export function ResponsiveChartViewport<T>({
  * @property {Object} drag Drag interaction functions.
  *   - `bindDrag`: Returns gesture bind props for drag interactions with optional configuration.
  *   - `isDragging`: Whether a drag operation is currently in progress.
+ * @property {Object} history Undo and redo over the viewports the user has settled on.
+ *   - `undo`: Go back to the previous committed viewport.
+ *   - `redo`: Go forward to the next committed viewport.
+ *   - `canUndo`: Whether there is a viewport to go back to.
+ *   - `canRedo`: Whether there is a viewport to go forward to.
+ *   - `stepCount`: How many undo and redo steps have been taken, which changes with each step.
+ *   - `replace`: Move to a viewport without adding a step, replacing the current one, e.g. for a view restored from the URL.
  */
 export function useResponsiveChartViewport(): ResponsiveChartViewportType {
 	const context = useContext(ResponsiveChartViewportContext);
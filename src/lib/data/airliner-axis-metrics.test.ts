@@ -0,0 +1,32 @@
+// [IMPORT] Testing //
+import { describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { DEFAULT_AIRLINER_AXES, getAirlinerIDsInView } from "@/lib/data/airliner-axis-metrics";
+import { createAirlinerData } from "@/lib/data/airliner-dataset";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerStats } from "@/lib/data/airliner-types";
+
+const DATA = createAirlinerData([
+	{ manufacturer: "Airbus", family: "A320", nameICAO: "A320", idNumber: 2, status: "active", firstDelivery: 1988, rangeKM: 6100, pax2Class: 150 },
+	{ manufacturer: "Airbus", family: "A320", nameICAO: "A20N", idNumber: 5, status: "active", firstDelivery: 2016, rangeKM: 6500, pax2Class: 165 },
+	{ manufacturer: "Airbus", family: "A350", nameICAO: "A359", idNumber: 15, status: "active", firstDelivery: 2015, rangeKM: 15372, pax2Class: 315 },
+	{ manufacturer: "Airbus", family: "A350", nameICAO: "A35K", idNumber: 17, status: "active", firstDelivery: 2019 },
+] as AirlinerStats[]);
+
+const NARROWBODY_VIEWPORT = { x: [100, 200], y: [4000, 8000] };
+
+describe("getAirlinerIDsInView", () => {
+	it("finds the plotted airliners overlapping the viewport", () => {
+		expect(getAirlinerIDsInView(DATA, DEFAULT_AIRLINER_AXES, NARROWBODY_VIEWPORT)).toEqual(["2-A320", "5-A20N"]);
+	});
+
+	it("leaves out airliners the timeline has not reached yet", () => {
+		expect(getAirlinerIDsInView(DATA, DEFAULT_AIRLINER_AXES, NARROWBODY_VIEWPORT, 2000)).toEqual(["2-A320"]);
+	});
+
+	it("leaves out airliners without values for the axes", () => {
+		expect(getAirlinerIDsInView(DATA, DEFAULT_AIRLINER_AXES, { x: [0, 1000], y: [0, 20000] })).toEqual(["2-A320", "5-A20N", "15-A359"]);
+	});
+});
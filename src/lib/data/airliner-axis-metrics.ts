@@ -0,0 +1,392 @@
+// [IMPORT] Third-party libraries //
+import { scaleLinear } from "@visx/scale";
+
+// [IMPORT] Utilities //
+import { convertDistance, DISTANCE_UNIT_INFO } from "@/lib/data/airliner-units";
+import { getAirlinerFieldValue } from "@/lib/data/airliner-derived-fields";
+import { getAirlinerTimelineState } from "@/lib/data/airliner-timeline";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerData, AirlinerStats, AirlinerMarker } from "@/lib/data/airliner-types";
+import type { DistanceUnit } from "@/lib/data/airliner-units";
+import type { AirlinerDerivedFieldID } from "@/lib/data/airliner-derived-fields";
+
+/**
+ * @type {AirlinerNumericField}
+ * @description The fields holding numbers, which can be plotted on an axis:
+ * the numeric `AirlinerStats` fields and every derived field.
+ */
+export type AirlinerNumericField = {
+	[K in keyof AirlinerStats]-?: NonNullable<AirlinerStats[K]> extends number ? K : never
+}[keyof AirlinerStats] | AirlinerDerivedFieldID;
+
+/**
+ * @type {AirlinerAxisField}
+ * @description A field plotted along an axis.
+ *
+ * @property {AirlinerNumericField} field - The field to plot.
+ * @property {string} markerClass - The class of marker the field is plotted as; see `isClassMarker`.
+ * @property {string} label - A short name for the field, used by axis readouts.
+ */
+export type AirlinerAxisField = {
+	field: AirlinerNumericField;
+	markerClass: AirlinerMarker["markerClass"];
+	label: string;
+}
+
+/**
+ * @type {AirlinerAxisMetric}
+ * @description A metric that can be plotted on a chart axis.
+ *
+ * Most metrics plot a single field as one marker. A series metric, such as passenger capacity,
+ * plots several fields as a row of markers joined by lines, and so can only go on the x-axis.
+ *
+ * @property {string} id - A unique ID for the metric. Single-field metrics use the field name.
+ * @property {string} label - The axis label.
+ * @property {AirlinerAxisField[]} fields - The fields plotted for the metric, in series order.
+ * @property {("x" | "y")[]} axes - The axes the metric can be plotted on.
+ * @property {function} tickFormat - Optional. Formats axis tick values; defaults to the axis's own formatting.
+ * @property {[number, number]} padding - Space added below the smallest and above the largest value in the initial viewport.
+ * @property {[number | null, number | null]} bounds - How far the viewport can be panned, as [min, max].
+ * @property {[number | null, number | null]} extent - How far the viewport can be zoomed, as the [min, max] visible span.
+ * @property {boolean} isDistance - Optional. Whether the metric is a distance in kilometres, shown in the reader's distance unit instead.
+ *   The viewport stays in kilometres; only labels, ticks and readouts are converted.
+ */
+export type AirlinerAxisMetric = {
+	id: string;
+	label: string;
+	fields: AirlinerAxisField[];
+	axes: ("x" | "y")[];
+	tickFormat?: (value: number) => string;
+	padding: [number, number];
+	bounds: [number | null, number | null];
+	extent: [number | null, number | null];
+	isDistance?: boolean;
+}
+
+/**
+ * @type {AirlinerAxes}
+ * @description The metrics plotted on each axis of the chart.
+ */
+export type AirlinerAxes = {
+	x: AirlinerAxisMetric;
+	y: AirlinerAxisMetric;
+}
+
+// Marker classes drawn as the main markers of a series; limit markers are drawn as ticks beyond them
+const CLASS_MARKER_CLASSES: AirlinerMarker["markerClass"][] = ["pax3Class", "pax2Class", "pax1Class", "value"];
+const LIMIT_MARKER_CLASSES: AirlinerMarker["markerClass"][] = ["paxLimit", "paxExit"];
+
+/**
+ * @function isClassMarker
+ * @description Checks whether a marker class is one of a series' main markers, drawn as a diamond.
+ * The main markers are joined by the major connecting line, and anchor the airliner's label.
+ */
+export function isClassMarker(markerClass: AirlinerMarker["markerClass"]): boolean {
+	return CLASS_MARKER_CLASSES.includes(markerClass);
+}
+
+/**
+ * @function isLimitMarker
+ * @description Checks whether a marker class is a limit marker, drawn as a tick beyond a series' main markers.
+ */
+export function isLimitMarker(markerClass: AirlinerMarker["markerClass"]): boolean {
+	return LIMIT_MARKER_CLASSES.includes(markerClass);
+}
+
+/**
+ * @function formatThousands
+ * @description Formats values of 1000 or more in thousands, e.g. 12500 -> 12.5, to go with a "× 1000" axis label.
+ */
+function formatThousands(value: number): string {
+	if (isNaN(value)) return "";
+	if (Math.abs(value) >= 1000) {
+		return (value / 1000).toFixed(1);
+	}
+	return value.toString();
+}
+
+/**
+ * @function formatMillions
+ * @description Formats values in millions, e.g. 1250000 -> 1.25, to go with a "millions" axis label.
+ */
+function formatMillions(value: number): string {
+	return isNaN(value) ? "" : (value / 1000000).toString();
+}
+
+/**
+ * @function formatYear
+ * @description Formats a year without a thousands separator.
+ */
+function formatYear(value: number): string {
+	return isNaN(value) ? "" : Math.round(value).toString();
+}
+
+// Pan and zoom limits shared by the capacity metrics
+const CAPACITY_BOUNDS: [number, number] = [0, 950];
+const CAPACITY_EXTENT: [number, number] = [20, 1000];
+
+// Pan and zoom limits shared by the year metrics
+const YEAR_BOUNDS: [number, number] = [1950, 2050];
+const YEAR_EXTENT: [number, number] = [5, 100];
+
+/**
+ * Passenger capacity across every seating configuration, plotted as a series:
+ * 3-, 2- and 1-class layouts as diamonds, then the seat and exit limits as ticks.
+ */
+export const CAPACITY_AXIS_METRIC: AirlinerAxisMetric = {
+	id: "capacity",
+	label: "Passenger Capacity",
+	fields: [
+		{ field: "pax3Class", markerClass: "pax3Class", label: "3-Class" },
+		{ field: "pax2Class", markerClass: "pax2Class", label: "2-Class" },
+		{ field: "pax1Class", markerClass: "pax1Class", label: "1-Class" },
+		{ field: "paxLimit", markerClass: "paxLimit", label: "Limit" },
+		{ field: "paxExit", markerClass: "paxExit", label: "Exit limit" },
+	],
+	axes: ["x"],
+	padding: [50, -250],
+	bounds: CAPACITY_BOUNDS,
+	extent: CAPACITY_EXTENT,
+};
+
+/**
+ * Maximum range.
+ */
+export const RANGE_AXIS_METRIC: AirlinerAxisMetric = {
+	id: "rangeKM",
+	label: "Range (km × 1000)",
+	fields: [{ field: "rangeKM", markerClass: "value", label: "Range" }],
+	axes: ["x", "y"],
+	tickFormat: formatThousands,
+	padding: [1000, 800],
+	bounds: [0, 20000],
+	extent: [1000, 20000],
+	isDistance: true,
+};
+
+/**
+ * @function singleFieldMetric
+ * @description Creates a metric that plots one field as one marker.
+ */
+function singleFieldMetric(
+	field: AirlinerNumericField,
+	label: string,
+	limits: Pick<AirlinerAxisMetric, "tickFormat" | "padding" | "bounds" | "extent">
+): AirlinerAxisMetric {
+	return { id: field, label, fields: [{ field, markerClass: "value", label }], axes: ["x", "y"], ...limits };
+}
+
+/**
+ * Every metric that can be plotted, in the order they are offered.
+ */
+export const AIRLINER_AXIS_METRICS: AirlinerAxisMetric[] = [
+	CAPACITY_AXIS_METRIC,
+	RANGE_AXIS_METRIC,
+	singleFieldMetric("firstDelivery", "First delivery", { tickFormat: formatYear, padding: [3, 3], bounds: YEAR_BOUNDS, extent: YEAR_EXTENT }),
+	singleFieldMetric("manufactureEnd", "Production end", { tickFormat: formatYear, padding: [3, 3], bounds: YEAR_BOUNDS, extent: YEAR_EXTENT }),
+	singleFieldMetric("pax3Class", "3-Class Capacity", { padding: [20, 20], bounds: CAPACITY_BOUNDS, extent: CAPACITY_EXTENT }),
+	singleFieldMetric("pax2Class", "2-Class Capacity", { padding: [20, 20], bounds: CAPACITY_BOUNDS, extent: CAPACITY_EXTENT }),
+	singleFieldMetric("pax1Class", "1-Class Capacity", { padding: [20, 20], bounds: CAPACITY_BOUNDS, extent: CAPACITY_EXTENT }),
+	singleFieldMetric("paxLimit", "Seat Limit", { padding: [20, 20], bounds: CAPACITY_BOUNDS, extent: CAPACITY_EXTENT }),
+	singleFieldMetric("paxExit", "Exit Limit", { padding: [20, 20], bounds: CAPACITY_BOUNDS, extent: CAPACITY_EXTENT }),
+	singleFieldMetric("mtowKG", "MTOW (kg × 1000)", { tickFormat: formatThousands, padding: [20000, 20000], bounds: [0, 700000], extent: [10000, 700000] }),
+	singleFieldMetric("cruiseMach", "Cruise speed (Mach)", { padding: [0.02, 0.02], bounds: [0, 1.2], extent: [0.05, 1.2] }),
+	singleFieldMetric("wingspanM", "Wingspan (m)", { padding: [3, 3], bounds: [0, 100], extent: [5, 100] }),
+	singleFieldMetric("lengthM", "Length (m)", { padding: [3, 3], bounds: [0, 100], extent: [5, 100] }),
+	singleFieldMetric("fuelCapacityL", "Fuel capacity (L × 1000)", { tickFormat: formatThousands, padding: [5000, 5000], bounds: [0, 400000], extent: [5000, 400000] }),
+	singleFieldMetric("engineCount", "Engines", { padding: [0.5, 0.5], bounds: [0, 6], extent: [2, 6] }),
+	singleFieldMetric("seatKM", "Seat-km (millions)", { tickFormat: formatMillions, padding: [250000, 250000], bounds: [0, 12000000], extent: [250000, 12000000] }),
+	singleFieldMetric("seatsPerExit", "Seats per exit limit", { padding: [0.05, 0.05], bounds: [0, 1.5], extent: [0.05, 1.5] }),
+	singleFieldMetric("densityRatio", "Densification (1-class / 3-class)", { padding: [0.1, 0.1], bounds: [0, 4], extent: [0.2, 4] }),
+];
+
+/**
+ * The chart's default axes: passenger capacity against range.
+ */
+export const DEFAULT_AIRLINER_AXES: AirlinerAxes = {
+	x: CAPACITY_AXIS_METRIC,
+	y: RANGE_AXIS_METRIC,
+};
+
+/**
+ * @function findAirlinerAxisMetric
+ * @description Looks up a metric by its ID.
+ *
+ * @param id - The metric ID.
+ * @returns The metric, or null if there is none with that ID.
+ */
+export function findAirlinerAxisMetric(id: string): AirlinerAxisMetric | null {
+	return AIRLINER_AXIS_METRICS.find(metric => metric.id === id) ?? null;
+}
+
+/**
+ * @function getAirlinerAxisFieldValue
+ * @description Reads an airliner's value for a plottable field, computing it if it is derived.
+ *
+ * @param airlinerStats - The airliner's stats.
+ * @param field - The field to read.
+ * @returns The value, or undefined if the airliner has none.
+ */
+export function getAirlinerAxisFieldValue(airlinerStats: AirlinerStats, field: AirlinerNumericField): number | undefined {
+	const value = getAirlinerFieldValue(airlinerStats, field);
+	return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * @function getAirlinerAxisValues
+ * @description Reads an airliner's values for a metric, skipping fields it has no value for.
+ *
+ * @param airlinerStats - The airliner's stats.
+ * @param metric - The metric to read.
+ * @returns The values, in series order.
+ */
+export function getAirlinerAxisValues(airlinerStats: AirlinerStats, metric: AirlinerAxisMetric): number[] {
+	return metric.fields
+		.map(({ field }) => getAirlinerAxisFieldValue(airlinerStats, field))
+		.filter((value): value is number => value !== undefined);
+}
+
+/**
+ * @function hasAirlinerAxisValues
+ * @description Checks whether any airliner has a value for a metric, i.e. whether plotting it would show anything.
+ *
+ * @param airliners - The airliners' stats.
+ * @param metric - The metric to check.
+ * @returns Whether at least one airliner has a value for the metric.
+ */
+export function hasAirlinerAxisValues(airliners: AirlinerStats[], metric: AirlinerAxisMetric): boolean {
+	return airliners.some(airliner => getAirlinerAxisValues(airliner, metric).length > 0);
+}
+
+/**
+ * @function isAirlinerPlottable
+ * @description Checks whether an airliner can be plotted on the given axes: it needs a value
+ * for the y metric, and a value for at least one of the x metric's main markers.
+ *
+ * @param airlinerStats - The airliner's stats.
+ * @param axes - The chart's axes.
+ * @returns Whether the airliner can be plotted.
+ */
+export function isAirlinerPlottable(airlinerStats: AirlinerStats, axes: AirlinerAxes): boolean {
+	return getAirlinerAxisValues(airlinerStats, axes.y).length > 0 &&
+		axes.x.fields.some(({ field, markerClass }) => isClassMarker(markerClass) && getAirlinerAxisFieldValue(airlinerStats, field) !== undefined);
+}
+
+/**
+ * @function isAirlinerInViewport
+ * @description Checks whether any part of an airliner's plotted values falls within a viewport.
+ *
+ * @param airlinerStats - The airliner's stats.
+ * @param axes - The chart's axes.
+ * @param viewport - The data domain in view, as [min, max] or [max, min] for each axis.
+ * @returns Whether the span of the airliner's values overlaps the viewport on both axes.
+ */
+export function isAirlinerInViewport(airlinerStats: AirlinerStats, axes: AirlinerAxes, viewport: { x: number[]; y: number[] }): boolean {
+	const overlaps = (values: number[], domain: number[]) => values.length > 0 &&
+		Math.max(...values) >= Math.min(...domain) && Math.min(...values) <= Math.max(...domain);
+	return overlaps(getAirlinerAxisValues(airlinerStats, axes.x), viewport.x) &&
+		overlaps(getAirlinerAxisValues(airlinerStats, axes.y), viewport.y);
+}
+
+/**
+ * @function getAirlinerIDsInView
+ * @description Finds the airliners shown with any part of them in a viewport: plotted on the axes,
+ * delivered by the timeline's year if the timeline is open, and overlapping the viewport.
+ *
+ * @param data - The airliners.
+ * @param axes - The chart's axes.
+ * @param viewport - The data domain in view, as [min, max] or [max, min] for each axis.
+ * @param timelineYear - Optional. The year the timeline shows, or null when it is closed.
+ * @returns The IDs of the airliners in view, in dataset order.
+ */
+export function getAirlinerIDsInView(
+	data: AirlinerData[],
+	axes: AirlinerAxes,
+	viewport: { x: number[]; y: number[] },
+	timelineYear: number | null = null
+): string[] {
+	return data
+		.filter(({ airlinerData }) => isAirlinerPlottable(airlinerData, axes)
+			&& (timelineYear === null || getAirlinerTimelineState(airlinerData, timelineYear) !== "undelivered")
+			&& isAirlinerInViewport(airlinerData, axes, viewport))
+		.map(airliner => airliner.airlinerID);
+}
+
+/**
+ * @function getAirlinerAxisDomain
+ * @description Calculates the initial visible range of an axis, from the data's values and the metric's padding.
+ *
+ * @param airliners - The airliners' stats.
+ * @param metric - The metric on the axis.
+ * @returns The initial [min, max] of the axis, or the metric's bounds if no airliner has a value for it.
+ */
+export function getAirlinerAxisDomain(airliners: AirlinerStats[], metric: AirlinerAxisMetric): [number, number] {
+	const values = airliners.flatMap(airliner => getAirlinerAxisValues(airliner, metric));
+	if (values.length === 0) {
+		return [metric.bounds[0] ?? 0, metric.bounds[1] ?? 1];
+	}
+
+	return [
+		Math.min(...values) - metric.padding[0],
+		Math.max(...values) + metric.padding[1],
+	];
+}
+
+/**
+ * @function getAirlinerAxisLabel
+ * @description Labels an axis for the reader's distance unit. Distance metrics are labelled
+ * in thousands of the unit, e.g. "Range (nmi × 1000)", to go with their tick format.
+ *
+ * @param metric - The metric on the axis.
+ * @param distanceUnit - The unit distances are shown in.
+ * @returns The axis label.
+ */
+export function getAirlinerAxisLabel(metric: AirlinerAxisMetric, distanceUnit: DistanceUnit): string {
+	if (!metric.isDistance) return metric.label;
+	return `${metric.fields[0].label} (${DISTANCE_UNIT_INFO[distanceUnit].symbol} × 1000)`;
+}
+
+/**
+ * @function convertAirlinerAxisValue
+ * @description Converts a metric's value into the reader's units, for axis readouts.
+ *
+ * @param metric - The metric the value belongs to.
+ * @param value - The value, in the dataset's units.
+ * @param distanceUnit - The unit distances are shown in.
+ * @returns The value in the reader's units.
+ */
+export function convertAirlinerAxisValue(metric: AirlinerAxisMetric, value: number, distanceUnit: DistanceUnit): number {
+	return metric.isDistance ? convertDistance(value, distanceUnit) : value;
+}
+
+/**
+ * @function getAirlinerAxisTicks
+ * @description Places an axis's ticks for the reader's units. Ticks of a converted distance
+ * fall on round values of the reader's unit, positioned in the viewport's kilometres.
+ *
+ * @param metric - The metric on the axis.
+ * @param domain - The visible range of the axis, in the dataset's units.
+ * @param distanceUnit - The unit distances are shown in.
+ * @param count - Optional. The approximate number of ticks. Defaults to 10.
+ * @returns The tick values, or undefined to let the axis place them, and the tick format.
+ */
+export function getAirlinerAxisTicks(
+	metric: AirlinerAxisMetric,
+	domain: number[],
+	distanceUnit: DistanceUnit,
+	count: number = 10
+): { tickValues?: number[]; tickFormat?: (value: number) => string } {
+	if (!metric.isDistance || distanceUnit === "km") {
+		return { tickFormat: metric.tickFormat };
+	}
+
+	const { perKilometre } = DISTANCE_UNIT_INFO[distanceUnit];
+	const tickValues = scaleLinear({ domain: domain.map(value => value * perKilometre) })
+		.ticks(count)
+		.map(value => value / perKilometre);
+
+	// Rounded to undo floating point error from the round trip through kilometres
+	const format = metric.tickFormat ?? ((value: number) => value.toLocaleString());
+	return { tickValues, tickFormat: value => format(Number((value * perKilometre).toPrecision(12))) };
+}
@@ -0,0 +1,65 @@
+// [IMPORT] Node //
+import { readFile } from "node:fs/promises";
+
+// [IMPORT] Testing //
+import { describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { findAirlinerColumnMapping, mapAirlinerColumns, LEGACY_AIRLINER_MAPPING } from "@/lib/data/airliner-column-mappings";
+import { parseAirlinerCSV } from "@/lib/data/airliner-data-processor";
+
+const LEGACY_HEADERS = ["Airliner", "First delivery", "Range (km)", "PAX capacity (min)", "PAX capacity (mean)", "PAX capacity (max)"];
+
+// A row of `public/data/airliners-old.csv`, keyed by column name
+const legacyRow = (airliner: string): Record<string, string> => ({
+	"Airliner": airliner, "First delivery": "2017", "Range (km)": "6500",
+	"PAX capacity (min)": "178", "PAX capacity (mean)": "190", "PAX capacity (max)": "202",
+});
+
+describe("findAirlinerColumnMapping", () => {
+	it("recognises the legacy layout by its headers", () => {
+		expect(findAirlinerColumnMapping(LEGACY_HEADERS)).toBe(LEGACY_AIRLINER_MAPPING);
+	});
+
+	it("finds no mapping for the current layout", () => {
+		expect(findAirlinerColumnMapping(["manufacturer", "family", "rangeKM", "idNumber", "nameICAO"])).toBeNull();
+	});
+});
+
+describe("mapAirlinerColumns", () => {
+	it("reads the manufacturer, family, generation, variant and body type from the designation", () => {
+		expect(mapAirlinerColumns(legacyRow("737 MAX 8"), 25, LEGACY_AIRLINER_MAPPING)).toEqual({
+			idNumber: 25,
+			manufacturer: "Boeing",
+			family: "737",
+			generation: "MAX",
+			variant: "8",
+			nameCommon: "737 MAX 8",
+			nameICAO: "737 MAX 8",
+			firstDelivery: "2017",
+			bodyType: "narrow",
+			rangeKM: "6500",
+			pax3Class: "178",
+			paxLimit: "202",
+		});
+	});
+
+	it("maps the A320 family's ceo and neo generations", () => {
+		expect(mapAirlinerColumns(legacyRow("A318"), 0, LEGACY_AIRLINER_MAPPING)).toMatchObject({ family: "A320", generation: "ceo", variant: "A318" });
+		expect(mapAirlinerColumns(legacyRow("A321neo"), 0, LEGACY_AIRLINER_MAPPING)).toMatchObject({ family: "A320", generation: "neo", variant: "A321" });
+	});
+
+	it("leaves fields undefined when no pattern matches", () => {
+		expect(mapAirlinerColumns(legacyRow("787-9"), 0, LEGACY_AIRLINER_MAPPING)).toMatchObject({ generation: undefined, variant: "9", bodyType: "wide" });
+	});
+});
+
+describe("importing airliners-old.csv", () => {
+	it("imports every row through the legacy mapping", async () => {
+		const text = await readFile("public/data/airliners-old.csv", "utf8");
+		const { data, diagnostics } = await parseAirlinerCSV(text);
+
+		expect(data).toHaveLength(text.trim().split("\n").length - 1);
+		expect(diagnostics.filter(diagnostic => diagnostic.severity === "error")).toEqual([]);
+	});
+});
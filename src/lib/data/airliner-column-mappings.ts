@@ -0,0 +1,156 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerStats } from "@/lib/data/airliner-types";
+
+/**
+ * @type {AirlinerFieldSource}
+ * @description Where a mapped `AirlinerStats` field takes its value from.
+ * Every value produced here is still coerced with the field's type hint and validated
+ * like any other dataset, so sources only need to produce text.
+ *
+ * - `{ column }`: The value of a source column, as is.
+ * - `{ column, match }`: The first `[pattern, replacement]` pair whose pattern matches the column value.
+ *   The replacement may use `$1`-style capture groups. Undefined if no pattern matches.
+ * - `{ derive }`: Computed from the whole source row and its index among the data rows.
+ */
+export type AirlinerFieldSource =
+	| { column: string; match?: [RegExp, string][] }
+	| { derive: (row: Record<string, string>, index: number) => unknown };
+
+/**
+ * @type {AirlinerColumnMapping}
+ * @description A declarative mapping from a legacy or third-party CSV layout to `AirlinerStats`.
+ *
+ * @property {string} id - Identifier for the source format, e.g. `legacy`.
+ * @property {string} label - Human-readable name of the source format.
+ * @property {string[]} headers - Columns that identify the layout. A file matches when it has all of them.
+ * @property {object} fields - The source of each mapped field. Unmapped fields are left undefined.
+ */
+export type AirlinerColumnMapping = {
+	id: string;
+	label: string;
+	headers: string[];
+	fields: { [K in keyof AirlinerStats]?: AirlinerFieldSource };
+}
+
+/**
+ * Mapping for `public/data/airliners-old.csv`, the schema used before the type hint row.
+ *
+ * The old schema names each airliner by a single designation such as `A321neo` or `737 MAX 8`,
+ * so the manufacturer, family, generation, variant and body type are read from that name.
+ * Capacity was given as a min/mean/max spread: the minimum becomes the three-class capacity
+ * and the maximum the passenger limit. The mean has no equivalent and is not imported.
+ */
+export const LEGACY_AIRLINER_MAPPING: AirlinerColumnMapping = {
+	id: "legacy",
+	label: "Legacy airliner CSV",
+	headers: ["Airliner", "First delivery", "Range (km)", "PAX capacity (min)", "PAX capacity (max)"],
+	fields: {
+		idNumber: { derive: (_row, index) => index },
+		manufacturer: {
+			column: "Airliner",
+			match: [
+				[/^A\d{3}.*$/, "Airbus"],
+				[/^7\d7.*$/, "Boeing"],
+			],
+		},
+		family: {
+			column: "Airliner",
+			match: [
+				[/^A3(18|19|20|21)\D*$/, "A320"],
+				[/^(A\d{3}).*$/, "$1"],
+				[/^(7\d7).*$/, "$1"],
+			],
+		},
+		generation: {
+			column: "Airliner",
+			match: [
+				[/^A3(18|19|20|21)$/, "ceo"],
+				[/^A3(19|20|21)neo$/, "neo"],
+				[/^737 MAX .*$/, "MAX"],
+				[/^737-[6-9]00.*$/, "NG"],
+			],
+		},
+		variant: {
+			column: "Airliner",
+			match: [
+				[/^(A3(18|19|20|21))\D*$/, "$1"],
+				[/^(A\d{3}|7\d7)-(.+)$/, "$2"],
+				[/^737 MAX (.+)$/, "$1"],
+			],
+		},
+		nameCommon: { column: "Airliner" },
+		nameICAO: { column: "Airliner" },
+		firstDelivery: { column: "First delivery" },
+		bodyType: {
+			column: "Airliner",
+			match: [
+				[/^(A3[3-8]\d|747|767|777|787).*$/, "wide"],
+				[/^(A3[12]\d|737|757).*$/, "narrow"],
+			],
+		},
+		rangeKM: { column: "Range (km)" },
+		pax3Class: { column: "PAX capacity (min)" },
+		paxLimit: { column: "PAX capacity (max)" },
+	},
+};
+
+/**
+ * Every known column mapping, checked in order by `findAirlinerColumnMapping`.
+ * Add a mapping here to import another source format.
+ */
+export const AIRLINER_COLUMN_MAPPINGS: AirlinerColumnMapping[] = [
+	LEGACY_AIRLINER_MAPPING,
+];
+
+/**
+ * @function findAirlinerColumnMapping
+ * @description Finds the column mapping for a CSV layout from its header row.
+ *
+ * @param headers - The column names of the file.
+ * @param mappings - The mappings to choose from. Defaults to `AIRLINER_COLUMN_MAPPINGS`.
+ * @returns The first mapping whose identifying columns are all present, or null if none match.
+ */
+export function findAirlinerColumnMapping(
+	headers: string[],
+	mappings: AirlinerColumnMapping[] = AIRLINER_COLUMN_MAPPINGS
+): AirlinerColumnMapping | null {
+	return mappings.find(mapping => mapping.headers.every(header => headers.includes(header))) ?? null;
+}
+
+/**
+ * @function mapAirlinerColumns
+ * @description Converts a source row into `AirlinerStats` field values using a column mapping.
+ * The values are not coerced; that is left to the loader's type hints.
+ *
+ * @param row - The source row, keyed by column name.
+ * @param index - The index of the row among the data rows.
+ * @param mapping - The column mapping for the source format.
+ * @returns The mapped values, keyed by `AirlinerStats` field.
+ */
+export function mapAirlinerColumns(
+	row: Record<string, string>,
+	index: number,
+	mapping: AirlinerColumnMapping
+): Record<string, unknown> {
+	const values: Record<string, unknown> = {};
+
+	Object.entries(mapping.fields).forEach(([field, source]) => {
+		if (!source) return;
+
+		if ("derive" in source) {
+			values[field] = source.derive(row, index);
+			return;
+		}
+
+		const text = row[source.column];
+		if (!source.match || text === undefined || text === null) {
+			values[field] = text;
+			return;
+		}
+
+		const match = source.match.find(([pattern]) => pattern.test(text));
+		values[field] = match ? text.replace(match[0], match[1]) : undefined;
+	});
+
+	return values;
+}
@@ -0,0 +1,62 @@
+// [IMPORT] Testing //
+import { describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { AIRLINER_COMPARISON_ROWS, getAirlinerFieldDelta, getBestAirlinerIDs } from "@/lib/data/airliner-comparison";
+import { createAirlinerData } from "@/lib/data/airliner-dataset";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerComparisonRow } from "@/lib/data/airliner-comparison";
+import type { AirlinerStats } from "@/lib/data/airliner-types";
+
+const A320 = { nameICAO: "A320", idNumber: 2, rangeKM: 6100, pax2Class: 150, paxExit: 190, mtowKG: 78000 } as AirlinerStats;
+const A20N = { nameICAO: "A20N", idNumber: 5, rangeKM: 6500, pax2Class: 165, paxExit: 195, mtowKG: 79000 } as AirlinerStats;
+const A319 = { nameICAO: "A319", idNumber: 3, rangeKM: 6500, pax2Class: 124 } as AirlinerStats;
+const DATA = createAirlinerData([A320, A20N, A319]);
+
+const row = (field: AirlinerComparisonRow["field"]) => AIRLINER_COMPARISON_ROWS.find(comparisonRow => comparisonRow.field === field)!;
+
+describe("getBestAirlinerIDs", () => {
+	it("finds the airliner with the best value", () => {
+		expect(getBestAirlinerIDs(DATA, row("pax2Class"))).toEqual(["5-A20N"]);
+	});
+
+	it("marks every tied airliner as best", () => {
+		expect(getBestAirlinerIDs(DATA, row("rangeKM"))).toEqual(["5-A20N", "3-A319"]);
+	});
+
+	it("picks the lowest value when lower is better", () => {
+		expect(getBestAirlinerIDs(DATA, { field: "rangeKM", label: "Range", better: "lower" })).toEqual(["2-A320"]);
+	});
+
+	it("ranks derived fields", () => {
+		expect(getBestAirlinerIDs(DATA, row("seatKM"))).toEqual(["5-A20N"]);
+	});
+
+	it("marks nothing in rows that are not ranked, or where every value is the same", () => {
+		expect(getBestAirlinerIDs(DATA, row("mtowKG"))).toEqual([]);
+		expect(getBestAirlinerIDs(createAirlinerData([A20N, A319]), row("rangeKM"))).toEqual([]);
+	});
+
+	it("ignores airliners without a value", () => {
+		expect(getBestAirlinerIDs(DATA, row("paxExit"))).toEqual(["5-A20N"]);
+		expect(getBestAirlinerIDs(createAirlinerData([A319]), row("paxExit"))).toEqual([]);
+	});
+});
+
+describe("getAirlinerFieldDelta", () => {
+	it("gives the difference from the baseline and its share of the baseline", () => {
+		expect(getAirlinerFieldDelta(A20N, A320, "pax2Class")).toEqual({ difference: 15, ratio: 0.1 });
+		expect(getAirlinerFieldDelta(A319, A20N, "rangeKM")).toEqual({ difference: 0, ratio: 0 });
+	});
+
+	it("has no ratio against a baseline of zero", () => {
+		expect(getAirlinerFieldDelta(A320, { ...A320, rangeKM: 0 }, "rangeKM")).toEqual({ difference: 6100, ratio: null });
+	});
+
+	it("has no delta when either airliner lacks a number", () => {
+		expect(getAirlinerFieldDelta(A319, A320, "paxExit")).toBeNull();
+		expect(getAirlinerFieldDelta(A320, A319, "paxExit")).toBeNull();
+		expect(getAirlinerFieldDelta(A320, A20N, "nameICAO")).toBeNull();
+	});
+});
@@ -0,0 +1,107 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerData, AirlinerStats } from "@/lib/data/airliner-types";
+import type { AirlinerField } from "@/lib/data/airliner-derived-fields";
+
+// [IMPORT] Utilities //
+import { AIRLINER_DERIVED_FIELD_IDS, AIRLINER_DERIVED_FIELDS, getAirlinerFieldValue } from "@/lib/data/airliner-derived-fields";
+
+/**
+ * @type {AirlinerComparisonRow}
+ * @description A row of the airliner comparison table.
+ *
+ * @property {AirlinerField} field - The field compared.
+ * @property {string} label - The row's heading.
+ * @property {string | null} better - Whether a "higher" or "lower" value is the better one, or null if neither is.
+ */
+export type AirlinerComparisonRow = {
+	field: AirlinerField;
+	label: string;
+	better: "higher" | "lower" | null;
+}
+
+/**
+ * Rows of the comparison table, in the order they are shown.
+ * Manufacturer and name head the columns instead, and sizes and weights are not ranked, as bigger is not better.
+ */
+export const AIRLINER_COMPARISON_ROWS: AirlinerComparisonRow[] = [
+	{ field: "family", label: "Family", better: null },
+	{ field: "nameICAO", label: "ICAO code", better: null },
+	{ field: "status", label: "Status", better: null },
+	{ field: "bodyType", label: "Body", better: null },
+	{ field: "firstDelivery", label: "Introduced", better: null },
+	{ field: "manufactureEnd", label: "Discontinued", better: null },
+	{ field: "pax3Class", label: "3-class capacity", better: "higher" },
+	{ field: "pax2Class", label: "2-class capacity", better: "higher" },
+	{ field: "pax1Class", label: "1-class capacity", better: "higher" },
+	{ field: "paxLimit", label: "Space limit", better: "higher" },
+	{ field: "paxExit", label: "Exit limit", better: "higher" },
+	{ field: "rangeKM", label: "Range", better: "higher" },
+	{ field: "cruiseMach", label: "Cruise speed", better: "higher" },
+	{ field: "mtowKG", label: "MTOW", better: null },
+	{ field: "fuelCapacityL", label: "Fuel capacity", better: null },
+	{ field: "wingspanM", label: "Wingspan", better: null },
+	{ field: "lengthM", label: "Length", better: null },
+	{ field: "engineCount", label: "Engines", better: null },
+	{ field: "engineOptions", label: "Engine options", better: null },
+	...AIRLINER_DERIVED_FIELD_IDS.map(field => ({
+		field,
+		label: AIRLINER_DERIVED_FIELDS[field].label,
+		better: field === "seatKM" ? "higher" as const : null,
+	})),
+];
+
+/**
+ * @type {AirlinerFieldDelta}
+ * @description How an airliner's value for a field differs from a baseline airliner's.
+ *
+ * @property {number} difference - The airliner's value less the baseline's.
+ * @property {number | null} ratio - The difference as a share of the baseline's value, or null if the baseline's value is zero.
+ */
+export type AirlinerFieldDelta = {
+	difference: number;
+	ratio: number | null;
+}
+
+/**
+ * @function getBestAirlinerIDs
+ * @description Finds the airliners with the best value in a comparison row. Ties are all best.
+ * No airliner is best in a row that is not ranked, or where every airliner with a value has the same one.
+ *
+ * @param data - The airliners compared.
+ * @param row - The comparison row.
+ * @returns The IDs of the airliners with the best value.
+ */
+export function getBestAirlinerIDs(data: AirlinerData[], { field, better }: AirlinerComparisonRow): string[] {
+	if (!better) return [];
+
+	const values = data.flatMap(airliner => {
+		const value = getAirlinerFieldValue(airliner.airlinerData, field);
+		return typeof value === "number" ? [{ airlinerID: airliner.airlinerID, value }] : [];
+	});
+	if (values.length === 0) return [];
+
+	const best = better === "higher"
+		? Math.max(...values.map(({ value }) => value))
+		: Math.min(...values.map(({ value }) => value));
+	if (values.every(({ value }) => value === best)) return [];
+
+	return values.filter(({ value }) => value === best).map(({ airlinerID }) => airlinerID);
+}
+
+/**
+ * @function getAirlinerFieldDelta
+ * @description Works out how an airliner's value for a numeric field differs from a baseline airliner's.
+ *
+ * @param airlinerStats - The airliner's stats.
+ * @param baselineStats - The baseline airliner's stats.
+ * @param field - The field to compare.
+ * @returns The difference, or null if either airliner lacks a number for the field.
+ */
+export function getAirlinerFieldDelta(airlinerStats: AirlinerStats, baselineStats: AirlinerStats, field: AirlinerField): AirlinerFieldDelta | null {
+	const value = getAirlinerFieldValue(airlinerStats, field);
+	const baseline = getAirlinerFieldValue(baselineStats, field);
+	if (typeof value !== "number" || typeof baseline !== "number") return null;
+
+	const difference = value - baseline;
+	return { difference, ratio: baseline !== 0 ? difference / baseline : null };
+}
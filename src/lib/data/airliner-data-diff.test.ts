@@ -0,0 +1,43 @@
+// [IMPORT] Node //
+import { readFile } from "node:fs/promises";
+
+// [IMPORT] Testing //
+import { describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { diffAirlinerData } from "@/lib/data/airliner-data-diff";
+import { serialiseAirlinerData } from "@/lib/data/airliner-data-export";
+import { parseAirlinerCSV } from "@/lib/data/airliner-data-processor";
+import { createAirlinerData } from "@/lib/data/airliner-dataset";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerStats } from "@/lib/data/airliner-types";
+
+const A320 = { manufacturer: "Airbus", family: "A320", nameICAO: "A320", idNumber: 2, status: "active", rangeKM: 6100, pax2Class: 150, engineOptions: ["CFM56", "V2500"] } as AirlinerStats;
+const A319 = { manufacturer: "Airbus", family: "A320", nameICAO: "A319", idNumber: 3, status: "active", rangeKM: 6900, pax2Class: 124 } as AirlinerStats;
+const A321 = { manufacturer: "Airbus", family: "A320", nameICAO: "A321", idNumber: 4, status: "active", rangeKM: 5900, pax2Class: 185 } as AirlinerStats;
+
+describe("diffAirlinerData", () => {
+	it("sorts airliners into added, removed, changed and unchanged", () => {
+		const before = createAirlinerData([A320, A319]);
+		const after = createAirlinerData([A321, { ...A320, rangeKM: 6300, engineOptions: ["CFM56", "V2500"] }]);
+		const diff = diffAirlinerData(before, after);
+
+		expect(diff.counts).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 0 });
+		expect(Array.from(diff.entries.keys())).toEqual(["4-A321", "2-A320", "3-A319"]);
+		expect(diff.entries.get("2-A320")?.changes).toEqual([{ field: "rangeKM", before: 6100, after: 6300 }]);
+	});
+
+	it("does not count fields outside the schema as changes", () => {
+		const after = { ...A320, airlinerID: "2-A320", seatKM: 915000 } as AirlinerStats;
+		expect(diffAirlinerData(createAirlinerData([A320]), createAirlinerData([after])).counts.unchanged).toBe(1);
+	});
+
+	it("finds nothing changed in a re-imported export of the bundled data", async () => {
+		const bundled = createAirlinerData((await parseAirlinerCSV(await readFile("public/data/airliners.csv", "utf8"))).data);
+		const { text } = serialiseAirlinerData(bundled, "csv", true, "nmi");
+		const reimported = createAirlinerData((await parseAirlinerCSV(text)).data);
+
+		expect(diffAirlinerData(bundled, reimported).counts).toEqual({ added: 0, removed: 0, changed: 0, unchanged: bundled.length });
+	});
+});
@@ -0,0 +1,125 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerData, AirlinerStats } from "@/lib/data/airliner-types";
+
+// [IMPORT] Utilities //
+import { AIRLINER_FIELD_TYPE_HINTS } from "@/lib/data/airliner-type-hints";
+
+/**
+ * @type {AirlinerDiffKind}
+ * @description How an airliner differs between two dataset snapshots.
+ */
+export type AirlinerDiffKind = "added" | "removed" | "changed" | "unchanged";
+
+/**
+ * @type {AirlinerFieldChange}
+ * @description A field whose value differs between two snapshots of the same airliner.
+ *
+ * @property {keyof AirlinerStats} field - The field that changed.
+ * @property {unknown} before - The value in the earlier snapshot, or undefined if it was not set.
+ * @property {unknown} after - The value in the later snapshot, or undefined if it was removed.
+ */
+export type AirlinerFieldChange = {
+	field: keyof AirlinerStats;
+	before: unknown;
+	after: unknown;
+}
+
+/**
+ * @type {AirlinerDiffEntry}
+ * @description The difference for a single airliner, matched between snapshots by `airlinerID`.
+ *
+ * @property {string} airlinerID - The ID the airliner is matched by.
+ * @property {AirlinerDiffKind} kind - How the airliner differs.
+ * @property {AirlinerStats | null} before - The airliner in the earlier snapshot, or null if it was added.
+ * @property {AirlinerStats | null} after - The airliner in the later snapshot, or null if it was removed.
+ * @property {AirlinerFieldChange[]} changes - The fields that differ. Empty unless the airliner changed.
+ */
+export type AirlinerDiffEntry = {
+	airlinerID: string;
+	kind: AirlinerDiffKind;
+	before: AirlinerStats | null;
+	after: AirlinerStats | null;
+	changes: AirlinerFieldChange[];
+}
+
+/**
+ * @type {AirlinerDataDiff}
+ * @description The difference between two dataset snapshots.
+ *
+ * @property {Map<string, AirlinerDiffEntry>} entries - Every airliner in either snapshot, keyed by ID.
+ *   Airliners in the later snapshot come first in its order, followed by removed airliners.
+ * @property {Record<AirlinerDiffKind, number>} counts - The number of airliners of each kind.
+ */
+export type AirlinerDataDiff = {
+	entries: Map<string, AirlinerDiffEntry>;
+	counts: Record<AirlinerDiffKind, number>;
+}
+
+/**
+ * @function diffAirlinerData
+ * @description Compares two snapshots of an airliner dataset, matching records by `airlinerID`.
+ *
+ * @param before - The earlier snapshot.
+ * @param after - The later snapshot.
+ * @returns The difference for every airliner in either snapshot.
+ */
+export function diffAirlinerData(before: AirlinerData[], after: AirlinerData[]): AirlinerDataDiff {
+	const beforeByID = new Map(before.map(airliner => [airliner.airlinerID, airliner.airlinerData]));
+	const afterIDs = new Set(after.map(airliner => airliner.airlinerID));
+
+	const entries = new Map<string, AirlinerDiffEntry>();
+	const counts: Record<AirlinerDiffKind, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+	const addEntry = (entry: AirlinerDiffEntry) => {
+		entries.set(entry.airlinerID, entry);
+		counts[entry.kind]++;
+	};
+
+	// Airliners in the later snapshot: added, changed or unchanged
+	after.forEach(({ airlinerID, airlinerData }) => {
+		const previous = beforeByID.get(airlinerID);
+		if (!previous) {
+			addEntry({ airlinerID, kind: "added", before: null, after: airlinerData, changes: [] });
+			return;
+		}
+
+		const changes = diffAirlinerStats(previous, airlinerData);
+		addEntry({ airlinerID, kind: changes.length > 0 ? "changed" : "unchanged", before: previous, after: airlinerData, changes });
+	});
+
+	// Airliners only in the earlier snapshot
+	before.forEach(({ airlinerID, airlinerData }) => {
+		if (afterIDs.has(airlinerID)) return;
+		addEntry({ airlinerID, kind: "removed", before: airlinerData, after: null, changes: [] });
+	});
+
+	return { entries, counts };
+}
+
+/**
+ * @function diffAirlinerStats
+ * @description Lists the fields that differ between two snapshots of the same airliner.
+ * Only `AirlinerStats` fields are compared, so that anything else carried on the records is not counted as a change.
+ *
+ * @param before - The airliner in the earlier snapshot.
+ * @param after - The airliner in the later snapshot.
+ * @returns The changed fields, in schema order.
+ */
+export function diffAirlinerStats(before: AirlinerStats, after: AirlinerStats): AirlinerFieldChange[] {
+	const fields = Object.keys(AIRLINER_FIELD_TYPE_HINTS) as (keyof AirlinerStats)[];
+
+	return fields
+		.filter(field => !isSameValue(before[field], after[field]))
+		.map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * @function isSameValue
+ * @description Compares two field values, treating lists with the same items as equal.
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((item, index) => item === b[index]);
+	}
+	return a === b;
+}
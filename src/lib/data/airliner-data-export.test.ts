@@ -0,0 +1,58 @@
+// [IMPORT] Node //
+import { readFile } from "node:fs/promises";
+
+// [IMPORT] Testing //
+import { beforeAll, describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { serialiseAirlinerData } from "@/lib/data/airliner-data-export";
+import { parseAirlinerCSV, parseAirlinerJSON } from "@/lib/data/airliner-data-processor";
+import { createAirlinerData } from "@/lib/data/airliner-dataset";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerData, AirlinerDataDiagnostic } from "@/lib/data/airliner-types";
+
+// Diagnostics without their line numbers, which differ between the bundled file and an export
+const describeDiagnostics = (diagnostics: AirlinerDataDiagnostic[]) => diagnostics.map(({ severity, rule, field }) => `${severity} ${rule} ${field}`);
+
+describe("serialiseAirlinerData", () => {
+	let bundled: AirlinerData[];
+	let bundledDiagnostics: string[];
+
+	beforeAll(async () => {
+		const { data, diagnostics } = await parseAirlinerCSV(await readFile("public/data/airliners.csv", "utf8"));
+		bundled = createAirlinerData(data);
+		bundledDiagnostics = describeDiagnostics(diagnostics);
+	});
+
+	it("re-imports a CSV export as the airliners it was exported from", async () => {
+		const { text } = serialiseAirlinerData(bundled, "csv");
+		const { data, diagnostics } = await parseAirlinerCSV(text);
+
+		expect(data).toEqual(bundled.map(airliner => airliner.airlinerData));
+		expect(describeDiagnostics(diagnostics)).toEqual(bundledDiagnostics);
+	});
+
+	it("re-imports a JSON export as the airliners it was exported from", async () => {
+		const { text } = serialiseAirlinerData(bundled, "json");
+		const { data, diagnostics } = await parseAirlinerJSON(text);
+
+		expect(data).toEqual(bundled.map(airliner => airliner.airlinerData));
+		expect(describeDiagnostics(diagnostics)).toEqual(bundledDiagnostics);
+	});
+
+	it("drops computed and converted columns on re-import, warning once for each", async () => {
+		const { text } = serialiseAirlinerData(bundled, "csv", true, "nmi");
+		const { data, diagnostics } = await parseAirlinerCSV(text);
+
+		expect(data).toEqual(bundled.map(airliner => airliner.airlinerData));
+		expect(data.every(airliner => !("airlinerID" in airliner) && !("seatKM" in airliner))).toBe(true);
+		expect(describeDiagnostics(diagnostics).filter(diagnostic => !bundledDiagnostics.includes(diagnostic))).toEqual([
+			"warning unknown-field rangeNMI",
+			"warning unknown-field airlinerID",
+			"warning unknown-field seatKM",
+			"warning unknown-field seatsPerExit",
+			"warning unknown-field densityRatio",
+		]);
+	});
+});
@@ -0,0 +1,175 @@
+// [IMPORT] Third-party libraries //
+import Papa from "papaparse";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerData, AirlinerStats } from "@/lib/data/airliner-types";
+import type { DistanceUnit } from "@/lib/data/airliner-units";
+
+// [IMPORT] Utilities //
+import { AIRLINER_FIELD_TYPE_HINTS, LIST_SEPARATOR, formatTypeHint, TypeHint } from "@/lib/data/airliner-type-hints";
+import { AIRLINER_FIELD_FORMATS } from "@/lib/data/airliner-field-format";
+import { convertDistance } from "@/lib/data/airliner-units";
+import { AIRLINER_DERIVED_FIELD_IDS, AIRLINER_DERIVED_FIELDS } from "@/lib/data/airliner-derived-fields";
+
+/**
+ * @type {AirlinerExportFormat}
+ * @description The file formats a dataset can be exported to.
+ * Both re-import through `loadAirlinerData` as the airliners they were exported from.
+ */
+export type AirlinerExportFormat = "csv" | "json";
+
+/**
+ * @type {AirlinerExportColumn}
+ * @description A column of an exported dataset.
+ *
+ * @property {string} name - The column name, used as the CSV header and the JSON key.
+ * @property {TypeHint} typeHint - The type hint written to the CSV type row.
+ * @property {function} value - Reads the column's value from an airliner.
+ */
+export type AirlinerExportColumn = {
+	name: string;
+	typeHint: TypeHint;
+	value: (airliner: AirlinerData) => unknown;
+}
+
+/**
+ * Columns for every `AirlinerStats` field, in schema order.
+ */
+export const AIRLINER_FIELD_COLUMNS: AirlinerExportColumn[] = Object.entries(AIRLINER_FIELD_TYPE_HINTS).map(([field, typeHint]) => ({
+	name: field,
+	typeHint,
+	value: airliner => airliner.airlinerData[field as keyof typeof AIRLINER_FIELD_TYPE_HINTS],
+}));
+
+/**
+ * Columns computed by the chart rather than read from the dataset: the airliner ID and every derived field.
+ * They are for reading the file elsewhere: on re-import the loader drops them, with a warning for each,
+ * and the chart computes them again.
+ */
+export const AIRLINER_COMPUTED_COLUMNS: AirlinerExportColumn[] = [
+	{
+		name: "airlinerID",
+		typeHint: { kind: "string" },
+		value: airliner => airliner.airlinerID,
+	},
+	...AIRLINER_DERIVED_FIELD_IDS.map((field): AirlinerExportColumn => ({
+		name: field,
+		typeHint: { kind: "number" },
+		value: airliner => AIRLINER_DERIVED_FIELDS[field].compute(airliner.airlinerData),
+	})),
+];
+
+/**
+ * @function getAirlinerDistanceColumns
+ * @description Lists columns repeating every distance field in the reader's unit, rounded to a whole number,
+ * e.g. `rangeNMI` next to `rangeKM`. The kilometre fields are still exported, so the file re-imports as it was;
+ * like the computed columns, the converted ones are dropped with a warning on re-import.
+ *
+ * @param distanceUnit - The unit distances are shown in.
+ * @returns The converted columns, or none if distances are shown in kilometres.
+ */
+export function getAirlinerDistanceColumns(distanceUnit: DistanceUnit): AirlinerExportColumn[] {
+	if (distanceUnit === "km") return [];
+
+	return (Object.keys(AIRLINER_FIELD_FORMATS) as (keyof AirlinerStats)[])
+		.filter(field => AIRLINER_FIELD_FORMATS[field]?.isDistance)
+		.map(field => ({
+			name: field.replace(/KM$/, "") + distanceUnit.toUpperCase(),
+			typeHint: { kind: "int" },
+			value: airliner => {
+				const value = airliner.airlinerData[field];
+				return typeof value === "number" ? Math.round(convertDistance(value, distanceUnit)) : undefined;
+			},
+		}));
+}
+
+/**
+ * @function getAirlinerExportColumns
+ * @description Lists the columns of an export.
+ *
+ * @param includeComputed - Whether to include the computed columns after the dataset fields.
+ * @param distanceUnit - Optional. The unit distances are shown in; other than kilometres, converted distance columns follow the dataset fields.
+ * @returns The export columns, in order.
+ */
+export function getAirlinerExportColumns(includeComputed: boolean, distanceUnit: DistanceUnit = "km"): AirlinerExportColumn[] {
+	return [
+		...AIRLINER_FIELD_COLUMNS,
+		...getAirlinerDistanceColumns(distanceUnit),
+		...(includeComputed ? AIRLINER_COMPUTED_COLUMNS : []),
+	];
+}
+
+/**
+ * @function serialiseAirlinerCSV
+ * @description Serialises airliners to CSV, with a type hint row after the headers
+ * so that the file re-imports through `parseAirlinerCSV`.
+ *
+ * @param airliners - The airliners to export.
+ * @param columns - The columns to export.
+ * @returns The CSV text.
+ */
+export function serialiseAirlinerCSV(airliners: AirlinerData[], columns: AirlinerExportColumn[]): string {
+	return Papa.unparse({
+		fields: columns.map(column => column.name),
+		data: [
+			columns.map(column => formatTypeHint(column.typeHint)),
+			...airliners.map(airliner => columns.map(column => formatCSVValue(column.value(airliner)))),
+		],
+	});
+}
+
+/**
+ * @function serialiseAirlinerJSON
+ * @description Serialises airliners to a JSON array, one object per airliner.
+ * Unset fields are left out rather than written as null.
+ *
+ * @param airliners - The airliners to export.
+ * @param columns - The columns to export.
+ * @returns The JSON text.
+ */
+export function serialiseAirlinerJSON(airliners: AirlinerData[], columns: AirlinerExportColumn[]): string {
+	const records = airliners.map(airliner => {
+		const record: Record<string, unknown> = {};
+		columns.forEach(column => {
+			const value = column.value(airliner);
+			if (value !== undefined && value !== null) record[column.name] = value;
+		});
+		return record;
+	});
+	return JSON.stringify(records, null, "\t");
+}
+
+/**
+ * @function serialiseAirlinerData
+ * @description Serialises airliners to the given format.
+ *
+ * @param airliners - The airliners to export.
+ * @param format - The export format.
+ * @param includeComputed - Whether to include computed columns such as `airlinerID`.
+ * @param distanceUnit - Optional. The unit distances are shown in, added as converted columns. Defaults to kilometres only.
+ * @returns The file contents, and the MIME type and extension to save them with.
+ */
+export function serialiseAirlinerData(
+	airliners: AirlinerData[],
+	format: AirlinerExportFormat,
+	includeComputed: boolean = false,
+	distanceUnit: DistanceUnit = "km"
+): { text: string; mimeType: string; extension: string } {
+	const columns = getAirlinerExportColumns(includeComputed, distanceUnit);
+	switch (format) {
+		case "csv":
+			return { text: serialiseAirlinerCSV(airliners, columns), mimeType: "text/csv", extension: "csv" };
+		case "json":
+			return { text: serialiseAirlinerJSON(airliners, columns), mimeType: "application/json", extension: "json" };
+	}
+}
+
+/**
+ * @function formatCSVValue
+ * @description Formats a field value for a CSV cell, the inverse of `coerceValue`.
+ */
+function formatCSVValue(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	if (Array.isArray(value)) return value.join(LIST_SEPARATOR);
+	return String(value);
+}
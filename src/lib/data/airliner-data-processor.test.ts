@@ -0,0 +1,112 @@
+// [IMPORT] Node //
+import { readFile } from "node:fs/promises";
+
+// [IMPORT] Testing //
+import { describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { formatAirlinerDataDiagnostic, parseAirlinerCSV, parseAirlinerJSON, parsePayloadRangeCSV } from "@/lib/data/airliner-data-processor";
+
+// Header and type hint rows of the bundled CSV, cut down to the fields the tests need
+const CSV_HEADER = [
+	"manufacturer,nameCommon,family,firstDelivery,status,bodyType,rangeKM,pax2Class,paxLimit,idNumber,nameICAO",
+	"string,string,string,year,enum(active|development|discontinued|retired),enum(wide|narrow),int,int,int,int,string",
+].join("\n");
+
+describe("parseAirlinerCSV", () => {
+	it("keeps valid rows and reports nothing for them", async () => {
+		const { data, diagnostics } = await parseAirlinerCSV(`${CSV_HEADER}\nAirbus,A320ceo,A320,1988,active,narrow,6100,150,186,1,A320`);
+
+		expect(data).toHaveLength(1);
+		expect(data[0]).toMatchObject({ manufacturer: "Airbus", firstDelivery: 1988, rangeKM: 6100, pax2Class: 150 });
+		expect(diagnostics).toEqual([]);
+	});
+
+	it("drops rows with errors and reports them by source line", async () => {
+		const { data, diagnostics } = await parseAirlinerCSV([
+			CSV_HEADER,
+			"Airbus,A320ceo,A320,1988,active,narrow,6100,150,186,1,A320",
+			"Airbus,A319ceo,A320,1996,active,narrow,,124,156,2,A319",
+		].join("\n"));
+
+		expect(data.map(airliner => airliner.nameICAO)).toEqual(["A320"]);
+		expect(diagnostics).toContainEqual(expect.objectContaining({ line: 4, field: "rangeKM", rule: "required-field", severity: "error" }));
+	});
+
+	it("keeps rows with warnings and reports the warnings", async () => {
+		const { data, diagnostics } = await parseAirlinerCSV(`${CSV_HEADER}\nAirbus,A320ceo,A320,1988,active,narrow,6100,150,many,1,A320`);
+
+		expect(data).toHaveLength(1);
+		expect(data[0].paxLimit).toBeUndefined();
+		expect(diagnostics).toEqual([expect.objectContaining({ line: 3, field: "paxLimit", rule: "type", severity: "warning" })]);
+	});
+
+	it("rejects every repeat of an ID after the first", async () => {
+		const { data, diagnostics } = await parseAirlinerCSV([
+			CSV_HEADER,
+			"Airbus,A320ceo,A320,1988,active,narrow,6100,150,186,1,A320",
+			"Airbus,A319ceo,A320,1996,active,narrow,6940,124,156,1,A319",
+		].join("\n"));
+
+		expect(data.map(airliner => airliner.nameICAO)).toEqual(["A320"]);
+		expect(diagnostics).toEqual([expect.objectContaining({ line: 4, rule: "unique-id", severity: "error" })]);
+	});
+});
+
+describe("parseAirlinerJSON", () => {
+	const airliners = [
+		{ manufacturer: "Airbus", nameCommon: "A320ceo", family: "A320", status: "active", firstDelivery: 1990, rangeKM: 6100, pax2Class: 150, idNumber: 1, nameICAO: "A320" },
+		{ manufacturer: "Airbus", nameCommon: "A319ceo", family: "A320", status: "active", firstDelivery: 1990, rangeKM: 6940, pax2Class: 124, idNumber: 2, nameICAO: "A319" },
+		{ manufacturer: "Airbus", nameCommon: "A321ceo", family: "A320", status: "active", firstDelivery: 1990, rangeKM: 5900, pax2Class: 185, idNumber: 1, nameICAO: "A321" },
+	];
+
+	it("reports each element by the line it starts on", async () => {
+		const { data, diagnostics } = await parseAirlinerJSON(JSON.stringify(airliners, null, "\t"));
+
+		expect(data.map(airliner => airliner.nameICAO)).toEqual(["A320", "A319"]);
+		expect(diagnostics).toEqual([expect.objectContaining({ line: 24, rule: "unique-id", severity: "error" })]);
+	});
+
+	it("only rejects the repeated ID when every element is on one line", async () => {
+		const { data, diagnostics } = await parseAirlinerJSON(JSON.stringify(airliners));
+
+		expect(data.map(airliner => airliner.nameICAO)).toEqual(["A320", "A319"]);
+		expect(diagnostics).toEqual([expect.objectContaining({ line: 1, rule: "unique-id", severity: "error" })]);
+	});
+});
+
+describe("parsePayloadRangeCSV", () => {
+	it("reads the example file as diagrams sorted by range", async () => {
+		const { curves, diagnostics } = await parsePayloadRangeCSV(await readFile("examples/payload-range.example.csv", "utf8"));
+
+		expect(Object.keys(curves)).toEqual(["900-EXA1", "901-EXA2"]);
+		expect(curves["900-EXA1"].map(({ point }) => point)).toEqual(["maxPayload", "maxFuel", "ferry"]);
+		expect(diagnostics).toEqual([]);
+	});
+
+	it("rejects repeated points and warns when payload rises with range", async () => {
+		const { curves, diagnostics } = await parsePayloadRangeCSV([
+			"airlinerID,point,rangeKM,payloadKG",
+			"string,enum(maxPayload|maxFuel|ferry),int,int",
+			"2-A320,maxPayload,3000,18000",
+			"2-A320,maxPayload,3500,17000",
+			"2-A320,maxFuel,5000,19000",
+		].join("\n"));
+
+		expect(curves["2-A320"]).toHaveLength(2);
+		expect(diagnostics.map(({ line, rule, severity }) => `${line} ${severity} ${rule}`)).toEqual([
+			"4 error unique-point",
+			"5 warning payload-range-order",
+		]);
+	});
+});
+
+describe("formatAirlinerDataDiagnostic", () => {
+	it("writes the path, line, severity, rule, field and message on one line", () => {
+		const text = formatAirlinerDataDiagnostic(
+			{ line: 7, field: "paxLimit", rule: "pax-limit-exit", severity: "warning", message: "paxLimit (180) is greater than paxExit (170)" },
+			"public/data/airliners.csv"
+		);
+		expect(text).toBe("public/data/airliners.csv:7  warning  pax-limit-exit (paxLimit)  paxLimit (180) is greater than paxExit (170)");
+	});
+});
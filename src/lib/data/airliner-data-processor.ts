@@ -1,7 +1,12 @@
 // [IMPORT] Third-party libraries //
-import Papa, { ParseResult } from "papaparse";
+import Papa, { ParseStepResult } from "papaparse";
 // [IMPORT] Types/interfaces //
-import { AirlinerStats } from "@/lib/data/airliner-types";
+import type { AirlinerStats, AirlinerDataDiagnostic, AirlinerDataLoadResult, AirlinerPayloadRangePoint, AirlinerPayloadRangeLoadResult } from "@/lib/data/airliner-types";
+import { AIRLINER_PAYLOAD_RANGE_POINTS } from "@/lib/data/airliner-types";
+// [IMPORT] Utilities //
+import { checkAirlinerRow, checkAirlinerDataset } from "@/lib/data/airliner-data-rules";
+import { parseTypeHint, coerceValue, TypeHint, AIRLINER_FIELD_TYPE_HINTS, PAYLOAD_RANGE_FIELD_TYPE_HINTS } from "@/lib/data/airliner-type-hints";
+import { findAirlinerColumnMapping, mapAirlinerColumns, AirlinerColumnMapping } from "@/lib/data/airliner-column-mappings";
 
 export interface AirlinerData extends AirlinerStats {
 	markerStylePax3Class: "diamond" | "line";
@@ -13,120 +18,856 @@ export interface AirlinerData extends AirlinerStats {
 }
 
 /**
- * Loads and parses airliner CSV data into Airliner objects.
+ * @type {AirlinerDataFormat}
+ * @description The file formats an airliner dataset can be loaded from.
+ * - `csv`: A header row, a type hint row, then data rows
+ * - `json`: A JSON array of airliner objects
+ * - `ndjson`: One JSON airliner object per line
+ */
+export type AirlinerDataFormat = "csv" | "json" | "ndjson";
+
+/**
+ * Loads and parses an airliner dataset into Airliner objects.
+ * The format is picked from the file extension, then the response's content type,
+ * then the content itself; see `detectAirlinerDataFormat`. Every format goes through
+ * the same validation and produces the same `AirlinerStats[]`.
+ *
+ * @param dataPath Path to the dataset file (relative to public/)
+ * @param format Optional. Forces a format instead of detecting it.
+ * @returns Promise<AirlinerDataLoadResult> The valid airliner rows and a list of diagnostics
+ */
+export async function loadAirlinerData(dataPath: string, format?: AirlinerDataFormat): Promise<AirlinerDataLoadResult> {
+
+	// Fetch the dataset file asynchronously
+	const response = await fetch(dataPath);
+	const text = await response.text();
+
+	const result = await parseAirlinerData(
+		text,
+		format ?? detectAirlinerDataFormat(dataPath, response.headers.get("content-type"), text)
+	);
+
+	warnRejectedRows(dataPath, result);
+	return result;
+}
+
+/**
+ * Reads and parses an airliner dataset from a local file, e.g. one dropped onto the page or picked
+ * with a file input. Goes through the same detection and validation as `loadAirlinerData`.
+ *
+ * @param file The file to read
+ * @param format Optional. Forces a format instead of detecting it.
+ * @returns Promise<AirlinerDataLoadResult> The valid airliner rows and a list of diagnostics
+ */
+export async function readAirlinerDataFile(file: File, format?: AirlinerDataFormat): Promise<AirlinerDataLoadResult> {
+	const text = await file.text();
+	return parseAirlinerData(text, format ?? detectAirlinerDataFormat(file.name, file.type, text));
+}
+
+/**
+ * @type {AirlinerDataStreamProgress}
+ * @description How far a streamed dataset has loaded; see `streamAirlinerData`.
+ *
+ * @property {number} rowsParsed - The number of data rows parsed so far, valid or not.
+ * @property {number} bytesLoaded - The number of bytes received so far.
+ * @property {number | null} bytesTotal - The size of the file in bytes, if known.
+ * @property {AirlinerStats[]} data - The airliners parsed so far that pass the row rules.
+ */
+export type AirlinerDataStreamProgress = {
+	rowsParsed: number;
+	bytesLoaded: number;
+	bytesTotal: number | null;
+	data: AirlinerStats[];
+}
+
+/**
+ * Loads an airliner dataset like `loadAirlinerData`, but parses CSV rows as they arrive
+ * instead of waiting for the whole file, so that a chart can fill in while a large file loads.
+ *
+ * `onProgress` is called after each chunk with the rows parsed and bytes loaded so far, and the
+ * airliners that pass the row rules so far. Rules across the whole dataset, such as duplicate IDs,
+ * only run once the stream completes; the returned result is the same as `loadAirlinerData`'s.
+ * JSON and NDJSON files report bytes loaded, but are only parsed once they have fully loaded.
+ *
+ * @param dataPath Path to the dataset file (relative to public/)
+ * @param onProgress Called with the progress after each chunk
+ * @param format Optional. Forces a format instead of detecting it.
+ * @returns Promise<AirlinerDataLoadResult> The valid airliner rows and a list of diagnostics
+ */
+export async function streamAirlinerData(
+	dataPath: string,
+	onProgress: (progress: AirlinerDataStreamProgress) => void,
+	format?: AirlinerDataFormat
+): Promise<AirlinerDataLoadResult> {
+	const response = await fetch(dataPath);
+	const contentType = response.headers.get("content-type");
+
+	// Content-Length counts compressed bytes, so it is only a file size when the response is not encoded
+	const contentLength = response.headers.get("content-length");
+	const bytesTotal = contentLength && !response.headers.get("content-encoding") ? Number(contentLength) : null;
+
+	// Without a readable body, fall back to parsing the whole file
+	const result = response.body
+		? await readAirlinerDataStream(response.body, { name: dataPath, contentType, bytesTotal }, onProgress, format)
+		: await response.text().then(text => parseAirlinerData(text, format ?? detectAirlinerDataFormat(dataPath, contentType, text)));
+
+	warnRejectedRows(dataPath, result);
+	return result;
+}
+
+/**
+ * Streams an airliner dataset from a local file; see `streamAirlinerData`.
+ *
+ * @param file The file to read
+ * @param onProgress Called with the progress after each chunk
+ * @param format Optional. Forces a format instead of detecting it.
+ * @returns Promise<AirlinerDataLoadResult> The valid airliner rows and a list of diagnostics
+ */
+export function streamAirlinerDataFile(
+	file: File,
+	onProgress: (progress: AirlinerDataStreamProgress) => void,
+	format?: AirlinerDataFormat
+): Promise<AirlinerDataLoadResult> {
+	return readAirlinerDataStream(file.stream(), { name: file.name, contentType: file.type, bytesTotal: file.size }, onProgress, format);
+}
+
+/**
+ * @function warnRejectedRows
+ * @description Logs how many rows of a loaded dataset were skipped for validation errors, if any.
+ */
+function warnRejectedRows(dataPath: string, result: AirlinerDataLoadResult) {
+	const rejectedCount = result.diagnostics.filter(diagnostic => diagnostic.severity === "error").length;
+	if (rejectedCount > 0) {
+		console.warn(`[AirlinerDataProcessor] ${dataPath} has ${rejectedCount} validation error(s); the affected rows were skipped.`);
+	}
+}
+
+/**
+ * @function detectAirlinerDataFormat
+ * @description Picks the format of an airliner dataset.
+ * Checks the file extension first, then the content type, then sniffs the content:
+ * text starting with `[` is JSON, text starting with `{` is NDJSON, anything else is CSV.
+ *
+ * @param dataPath - The file path or URL.
+ * @param contentType - Optional. The MIME type the file was served or picked with.
+ * @param text - Optional. The file contents, for sniffing.
+ * @returns The detected format.
+ */
+export function detectAirlinerDataFormat(
+	dataPath: string,
+	contentType?: string | null,
+	text?: string
+): AirlinerDataFormat {
+	// File extension, ignoring any query string or fragment
+	const extension = dataPath.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+	if (extension === "csv") return "csv";
+	if (extension === "json") return "json";
+	if (extension === "ndjson" || extension === "jsonl") return "ndjson";
+
+	// Content type, ignoring parameters such as charset
+	const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+	if (mimeType === "text/csv") return "csv";
+	if (mimeType === "application/json") return "json";
+	if (mimeType === "application/x-ndjson" || mimeType === "application/jsonl") return "ndjson";
+
+	// Content sniffing
+	const firstCharacter = text?.trimStart()[0];
+	if (firstCharacter === "[") return "json";
+	if (firstCharacter === "{") return "ndjson";
+	return "csv";
+}
+
+/**
+ * @function parseAirlinerData
+ * @description Parses an airliner dataset in the given format.
+ *
+ * @param text - The file contents.
+ * @param format - The format of the contents.
+ * @returns Promise<AirlinerDataLoadResult> The valid airliner rows and a list of diagnostics
+ */
+export function parseAirlinerData(text: string, format: AirlinerDataFormat): Promise<AirlinerDataLoadResult> {
+	switch (format) {
+		case "csv":
+			return parseAirlinerCSV(text);
+		case "json":
+			return parseAirlinerJSON(text);
+		case "ndjson":
+			return parseAirlinerNDJSON(text);
+	}
+}
+
+/**
+ * Parses airliner CSV text into Airliner objects.
  * This parser expects the CSV to have:
  *   - The first row as headers (field names)
- *   - The second row as type hints (e.g., 'string', 'number')
+ *   - The second row as type hints (e.g., 'string', 'int', 'enum(wide|narrow)'; see `airliner-type-hints`)
  *   - Data rows after that
  *   - Comment lines (starting with #) and empty lines are ignored
  *
  * The parser dynamically maps headers and types, so you don't need to hardcode field names.
  * It uses PapaParse for robust CSV parsing.
  *
- * @param csvPath Path to the CSV file (relative to public/)
- * @returns Promise<Airliner[]> Array of parsed airliner objects
+ * Values are coerced according to the type hint row, then validated by `validateAirlinerRecords`.
+ * Files whose headers match a known column mapping (see `airliner-column-mappings`) have no
+ * type row, and are imported through `importAirlinerCSV` instead.
+ *
+ * @param csvText The CSV file contents
+ * @returns Promise<AirlinerDataLoadResult> The valid airliner rows and a list of diagnostics
+ */
+export async function parseAirlinerCSV(csvText: string): Promise<AirlinerDataLoadResult> {
+	const reader = createCSVRecordReader();
+	reader.read(readCSVRows(csvText).rows);
+	return reader.validate();
+}
+
+/**
+ * Imports CSV text in a legacy or third-party column layout into Airliner objects.
+ * The file needs no type row: each row is converted with the column mapping, then coerced
+ * with `AIRLINER_FIELD_TYPE_HINTS` and validated like any other dataset.
+ * Columns the mapping does not use are ignored.
+ *
+ * @param csvText The CSV file contents
+ * @param mapping The column mapping for the file's layout
+ * @returns Promise<AirlinerDataLoadResult> The valid airliner rows and a list of diagnostics
+ */
+export async function importAirlinerCSV(csvText: string, mapping: AirlinerColumnMapping): Promise<AirlinerDataLoadResult> {
+	const reader = createCSVRecordReader(mapping);
+	reader.read(readCSVRows(csvText).rows);
+	return reader.validate();
+}
+
+/**
+ * Parses a payload–range file: a companion to an airliner dataset holding each airliner's
+ * payload–range diagram, one point per row, keyed by `airlinerID`.
+ *
+ * Laid out like an airliner CSV, with a header row and a type hint row, and the columns
+ * `airlinerID`, `point` (`maxPayload`, `maxFuel` or `ferry`), `rangeKM` and `payloadKG`.
+ * Values are coerced with `PAYLOAD_RANGE_FIELD_TYPE_HINTS`; other columns are ignored.
+ *
+ * Points missing a value, with a range that is not positive or a negative payload, or repeating
+ * a point already given for the airliner, are rejected. A diagram whose payload rises with range,
+ * or whose points come in the wrong order, is kept with a warning.
+ *
+ * @param csvText The CSV file contents
+ * @returns Promise<AirlinerPayloadRangeLoadResult> The diagrams, each sorted by range, and a list of diagnostics
+ * @throws {Error} If the file has no type row, or lacks one of the columns
+ */
+export async function parsePayloadRangeCSV(csvText: string): Promise<AirlinerPayloadRangeLoadResult> {
+	const [header, typeRow, ...dataRows] = readCSVRows(csvText).rows;
+	if (!header || !typeRow) {
+		throw new Error("CSV missing type row");
+	}
+
+	const fields = header.values.map(value => value.trim());
+	const missingFields = Object.keys(PAYLOAD_RANGE_FIELD_TYPE_HINTS).filter(field => !fields.includes(field));
+	if (missingFields.length > 0) {
+		throw new Error(`Payload–range CSV missing column(s): ${missingFields.join(", ")}`);
+	}
+
+	const diagnostics: AirlinerDataDiagnostic[] = [];
+	const curves: Record<string, (AirlinerPayloadRangePoint & { line: number })[]> = {};
+
+	dataRows.forEach(({ line, values }) => {
+		// Coerce each value, reporting and ignoring invalid ones
+		const row: Record<string, unknown> = {};
+		Object.entries(PAYLOAD_RANGE_FIELD_TYPE_HINTS).forEach(([field, typeHint]) => {
+			const { value, problem } = coerceValue(values[fields.indexOf(field)], typeHint);
+			if (problem) {
+				diagnostics.push({ line, field, rule: "type", severity: "warning", message: `${problem}, value ignored` });
+			}
+			row[field] = value;
+		});
+
+		const reject = (field: string | null, rule: string, message: string) => {
+			diagnostics.push({ line, field, rule, severity: "error", message });
+		};
+
+		const missingField = Object.keys(PAYLOAD_RANGE_FIELD_TYPE_HINTS).find(field => row[field] === undefined);
+		if (missingField) return reject(missingField, "required-field", `${missingField} undefined`);
+
+		const { airlinerID, point, rangeKM, payloadKG } = row as { airlinerID: string } & AirlinerPayloadRangePoint;
+		if (rangeKM <= 0) return reject("rangeKM", "positive-value", `rangeKM must be positive, got ${rangeKM}`);
+		if (payloadKG < 0) return reject("payloadKG", "non-negative-value", `payloadKG must not be negative, got ${payloadKG}`);
+
+		const curve = curves[airlinerID] ??= [];
+		if (curve.some(existing => existing.point === point)) {
+			return reject("point", "unique-point", `${airlinerID} already has a ${point} point`);
+		}
+		curve.push({ point, rangeKM, payloadKG, line });
+	});
+
+	// Sort each diagram by range, and check that payload falls as range rises
+	Object.values(curves).forEach(curve => {
+		curve.sort((a, b) => a.rangeKM - b.rangeKM);
+		curve.forEach((current, index) => {
+			const previous = curve[index - 1];
+			if (!previous) return;
+			if (AIRLINER_PAYLOAD_RANGE_POINTS.indexOf(previous.point) > AIRLINER_PAYLOAD_RANGE_POINTS.indexOf(current.point)) {
+				diagnostics.push({ line: current.line, field: "point", rule: "payload-range-order", severity: "warning", message: `${current.point} point has more range than the ${previous.point} point` });
+			}
+			if (current.payloadKG > previous.payloadKG) {
+				diagnostics.push({ line: current.line, field: "payloadKG", rule: "payload-range-order", severity: "warning", message: `payloadKG (${current.payloadKG}) is greater than at the shorter-range ${previous.point} point (${previous.payloadKG})` });
+			}
+		});
+	});
+
+	diagnostics.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+
+	return {
+		curves: Object.fromEntries(Object.entries(curves).map(([airlinerID, curve]) => [
+			airlinerID,
+			curve.map(({ point, rangeKM, payloadKG }) => ({ point, rangeKM, payloadKG })),
+		])),
+		diagnostics,
+	};
+}
+
+/**
+ * @type {CSVRow}
+ * @description A row read by PapaParse, paired with the line number it came from.
+ */
+type CSVRow = {
+	line: number;
+	values: string[];
+	errors: Papa.ParseError[];
+}
+
+/**
+ * @type {CSVDialect}
+ * @description The delimiter and line break PapaParse detected in a CSV file.
+ * Passed back in when parsing later chunks of the same file, so that every chunk is read alike.
+ */
+type CSVDialect = {
+	delimiter: string;
+	linebreak: string;
+}
+
+/**
+ * @function readCSVRows
+ * @description Reads CSV text into rows of values, recording the line number of each.
+ * Comment lines (starting with #) and empty lines are skipped.
+ *
+ * The text may be a chunk of a larger file, as long as it ends on a row boundary.
+ *
+ * @param csvText - The CSV text.
+ * @param firstLine - Optional. The line number the text starts on. Defaults to 1.
+ * @param dialect - Optional. The delimiter and line break to use instead of detecting them.
+ * @returns Every row in the text, and the dialect it was read with.
+ */
+function readCSVRows(csvText: string, firstLine: number = 1, dialect?: CSVDialect): { rows: CSVRow[]; dialect: CSVDialect } {
+
+	// Collected rows, each paired with the line number it came from
+	const rows: CSVRow[] = [];
+	let detectedDialect = dialect ?? { delimiter: ",", linebreak: "\n" };
+
+	// Tracks how far into the text line numbers have been counted
+	const lineCounter = createLineCounter(csvText);
+
+	// Parsing a string is synchronous, so the rows are all collected once this returns
+	Papa.parse<string[]>(csvText, {
+		skipEmptyLines: "greedy",
+		comments: "#",
+		delimiter: dialect?.delimiter,
+		newline: dialect?.linebreak as Papa.ParseConfig["newline"],
+
+		// Record each row with its line number as it is parsed
+		step: (results: ParseStepResult<string[]>) => {
+			detectedDialect = { delimiter: results.meta.delimiter, linebreak: results.meta.linebreak };
+			rows.push({
+				line: firstLine - 1 + lineCounter(results.meta.cursor),
+				values: results.data,
+				errors: results.errors,
+			});
+		},
+	});
+
+	return { rows, dialect: detectedDialect };
+}
+
+/**
+ * @type {CSVRecordReader}
+ * @description Turns CSV rows into source records, a batch at a time.
+ *
+ * @property {function} read - Reads the next batch of rows, returning the data records found in it.
+ * @property {function} check - Returns the records of a batch that pass the row rules, without reporting diagnostics.
+ * @property {function} validate - Validates every record read so far, reporting every diagnostic.
  */
-export async function loadAirlinerData(csvPath: string): Promise<AirlinerStats[]> {
+type CSVRecordReader = {
+	read: (rows: CSVRow[]) => SourceRecord[];
+	check: (batch: SourceRecord[]) => AirlinerStats[];
+	validate: () => AirlinerDataLoadResult;
+}
+
+/**
+ * @function createCSVRecordReader
+ * @description Creates a reader that turns CSV rows into source records.
+ *
+ * The first row read is the header. If it matches a known column mapping, or a mapping is given,
+ * rows are converted through the mapping and coerced with `AIRLINER_FIELD_TYPE_HINTS`. Otherwise
+ * the second row holds the type hints. PapaParse's structural problems, and rows with a missing
+ * or extra column, are reported as warnings.
+ *
+ * @param mapping - Optional. A column mapping to use regardless of the header.
+ * @returns The record reader.
+ */
+function createCSVRecordReader(mapping: AirlinerColumnMapping | null = null): CSVRecordReader {
+	const diagnostics: AirlinerDataDiagnostic[] = [];
+	const records: SourceRecord[] = [];
+	let fields: string[] | null = null;
+	let typeHints: Map<string, TypeHint> | null = null;
+
+	// Reads the header row, picking the column mapping it matches, if any
+	const readHeader = ({ values }: CSVRow) => {
+		fields = values;
+		mapping = mapping ?? findAirlinerColumnMapping(fields);
+		if (mapping) {
+			typeHints = new Map(Object.entries(AIRLINER_FIELD_TYPE_HINTS));
+		}
+	};
 
-	// Fetch the CSV file asynchronously
-	const response = await fetch(csvPath);
-	const csvText = await response.text();
+	// Parses the type hints, falling back to text for hints the parser does not understand
+	const readTypeRow = ({ line, values }: CSVRow) => {
+		typeHints = new Map();
+		fields!.forEach((field, index) => {
+			if (index >= values.length) return;
+			const typeHint = parseTypeHint(values[index]);
+			if (!typeHint) {
+				diagnostics.push({
+					line,
+					field,
+					rule: "type-hint",
+					severity: "warning",
+					message: `Unknown type hint "${values[index]}", value kept as text`,
+				});
+			}
+			typeHints!.set(field, typeHint ?? { kind: "string" });
+		});
+	};
+
+	// Reports PapaParse's problems with a row, and a missing or extra column, as warnings
+	const reportRowErrors = (line: number, values: string[], errors: Papa.ParseError[]) => {
+		const messages = errors.map(error => error.message);
+		if (values.length > fields!.length) {
+			messages.push(`Too many fields: expected ${fields!.length} fields but parsed ${values.length}`);
+		} else if (values.length < fields!.length) {
+			messages.push(`Too few fields: expected ${fields!.length} fields but parsed ${values.length}`);
+		}
+		messages.forEach(message => {
+			diagnostics.push({ line, field: null, rule: "csv-parse", severity: "warning", message });
+		});
+	};
 
-	// Parse the CSV asynchronously
-	return new Promise((resolve, reject) => {
-		Papa.parse(csvText, {
-			header: true,
-			skipEmptyLines: "greedy",
-			comments: "#",
-			transform: (value, field) => {
-				if (value === "" && field === 0) {
-					return null;
+	// Keys a data row by the header, dropping extra columns (already reported as a warning)
+	const readDataRow = ({ line, values, errors }: CSVRow): SourceRecord => {
+		reportRowErrors(line, values, errors);
+		const row: Record<string, string> = {};
+		fields!.forEach((field, index) => {
+			if (index < values.length) row[field] = values[index];
+		});
+		return { line, values: mapping ? mapAirlinerColumns(row, records.length, mapping) : row };
+	};
+
+	return {
+		read: rows => {
+			const batch: SourceRecord[] = [];
+			rows.forEach(row => {
+				if (!fields) {
+					readHeader(row);
+				} else if (!typeHints) {
+					readTypeRow(row);
+				} else {
+					const record = readDataRow(row);
+					records.push(record);
+					batch.push(record);
 				}
-				return value;
-			},
-
-			// When the CSV is fully parsed, process the data
-			complete: (results: ParseResult<any>) => {
-				// If the CSV is missing a row of type hints, reject the promise
-				const typeRow = results.data[0];
-				if (!typeRow) {
-					reject(new Error("CSV missing type row"));
-					return;
+			});
+			return batch;
+		},
+
+		check: batch => typeHints ? validateAirlinerRecords(batch, typeHints, []).data : [],
+
+		// If the CSV is missing a row of type hints, reject
+		validate: () => {
+			if (!typeHints) {
+				if (mapping) return { data: [], diagnostics };
+				throw new Error("CSV missing type row");
+			}
+			return validateAirlinerRecords(records, typeHints, diagnostics);
+		},
+	};
+}
+
+/**
+ * @function readAirlinerDataStream
+ * @description Reads an airliner dataset from a stream of bytes, parsing CSV rows as each chunk arrives.
+ * The format is detected from the first chunk with any content, unless given.
+ *
+ * @param stream - The file contents.
+ * @param source - The file name or URL, its content type, and its size if known.
+ * @param onProgress - Called with the progress after each chunk.
+ * @param format - Optional. Forces a format instead of detecting it.
+ * @returns The valid airliner rows and a list of diagnostics.
+ */
+async function readAirlinerDataStream(
+	stream: ReadableStream<Uint8Array>,
+	source: { name: string; contentType: string | null; bytesTotal: number | null },
+	onProgress: (progress: AirlinerDataStreamProgress) => void,
+	format?: AirlinerDataFormat
+): Promise<AirlinerDataLoadResult> {
+	const reader = stream.getReader();
+	const decoder = new TextDecoder();
+	const csvParser = createCSVStreamParser();
+	const progress: AirlinerDataStreamProgress = { rowsParsed: 0, bytesLoaded: 0, bytesTotal: source.bytesTotal, data: [] };
+
+	// Text not yet parsed: the text before the format is known, or the whole file for JSON formats
+	let text = "";
+	let streamFormat: AirlinerDataFormat | null = format ?? null;
+
+	while (true) {
+		const { done, value } = await reader.read();
+		progress.bytesLoaded += value?.byteLength ?? 0;
+		text += decoder.decode(value, { stream: !done });
+
+		// Sniff the format once there is some content to sniff
+		if (!streamFormat && (text.trim() || done)) {
+			streamFormat = detectAirlinerDataFormat(source.name, source.contentType, text);
+		}
+
+		// Parse every complete CSV row received so far
+		if (streamFormat === "csv") {
+			const batch = csvParser.push(text);
+			if (done) batch.push(...csvParser.finish());
+			text = "";
+
+			progress.rowsParsed += batch.length;
+			progress.data = progress.data.concat(csvParser.check(batch));
+		}
+
+		if (done) break;
+		onProgress({ ...progress });
+	}
+
+	return streamFormat === "csv" ? csvParser.validate() : parseAirlinerData(text, streamFormat!);
+}
+
+/**
+ * @function createCSVStreamParser
+ * @description Creates a parser for CSV text that arrives in arbitrary chunks.
+ *
+ * Text is held back until it ends on a row boundary: a line break outside quotes and comments.
+ * Each complete run of rows is then read with the line numbers and dialect of the file so far,
+ * so the records are the same as those read from the whole text by `parseAirlinerCSV`.
+ *
+ * @returns The parser: `push` adds text and returns the records completed by it, `finish` returns
+ * the records left in any trailing text, and `check` and `validate` are those of `CSVRecordReader`.
+ */
+function createCSVStreamParser() {
+	const recordReader = createCSVRecordReader();
+
+	// Text received but not yet parsed, and how far into it row boundaries have been found
+	let pending = "";
+	let scannedTo = 0;
+	let rowsEnd = 0;
+	let isQuoted = false;
+	let isComment = false;
+
+	// The line the pending text starts on, and the dialect detected in the first rows
+	let nextLine = 1;
+	let dialect: CSVDialect | undefined;
+
+	const parse = (chunk: string): SourceRecord[] => {
+		const { rows, dialect: chunkDialect } = readCSVRows(chunk, nextLine, dialect);
+		if (rows.length > 0) dialect = dialect ?? chunkDialect;
+		nextLine += chunk.split("\n").length - 1;
+		return recordReader.read(rows);
+	};
+
+	return {
+		push: (text: string): SourceRecord[] => {
+			pending += text;
+			for (; scannedTo < pending.length; scannedTo++) {
+				const character = pending[scannedTo];
+				const isLineStart = scannedTo === 0 || pending[scannedTo - 1] === "\n";
+				if (isLineStart && !isQuoted && character === "#") {
+					isComment = true;
+				} else if (character === "\n" && !isQuoted) {
+					isComment = false;
+					rowsEnd = scannedTo + 1;
+				} else if (character === "\"" && !isComment) {
+					isQuoted = !isQuoted;
 				}
+			}
 
-				// Process the data
-				const data: (AirlinerStats | null)[] = results.data.slice(1).map((row: any, idx: number) => {
-					const obj: any = {};
-					Object.keys(row).forEach(key => {
-						const type = typeRow[key];
-						let value = row[key];
-						if (type === "number") {
-							value = value === undefined || value === "" ? undefined : Number(value);
-						} else if (type === "string") {
-							value = value === "" ? undefined : value;
-						}
-						obj[key] = value;
-					});
-
-					// Return the validated data
-					const validatedData = validateAirlinerData(obj);
-					if (!validatedData) {
-						return null;
-					}
-					return validatedData;
+			if (rowsEnd === 0) return [];
+			const chunk = pending.slice(0, rowsEnd);
+			pending = pending.slice(rowsEnd);
+			scannedTo -= rowsEnd;
+			rowsEnd = 0;
+			return parse(chunk);
+		},
+
+		finish: (): SourceRecord[] => {
+			const chunk = pending;
+			pending = "";
+			scannedTo = 0;
+			return chunk ? parse(chunk) : [];
+		},
+
+		check: recordReader.check,
+		validate: recordReader.validate,
+	};
+}
+
+/**
+ * Parses a JSON array of airliner objects into Airliner objects.
+ * Field values may be typed (`2003`, `true`, `["a", "b"]`) or given as text, and are
+ * coerced with `AIRLINER_FIELD_TYPE_HINTS`. Fields outside the schema are dropped with a warning.
+ *
+ * @param jsonText The JSON file contents
+ * @returns Promise<AirlinerDataLoadResult> The valid airliner rows and a list of diagnostics
+ */
+export async function parseAirlinerJSON(jsonText: string): Promise<AirlinerDataLoadResult> {
+	const parsed: unknown = JSON.parse(jsonText);
+	if (!Array.isArray(parsed)) {
+		throw new Error("JSON dataset must be an array of airliner objects");
+	}
+
+	// Line on which each array element starts, for diagnostics
+	const elementLines = locateJSONArrayElements(jsonText);
+
+	const records: SourceRecord[] = [];
+	const diagnostics: AirlinerDataDiagnostic[] = [];
+
+	parsed.forEach((element, index) => {
+		const line = elementLines[index] ?? null;
+		if (!isPlainObject(element)) {
+			diagnostics.push({ line, field: null, rule: "record-shape", severity: "error", message: "Array element is not an object" });
+			return;
+		}
+		records.push({ line, values: element });
+	});
+
+	return validateAirlinerRecords(records, new Map(Object.entries(AIRLINER_FIELD_TYPE_HINTS)), diagnostics);
+}
+
+/**
+ * Parses newline-delimited JSON, one airliner object per line, into Airliner objects.
+ * Blank lines are ignored. Lines that are not valid JSON objects are reported and skipped.
+ * Values are coerced as in `parseAirlinerJSON`.
+ *
+ * @param ndjsonText The NDJSON file contents
+ * @returns Promise<AirlinerDataLoadResult> The valid airliner rows and a list of diagnostics
+ */
+export async function parseAirlinerNDJSON(ndjsonText: string): Promise<AirlinerDataLoadResult> {
+	const records: SourceRecord[] = [];
+	const diagnostics: AirlinerDataDiagnostic[] = [];
+
+	ndjsonText.split("\n").forEach((text, index) => {
+		const line = index + 1;
+		if (text.trim() === "") return;
+
+		let element: unknown;
+		try {
+			element = JSON.parse(text);
+		} catch (error) {
+			diagnostics.push({ line, field: null, rule: "json-parse", severity: "error", message: (error as Error).message });
+			return;
+		}
+
+		if (!isPlainObject(element)) {
+			diagnostics.push({ line, field: null, rule: "record-shape", severity: "error", message: "Line is not a JSON object" });
+			return;
+		}
+		records.push({ line, values: element });
+	});
+
+	return validateAirlinerRecords(records, new Map(Object.entries(AIRLINER_FIELD_TYPE_HINTS)), diagnostics);
+}
+
+/**
+ * @function formatAirlinerDataDiagnostic
+ * @description Formats a diagnostic as a single line of text for logs and the console,
+ * e.g. `public/data/airliners.csv:7  warning  pax-limit-exit (paxLimit)  paxLimit (180) is greater than paxExit (170)`.
+ *
+ * @param diagnostic - The diagnostic to format.
+ * @param dataPath - The path of the dataset the diagnostic came from.
+ * @returns The formatted diagnostic.
+ */
+export function formatAirlinerDataDiagnostic({ line, field, rule, severity, message }: AirlinerDataDiagnostic, dataPath: string): string {
+	return `${dataPath}:${line ?? "-"}  ${severity.padEnd(7)}  ${rule}${field ? ` (${field})` : ""}  ${message}`;
+}
+
+/**
+ * @type {SourceRecord}
+ * @description A raw record read from a dataset file, before coercion and validation.
+ *
+ * @property {number | null} line - The source line number of the record.
+ * @property {Record<string, unknown>} values - The raw field values, keyed by field name.
+ */
+type SourceRecord = {
+	line: number | null;
+	values: Record<string, unknown>;
+}
+
+/**
+ * @function validateAirlinerRecords
+ * @description Coerces and validates raw records from any source format.
+ *
+ * Each value is coerced with its field's type hint. Fields outside the `AirlinerStats` schema, such as
+ * the computed columns of an export, are dropped, with a warning at the first record each appears in.
+ * Each record is then checked against the rules in `airliner-data-rules`, then the dataset
+ * as a whole. Records that break an error rule are left out of the returned data. Every problem
+ * found along the way is reported as a diagnostic carrying the source line number, so that
+ * nothing is dropped silently.
+ *
+ * @param records - The raw records, in source order.
+ * @param typeHints - Type hints keyed by field name.
+ * @param diagnostics - Diagnostics already found while reading the source. Appended to.
+ * @returns The valid airliner rows and every diagnostic, in source order.
+ */
+function validateAirlinerRecords(
+	records: SourceRecord[],
+	typeHints: Map<string, TypeHint>,
+	diagnostics: AirlinerDataDiagnostic[]
+): AirlinerDataLoadResult {
+
+	const validRows: { line: number | null; airliner: AirlinerStats }[] = [];
+
+	// Fields outside the schema already reported, so that each is only reported once
+	const unknownFields = new Set<string>();
+
+	records.forEach(({ line, values }) => {
+		// Coerce each value according to its field's type hint
+		const obj: any = {};
+		Object.keys(values).forEach(key => {
+			if (!(key in AIRLINER_FIELD_TYPE_HINTS)) {
+				if (!unknownFields.has(key)) {
+					unknownFields.add(key);
+					diagnostics.push({ line, field: key, rule: "unknown-field", severity: "warning", message: `${key} is not an airliner field, column ignored` });
+				}
+				return;
+			}
+
+			const typeHint = typeHints.get(key);
+			if (!typeHint) {
+				obj[key] = values[key];
+				return;
+			}
+
+			const { value, problem } = coerceValue(values[key], typeHint);
+			if (problem) {
+				diagnostics.push({
+					line,
+					field: key,
+					rule: "type",
+					severity: "warning",
+					message: `${problem}, ${value === undefined ? "value" : "invalid items"} ignored`,
 				});
-				resolve(data as AirlinerStats[]);
-			},
-			error: (error: any) => {
-				reject(error);
-			},
+			}
+			obj[key] = value;
 		});
+
+		// Keep the record unless a row rule reported an error
+		const rowDiagnostics = checkAirlinerRow(obj, line);
+		diagnostics.push(...rowDiagnostics);
+		if (!rowDiagnostics.some(diagnostic => diagnostic.severity === "error")) {
+			validRows.push({ line, airliner: obj as AirlinerStats });
+		}
 	});
+
+	// Check the surviving records against each other, dropping records with dataset errors
+	const { diagnostics: datasetDiagnostics, rejectedIndices } = checkAirlinerDataset(
+		validRows.map(({ airliner }) => airliner),
+		validRows.map(({ line }) => line)
+	);
+	diagnostics.push(...datasetDiagnostics);
+
+	const data = validRows
+		.filter((_, index) => !rejectedIndices.has(index))
+		.map(({ airliner }) => airliner);
+
+	// Report diagnostics in source order
+	diagnostics.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+
+	return { data, diagnostics };
 }
 
 /**
- * @function validateAirlinerData
- * @description Validates an airliner data object.
- * 
- * @param data - The airliner data to validate.
- * @returns The validated airliner data, or null if the data is invalid.
+ * @function isPlainObject
+ * @description Checks whether a parsed JSON value is an object, as opposed to an array or primitive.
  */
-function validateAirlinerData(data: AirlinerStats): AirlinerStats | null {
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
 
-	function logValidationWarning(reason: string) {
-		console.warn(`[AirlinerDataProcessor] Airliner data is not valid. ${reason}, data:`, data);
-	}
+/**
+ * @function locateJSONArrayElements
+ * @description Finds the line on which each element of a top-level JSON array starts.
+ * Assumes the text is valid JSON.
+ *
+ * @param text - The JSON text.
+ * @returns The 1-based line number of each top-level array element, in order.
+ */
+function locateJSONArrayElements(text: string): number[] {
+	const lines: number[] = [];
+	let line = 1;
+	let depth = 0;
+	let inString = false;
+	let escaped = false;
+	let expectingElement = false;
 
-	// A range must be defined
-	if (!data.rangeKM) {
-		logValidationWarning("rangeKM undefined");
-		return null;
-	}
+	for (const character of text) {
+		if (character === "\n") line++;
 
-	// A manufacturer must be defined
-	if (!data.manufacturer) {
-		logValidationWarning("manufacturer undefined");
-		return null;
-	}
+		// Skip over string contents, minding escaped quotes
+		if (inString) {
+			if (escaped) escaped = false;
+			else if (character === "\\") escaped = true;
+			else if (character === "\"") inString = false;
+			continue;
+		}
 
-	// A family must be defined
-	if (!data.family) {
-		logValidationWarning("family undefined");
-		return null;
-	}
+		// The first significant character after `[` or `,` starts an element
+		if (depth === 1 && expectingElement && !/\s/.test(character) && character !== "]") {
+			lines.push(line);
+			expectingElement = false;
+		}
 
-	// An ICAO code must be defined
-	if (!data.nameICAO) {
-		logValidationWarning("nameICAO undefined");
-		return null;
-	}
-	
-	// At least one pax class must be defined
-	if (!data.pax3Class && !data.pax2Class && !data.pax1Class) {
-		logValidationWarning("No pax classes defined");
-		return null;
+		if (character === "\"") {
+			inString = true;
+		} else if (character === "[" || character === "{") {
+			depth++;
+			if (depth === 1) expectingElement = true;
+		} else if (character === "]" || character === "}") {
+			depth--;
+		} else if (character === "," && depth === 1) {
+			expectingElement = true;
+		}
 	}
 
-	// Return the validated data
-	return data;
-}
\ No newline at end of file
+	return lines;
+}
+
+/**
+ * @function createLineCounter
+ * @description Creates a function that converts PapaParse cursor positions into line numbers.
+ * Cursors must be passed in increasing order; each call only scans the text added since the last.
+ * 
+ * @param text - The full CSV text being parsed.
+ * @returns A function returning the 1-based line number on which the row ending at `cursor` sits.
+ */
+function createLineCounter(text: string) {
+	let scannedTo = 0;
+	let newlineCount = 0;
+
+	return (cursor: number): number => {
+		// The cursor sits after the row's line break, if it has one
+		const rowEnd = text[cursor - 1] === "\n" ? cursor - 1 : cursor;
+
+		for (; scannedTo < rowEnd; scannedTo++) {
+			if (text[scannedTo] === "\n") newlineCount++;
+		}
+
+		return newlineCount + 1;
+	};
+}
@@ -0,0 +1,322 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerStats, AirlinerDataDiagnostic } from "@/lib/data/airliner-types";
+import { AIRLINER_STATUSES, AIRLINER_BODY_TYPES } from "@/lib/data/airliner-types";
+
+/**
+ * @type {AirlinerRowRule}
+ * @description A consistency rule checked against a single airliner row.
+ *
+ * @property {string} rule - Identifier reported in diagnostics, e.g. `delivery-order`.
+ * @property {"error" | "warning"} severity - Errors reject the row, warnings keep it.
+ * @property {keyof AirlinerStats | null} field - The field reported in diagnostics. Null if the rule concerns the whole row.
+ * @property {function} check - Returns a message describing the problem, or null if the row passes.
+ */
+export type AirlinerRowRule = {
+	rule: string;
+	severity: "error" | "warning";
+	field: keyof AirlinerStats | null;
+	check: (airliner: AirlinerStats) => string | null;
+}
+
+/**
+ * @type {AirlinerDatasetRule}
+ * @description A consistency rule checked across every row of a dataset, e.g. ID uniqueness.
+ *
+ * @property {string} rule - Identifier reported in diagnostics.
+ * @property {"error" | "warning"} severity - Errors reject the offending rows, warnings keep them.
+ * @property {keyof AirlinerStats | null} field - The field reported in diagnostics.
+ * @property {function} check - Returns the index and a message for every offending row.
+ */
+export type AirlinerDatasetRule = {
+	rule: string;
+	severity: "error" | "warning";
+	field: keyof AirlinerStats | null;
+	check: (airliners: AirlinerStats[]) => { index: number; message: string }[];
+}
+
+// Plausible bounds for delivery and production years
+const EARLIEST_YEAR = 1900;
+const LATEST_YEAR = 2100;
+
+/**
+ * Rule factory: the field must be defined.
+ */
+function required(field: keyof AirlinerStats): AirlinerRowRule {
+	return {
+		rule: "required-field",
+		severity: "error",
+		field,
+		check: airliner => airliner[field] ? null : `${field} undefined`,
+	};
+}
+
+/**
+ * Rule factory: the field, when defined, must be a positive number.
+ */
+function positive(field: keyof AirlinerStats): AirlinerRowRule {
+	return {
+		rule: "positive-value",
+		severity: "error",
+		field,
+		check: airliner => {
+			const value = airliner[field];
+			return typeof value === "number" && value <= 0 ? `${field} must be positive, got ${value}` : null;
+		},
+	};
+}
+
+/**
+ * Rule factory: when both fields are defined, `lower` must not exceed `upper`.
+ */
+function ordered(
+	rule: string,
+	severity: "error" | "warning",
+	lower: keyof AirlinerStats,
+	upper: keyof AirlinerStats
+): AirlinerRowRule {
+	return {
+		rule,
+		severity,
+		field: lower,
+		check: airliner => {
+			const lowerValue = airliner[lower];
+			const upperValue = airliner[upper];
+			if (typeof lowerValue !== "number" || typeof upperValue !== "number") return null;
+			return lowerValue > upperValue ? `${lower} (${lowerValue}) is greater than ${upper} (${upperValue})` : null;
+		},
+	};
+}
+
+/**
+ * Rule factory: the field, when defined, must be a plausible calendar year.
+ */
+function plausibleYear(field: keyof AirlinerStats): AirlinerRowRule {
+	return {
+		rule: "year-range",
+		severity: "warning",
+		field,
+		check: airliner => {
+			const value = airliner[field];
+			if (typeof value !== "number") return null;
+			return value < EARLIEST_YEAR || value > LATEST_YEAR ? `${field} (${value}) is not a plausible year` : null;
+		},
+	};
+}
+
+/**
+ * Rule factory: a limit marker field must not be under the largest passenger class,
+ * otherwise `plotAirlinerMarkerSeries` drops the marker.
+ */
+function aboveLargestClass(field: "paxLimit" | "paxExit"): AirlinerRowRule {
+	return {
+		rule: "pax-limit-order",
+		severity: "warning",
+		field,
+		check: airliner => {
+			const limit = airliner[field];
+			const classes = [airliner.pax3Class, airliner.pax2Class, airliner.pax1Class].filter((value): value is number => typeof value === "number");
+			if (typeof limit !== "number" || classes.length === 0) return null;
+			const largestClass = Math.max(...classes);
+			return limit < largestClass ? `${field} (${limit}) is under the largest class capacity (${largestClass}) and will not be plotted` : null;
+		},
+	};
+}
+
+/**
+ * Rule factory: the field must be unique across the dataset. Every repeat after the first is reported.
+ */
+function unique(field: keyof AirlinerStats): AirlinerDatasetRule {
+	return {
+		rule: "unique-id",
+		severity: "error",
+		field,
+		check: airliners => {
+			const seen = new Set<unknown>();
+			const violations: { index: number; message: string }[] = [];
+			airliners.forEach((airliner, index) => {
+				const value = airliner[field];
+				if (value === undefined) return;
+				if (seen.has(value)) {
+					violations.push({ index, message: `${field} ${value} is already used by an earlier row` });
+				} else {
+					seen.add(value);
+				}
+			});
+			return violations;
+		},
+	};
+}
+
+/**
+ * Rules checked against each airliner row, in the order they are reported.
+ */
+export const AIRLINER_ROW_RULES: AirlinerRowRule[] = [
+	// Presence
+	required("rangeKM"),
+	required("manufacturer"),
+	required("family"),
+	required("nameICAO"),
+	{
+		rule: "required-pax-class",
+		severity: "error",
+		field: null,
+		check: airliner => !airliner.pax3Class && !airliner.pax2Class && !airliner.pax1Class ? "No pax classes defined" : null,
+	},
+	{
+		rule: "recommended-field",
+		severity: "warning",
+		field: "nameCommon",
+		check: airliner => airliner.nameCommon ? null : "nameCommon undefined, the airliner will be unlabelled",
+	},
+
+	// Value ranges
+	positive("rangeKM"),
+	positive("pax3Class"),
+	positive("pax2Class"),
+	positive("pax1Class"),
+	positive("paxLimit"),
+	positive("paxExit"),
+	positive("mtowKG"),
+	positive("cruiseMach"),
+	positive("wingspanM"),
+	positive("lengthM"),
+	positive("fuelCapacityL"),
+	positive("engineCount"),
+	plausibleYear("firstDelivery"),
+	plausibleYear("manufactureEnd"),
+	{
+		rule: "mach-range",
+		severity: "warning",
+		field: "cruiseMach",
+		check: airliner => typeof airliner.cruiseMach === "number" && airliner.cruiseMach >= 1
+			? `cruiseMach (${airliner.cruiseMach}) is not a plausible subsonic Mach number`
+			: null,
+	},
+
+	// Capacity ordering: denser layouts must seat at least as many passengers
+	ordered("pax-class-order", "error", "pax3Class", "pax2Class"),
+	ordered("pax-class-order", "error", "pax2Class", "pax1Class"),
+	ordered("pax-class-order", "error", "pax3Class", "pax1Class"),
+	aboveLargestClass("paxLimit"),
+	aboveLargestClass("paxExit"),
+	ordered("pax-limit-exit", "warning", "paxLimit", "paxExit"),
+
+	// Dates
+	ordered("delivery-order", "error", "firstDelivery", "manufactureEnd"),
+
+	// Status consistency
+	// Enum type hints already reject unknown values; these catch sources without them
+	{
+		rule: "known-value",
+		severity: "warning",
+		field: "status",
+		check: airliner => !airliner.status || (AIRLINER_STATUSES as readonly string[]).includes(airliner.status) ? null : `Unknown status "${airliner.status}"`,
+	},
+	{
+		rule: "known-value",
+		severity: "warning",
+		field: "bodyType",
+		check: airliner => !airliner.bodyType || (AIRLINER_BODY_TYPES as readonly string[]).includes(airliner.bodyType) ? null : `Unknown body type "${airliner.bodyType}"`,
+	},
+	{
+		rule: "status-end",
+		severity: "error",
+		field: "manufactureEnd",
+		check: airliner => airliner.status === "retired" && !airliner.manufactureEnd ? "Retired airliner has no manufactureEnd" : null,
+	},
+	{
+		rule: "status-end",
+		severity: "warning",
+		field: "manufactureEnd",
+		check: airliner => airliner.status === "discontinued" && !airliner.manufactureEnd ? "Discontinued airliner has no manufactureEnd" : null,
+	},
+	{
+		rule: "status-end",
+		severity: "warning",
+		field: "manufactureEnd",
+		check: airliner => (airliner.status === "active" || airliner.status === "development") && airliner.manufactureEnd
+			? `Airliner is ${airliner.status} but has a manufactureEnd (${airliner.manufactureEnd})`
+			: null,
+	},
+	{
+		rule: "status-delivery",
+		severity: "warning",
+		field: "firstDelivery",
+		check: airliner => airliner.status && airliner.status !== "development" && !airliner.firstDelivery
+			? `Airliner is ${airliner.status} but has no firstDelivery`
+			: null,
+	},
+];
+
+/**
+ * Rules checked across the whole dataset, after the row rules.
+ */
+export const AIRLINER_DATASET_RULES: AirlinerDatasetRule[] = [
+	unique("idNumber"),
+];
+
+/**
+ * @function checkAirlinerRow
+ * @description Runs the row rules against a single airliner.
+ *
+ * @param airliner - The airliner row to check.
+ * @param line - The source line number of the row, used in diagnostics.
+ * @param rules - The rules to run. Defaults to `AIRLINER_ROW_RULES`.
+ * @returns Diagnostics for the row. The row is invalid if any of them is an error.
+ */
+export function checkAirlinerRow(
+	airliner: AirlinerStats,
+	line: number | null,
+	rules: AirlinerRowRule[] = AIRLINER_ROW_RULES
+): AirlinerDataDiagnostic[] {
+	const diagnostics: AirlinerDataDiagnostic[] = [];
+
+	rules.forEach(({ rule, severity, field, check }) => {
+		const message = check(airliner);
+		if (message) {
+			diagnostics.push({ line, field, rule, severity, message });
+		}
+	});
+
+	return diagnostics;
+}
+
+/**
+ * @type {AirlinerDatasetCheck}
+ * @description The outcome of running the dataset rules.
+ *
+ * @property {AirlinerDataDiagnostic[]} diagnostics - Diagnostics for the dataset, each tied to the offending row's line.
+ * @property {Set<number>} rejectedIndices - The indices of the rows an error rule reported, which are invalid.
+ *   Kept by index rather than line, as several rows can share a line, e.g. in minified JSON.
+ */
+export type AirlinerDatasetCheck = {
+	diagnostics: AirlinerDataDiagnostic[];
+	rejectedIndices: Set<number>;
+}
+
+/**
+ * @function checkAirlinerDataset
+ * @description Runs the dataset rules across a list of airliners.
+ *
+ * @param airliners - The airliner rows to check.
+ * @param lines - The source line number of each row, by index, used in diagnostics.
+ * @param rules - The rules to run. Defaults to `AIRLINER_DATASET_RULES`.
+ * @returns Diagnostics for the dataset, and the rows they make invalid.
+ */
+export function checkAirlinerDataset(
+	airliners: AirlinerStats[],
+	lines: (number | null)[],
+	rules: AirlinerDatasetRule[] = AIRLINER_DATASET_RULES
+): AirlinerDatasetCheck {
+	const diagnostics: AirlinerDataDiagnostic[] = [];
+	const rejectedIndices = new Set<number>();
+
+	rules.forEach(({ rule, severity, field, check }) => {
+		check(airliners).forEach(({ index, message }) => {
+			diagnostics.push({ line: lines[index] ?? null, field, rule, severity, message });
+			if (severity === "error") rejectedIndices.add(index);
+		});
+	});
+
+	return { diagnostics, rejectedIndices };
+}
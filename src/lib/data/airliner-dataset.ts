@@ -0,0 +1,54 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerData, AirlinerStats, AirlinerPayloadRangeData } from "@/lib/data/airliner-types";
+
+// Helpers for working with loaded datasets.
+// Kept apart from the parsers so that client code can use them without bundling PapaParse.
+
+/**
+ * @function createAirlinerData
+ * @description Pairs each validated airliner with the ID the chart tracks it by.
+ *
+ * @param airliners - The validated airliner rows.
+ * @returns Chart-ready airliner data.
+ */
+export function createAirlinerData(airliners: AirlinerStats[]): AirlinerData[] {
+	return airliners.map(airliner => ({
+		airlinerID: `${airliner.idNumber}-${airliner.nameICAO}`,
+		airlinerData: airliner,
+	}));
+}
+
+/**
+ * @function mergeAirlinerData
+ * @description Merges one dataset into another. Airliners in `incoming` replace those in `base`
+ * with the same `airlinerID`, keeping their position; the rest are appended.
+ *
+ * @param base - The dataset to merge into.
+ * @param incoming - The dataset to merge in.
+ * @returns The merged dataset.
+ */
+export function mergeAirlinerData(base: AirlinerData[], incoming: AirlinerData[]): AirlinerData[] {
+	const incomingByID = new Map(incoming.map(airliner => [airliner.airlinerID, airliner]));
+	const baseIDs = new Set(base.map(airliner => airliner.airlinerID));
+
+	return [
+		...base.map(airliner => incomingByID.get(airliner.airlinerID) ?? airliner),
+		...incoming.filter(airliner => !baseIDs.has(airliner.airlinerID)),
+	];
+}
+
+/**
+ * @function attachPayloadRange
+ * @description Pairs each airliner with its payload–range diagram, matched by `airlinerID`.
+ * Airliners without a diagram are left as they are.
+ *
+ * @param airliners - The dataset.
+ * @param curves - Payload–range diagrams keyed by `airlinerID`.
+ * @returns The dataset, with diagrams attached.
+ */
+export function attachPayloadRange(airliners: AirlinerData[], curves: AirlinerPayloadRangeData): AirlinerData[] {
+	return airliners.map(airliner => curves[airliner.airlinerID]
+		? { ...airliner, payloadRange: curves[airliner.airlinerID] }
+		: airliner
+	);
+}
@@ -0,0 +1,129 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerStats } from "@/lib/data/airliner-types";
+import type { AirlinerFieldFormat } from "@/lib/data/airliner-field-format";
+
+/**
+ * The IDs of the fields computed from `AirlinerStats`, in the order they are shown.
+ */
+export const AIRLINER_DERIVED_FIELD_IDS = ["seatKM", "seatsPerExit", "densityRatio"] as const;
+export type AirlinerDerivedFieldID = typeof AIRLINER_DERIVED_FIELD_IDS[number];
+
+/**
+ * @type {AirlinerField}
+ * @description Any field of an airliner: one read from the dataset, or one derived from them.
+ */
+export type AirlinerField = keyof AirlinerStats | AirlinerDerivedFieldID;
+
+/**
+ * @type {AirlinerDerivedField}
+ * @description A number computed from an airliner's stats, usable wherever a dataset field is.
+ *
+ * @property {string} label - A short name for the field, e.g. "Seat-km".
+ * @property {string} description - What the field measures and how it is computed.
+ * @property {function} compute - Computes the value, or returns undefined if the airliner lacks the fields it needs.
+ * @property {AirlinerFieldFormat} format - How the value is shown to readers.
+ */
+export type AirlinerDerivedField = {
+	label: string;
+	description: string;
+	compute: (airlinerStats: AirlinerStats) => number | undefined;
+	format: AirlinerFieldFormat;
+}
+
+/**
+ * @function ratio
+ * @description Divides two optional values, or returns undefined if either is missing or the divisor is zero.
+ */
+function ratio(numerator: number | undefined, denominator: number | undefined): number | undefined {
+	if (typeof numerator !== "number" || typeof denominator !== "number" || denominator === 0) return undefined;
+	return numerator / denominator;
+}
+
+/**
+ * @function getAirlinerSeats
+ * @description Reads the seat count an airliner is measured by wherever a single capacity is needed:
+ * the 2-class capacity, falling back to 3- then 1-class.
+ *
+ * @param airlinerStats - The airliner's stats.
+ * @returns The seat count, or undefined if the airliner has no class capacities.
+ */
+export function getAirlinerSeats({ pax2Class, pax3Class, pax1Class }: AirlinerStats): number | undefined {
+	return pax2Class ?? pax3Class ?? pax1Class;
+}
+
+/**
+ * Every derived field, declared once. Each is shown in the info panel, data table and export,
+ * and can be sorted by and plotted on an axis like a dataset field.
+ */
+export const AIRLINER_DERIVED_FIELDS: Record<AirlinerDerivedFieldID, AirlinerDerivedField> = {
+	seatKM: {
+		label: "Seat-km",
+		description: "Seats multiplied by range: how many seats can be flown how far. Uses the 2-class capacity, falling back to 3- then 1-class.",
+		compute: airlinerStats => {
+			const seats = getAirlinerSeats(airlinerStats);
+			return typeof seats === "number" && typeof airlinerStats.rangeKM === "number" ? seats * airlinerStats.rangeKM : undefined;
+		},
+		format: { unit: "seat-km" },
+	},
+	seatsPerExit: {
+		label: "Seats per exit limit",
+		description: "3-class capacity as a share of the exit limit.",
+		compute: ({ pax3Class, paxExit }) => ratio(pax3Class, paxExit),
+		format: { fractionDigits: 2 },
+	},
+	densityRatio: {
+		label: "Densification",
+		description: "1-class capacity over 3-class capacity: how many more seats a single-class layout fits.",
+		compute: ({ pax1Class, pax3Class }) => ratio(pax1Class, pax3Class),
+		format: { fractionDigits: 2 },
+	},
+};
+
+/**
+ * @function isAirlinerDerivedField
+ * @description Checks whether a field is derived rather than read from the dataset.
+ */
+export function isAirlinerDerivedField(field: AirlinerField): field is AirlinerDerivedFieldID {
+	return (AIRLINER_DERIVED_FIELD_IDS as readonly string[]).includes(field);
+}
+
+/**
+ * @function getAirlinerFieldValue
+ * @description Reads an airliner's value for any field, computing it if it is derived.
+ *
+ * @param airlinerStats - The airliner's stats.
+ * @param field - The field to read.
+ * @returns The value, or undefined if the airliner has none.
+ */
+export function getAirlinerFieldValue(airlinerStats: AirlinerStats, field: AirlinerField): AirlinerStats[keyof AirlinerStats] | undefined {
+	return isAirlinerDerivedField(field) ? AIRLINER_DERIVED_FIELDS[field].compute(airlinerStats) : airlinerStats[field];
+}
+
+/**
+ * @function compareAirlinerField
+ * @description Orders two airliners by a field: numbers numerically, text alphabetically,
+ * and airliners without a value last whichever the direction.
+ *
+ * @param a - The first airliner's stats.
+ * @param b - The second airliner's stats.
+ * @param field - The field to compare.
+ * @param direction - Optional. "ascending" or "descending". Defaults to ascending.
+ * @returns A negative number if `a` comes first, a positive number if `b` does, or 0.
+ */
+export function compareAirlinerField(
+	a: AirlinerStats,
+	b: AirlinerStats,
+	field: AirlinerField,
+	direction: "ascending" | "descending" = "ascending"
+): number {
+	const aValue = getAirlinerFieldValue(a, field);
+	const bValue = getAirlinerFieldValue(b, field);
+	if (aValue === undefined || bValue === undefined) {
+		return (aValue === undefined ? 1 : 0) - (bValue === undefined ? 1 : 0);
+	}
+
+	const order = typeof aValue === "number" && typeof bValue === "number"
+		? aValue - bValue
+		: String(aValue).localeCompare(String(bValue));
+	return direction === "ascending" ? order : -order;
+}
@@ -0,0 +1,80 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerStats } from "@/lib/data/airliner-types";
+import type { DistanceUnit } from "@/lib/data/airliner-units";
+import type { AirlinerField } from "@/lib/data/airliner-derived-fields";
+
+// [IMPORT] Utilities //
+import { formatDistance } from "@/lib/data/airliner-units";
+import { AIRLINER_DERIVED_FIELDS, getAirlinerFieldValue, isAirlinerDerivedField } from "@/lib/data/airliner-derived-fields";
+
+/**
+ * @type {AirlinerFieldFormat}
+ * @description How the values of an `AirlinerStats` field are shown to readers.
+ *
+ * @property {string} unit - Optional. The unit written next to the value, e.g. `km`.
+ * @property {boolean} unitBefore - Optional. Whether the unit goes before the value, as in `Mach 0.78`.
+ * @property {number} fractionDigits - Optional. The most decimal places shown. Defaults to 0.
+ * @property {boolean} isDistance - Optional. Whether the field is a distance in kilometres, shown in the reader's distance unit instead.
+ */
+export type AirlinerFieldFormat = {
+	unit?: string;
+	unitBefore?: boolean;
+	fractionDigits?: number;
+	isDistance?: boolean;
+}
+
+/**
+ * Display formats for the dataset fields measured in a unit.
+ * Fields not listed here are shown as they are; derived fields carry their own format.
+ */
+export const AIRLINER_FIELD_FORMATS: Partial<Record<keyof AirlinerStats, AirlinerFieldFormat>> = {
+	rangeKM: { unit: "km", isDistance: true },
+	mtowKG: { unit: "kg" },
+	cruiseMach: { unit: "Mach", unitBefore: true, fractionDigits: 2 },
+	wingspanM: { unit: "m", fractionDigits: 2 },
+	lengthM: { unit: "m", fractionDigits: 2 },
+	fuelCapacityL: { unit: "L" },
+};
+
+/**
+ * @function formatAirlinerField
+ * @description Formats an airliner's value for a field with its unit,
+ * e.g. `79,000 kg` for `mtowKG` or `CFM LEAP-1A, PW1100G` for `engineOptions`.
+ * Derived fields are computed and formatted the same way.
+ *
+ * @param airlinerStats - The airliner's stats.
+ * @param field - The field to format.
+ * @param distanceUnit - Optional. The unit distances are shown in. Defaults to kilometres.
+ * @returns The formatted value, or "-" if the airliner has no value for the field.
+ */
+export function formatAirlinerField(airlinerStats: AirlinerStats, field: AirlinerField, distanceUnit: DistanceUnit = "km"): string {
+	const value = getAirlinerFieldValue(airlinerStats, field);
+	if (value === undefined || value === null || value === "") return "-";
+
+	if (Array.isArray(value)) {
+		return value.length > 0 ? value.join(", ") : "-";
+	}
+
+	if (typeof value !== "number") return String(value);
+	return formatAirlinerFieldValue(value, field, distanceUnit);
+}
+
+/**
+ * @function formatAirlinerFieldValue
+ * @description Formats a number in a field's unit, whether or not an airliner has it as its value,
+ * e.g. the difference between two airliners' MTOW as `4,500 kg`.
+ *
+ * @param value - The number to format.
+ * @param field - The field whose format to use.
+ * @param distanceUnit - Optional. The unit distances are shown in. Defaults to kilometres.
+ * @returns The formatted value.
+ */
+export function formatAirlinerFieldValue(value: number, field: AirlinerField, distanceUnit: DistanceUnit = "km"): string {
+	const format = isAirlinerDerivedField(field) ? AIRLINER_DERIVED_FIELDS[field].format : AIRLINER_FIELD_FORMATS[field];
+	if (!format) return String(value);
+	if (format.isDistance) return formatDistance(value, distanceUnit);
+
+	const text = value.toLocaleString(undefined, { maximumFractionDigits: format.fractionDigits ?? 0 });
+	if (!format.unit) return text;
+	return format.unitBefore ? `${format.unit} ${text}` : `${text} ${format.unit}`;
+}
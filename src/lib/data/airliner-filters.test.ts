@@ -0,0 +1,33 @@
+// [IMPORT] Testing //
+import { describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { EMPTY_AIRLINER_FILTER, matchesAirlinerFilter } from "@/lib/data/airliner-filters";
+import { AIRLINER_DERIVED_FIELDS } from "@/lib/data/airliner-derived-fields";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerFilter } from "@/lib/data/airliner-filters";
+import type { AirlinerStats } from "@/lib/data/airliner-types";
+
+// An airliner with only 3- and 1-class capacities, so that its seat count falls back to the 3-class one
+const AIRLINER = {
+	manufacturer: "Airbus", family: "A350", nameICAO: "A35K", idNumber: 17,
+	rangeKM: 16100, pax3Class: 350, pax1Class: 440,
+} as AirlinerStats;
+
+const capacityFilter = (capacity: [number, number]): AirlinerFilter => ({
+	...EMPTY_AIRLINER_FILTER,
+	ranges: { ...EMPTY_AIRLINER_FILTER.ranges, capacity },
+});
+
+describe("matchesAirlinerFilter", () => {
+	it("filters capacity by the same seat count seat-km is computed from", () => {
+		expect(matchesAirlinerFilter(AIRLINER, capacityFilter([300, 400]))).toBe(true);
+		expect(matchesAirlinerFilter(AIRLINER, capacityFilter([400, 500]))).toBe(false);
+		expect(AIRLINER_DERIVED_FIELDS.seatKM.compute(AIRLINER)).toBe(350 * 16100);
+	});
+
+	it("keeps every airliner when nothing is set", () => {
+		expect(matchesAirlinerFilter(AIRLINER, EMPTY_AIRLINER_FILTER)).toBe(true);
+	});
+});
@@ -0,0 +1,183 @@
+// [IMPORT] Types/interfaces //
+import { AIRLINER_STATUSES, AIRLINER_BODY_TYPES } from "@/lib/data/airliner-types";
+import type { AirlinerData, AirlinerStats } from "@/lib/data/airliner-types";
+
+// [IMPORT] Utilities //
+import { getAirlinerSeats } from "@/lib/data/airliner-derived-fields";
+
+/**
+ * The fields airliners can be filtered on by picking values, in the order they are shown.
+ */
+export const AIRLINER_FILTER_FACETS = ["manufacturer", "bodyType", "status"] as const;
+export type AirlinerFilterFacet = typeof AIRLINER_FILTER_FACETS[number];
+
+/**
+ * The numbers airliners can be filtered on by a range, in the order they are shown.
+ * `capacity` is the seat count from `getAirlinerSeats`: the 2-class capacity, falling back to 3- then 1-class.
+ */
+export const AIRLINER_FILTER_RANGES = ["firstDelivery", "rangeKM", "capacity"] as const;
+export type AirlinerFilterRange = typeof AIRLINER_FILTER_RANGES[number];
+
+/**
+ * @type {AirlinerFilter}
+ * @description Which airliners are charted and listed.
+ * An airliner is kept if it matches every facet and range that is set.
+ *
+ * @property {object} facets - The values kept for each facet. An empty list keeps every value.
+ * @property {object} ranges - The inclusive range kept for each number, or null to keep every value.
+ * Airliners without a value are dropped once its range is set.
+ */
+export type AirlinerFilter = {
+	facets: Record<AirlinerFilterFacet, string[]>;
+	ranges: Record<AirlinerFilterRange, [number, number] | null>;
+}
+
+/**
+ * @type {AirlinerFacetCount}
+ * @description One value of a facet, and how many airliners have it.
+ *
+ * @property {string} value - The facet value, e.g. `Airbus` or `wide`.
+ * @property {number} count - How many airliners have the value and match the rest of the filter.
+ */
+export type AirlinerFacetCount = {
+	value: string;
+	count: number;
+}
+
+/**
+ * A filter that keeps every airliner.
+ */
+export const EMPTY_AIRLINER_FILTER: AirlinerFilter = {
+	facets: { manufacturer: [], bodyType: [], status: [] },
+	ranges: { firstDelivery: null, rangeKM: null, capacity: null },
+};
+
+/**
+ * @function getFacetValue
+ * @description Reads an airliner's value for a facet, if it has one.
+ */
+function getFacetValue(airlinerStats: AirlinerStats, facet: AirlinerFilterFacet): string | undefined {
+	return airlinerStats[facet];
+}
+
+/**
+ * @function getRangeValue
+ * @description Reads an airliner's value for a range, if it has one.
+ */
+function getRangeValue(airlinerStats: AirlinerStats, range: AirlinerFilterRange): number | undefined {
+	if (range === "capacity") return getAirlinerSeats(airlinerStats);
+	return airlinerStats[range];
+}
+
+/**
+ * @function countAirlinerFilterConstraints
+ * @description Counts the facets and ranges a filter sets.
+ */
+export function countAirlinerFilterConstraints(filter: AirlinerFilter): number {
+	return AIRLINER_FILTER_FACETS.filter(facet => filter.facets[facet].length > 0).length
+		+ AIRLINER_FILTER_RANGES.filter(range => filter.ranges[range] !== null).length;
+}
+
+/**
+ * @function isAirlinerFilterActive
+ * @description Checks whether a filter drops any airliners at all.
+ */
+export function isAirlinerFilterActive(filter: AirlinerFilter): boolean {
+	return countAirlinerFilterConstraints(filter) > 0;
+}
+
+/**
+ * @function matchesAirlinerFilter
+ * @description Checks whether an airliner is kept by a filter.
+ *
+ * @param airlinerStats - The airliner's stats.
+ * @param filter - The filter.
+ * @param ignore - Optional. A facet or range to leave out, so that its own counts can be worked out.
+ * @returns Whether the airliner matches every facet and range that is set.
+ */
+export function matchesAirlinerFilter(
+	airlinerStats: AirlinerStats,
+	filter: AirlinerFilter,
+	ignore?: AirlinerFilterFacet | AirlinerFilterRange
+): boolean {
+	const matchesFacets = AIRLINER_FILTER_FACETS.every(facet => {
+		const values = filter.facets[facet];
+		if (facet === ignore || values.length === 0) return true;
+		const value = getFacetValue(airlinerStats, facet);
+		return value !== undefined && values.includes(value);
+	});
+
+	return matchesFacets && AIRLINER_FILTER_RANGES.every(range => {
+		const bounds = filter.ranges[range];
+		if (range === ignore || bounds === null) return true;
+		const value = getRangeValue(airlinerStats, range);
+		return value !== undefined && value >= bounds[0] && value <= bounds[1];
+	});
+}
+
+/**
+ * @function filterAirlinerData
+ * @description Keeps the airliners a filter matches, in their original order.
+ * Returns the same array when the filter is empty, so that memoised work downstream is kept.
+ */
+export function filterAirlinerData<T extends AirlinerData>(data: T[], filter: AirlinerFilter): T[] {
+	if (!isAirlinerFilterActive(filter)) return data;
+	return data.filter(airliner => matchesAirlinerFilter(airliner.airlinerData, filter));
+}
+
+/**
+ * @function getAirlinerFacetCounts
+ * @description Lists the values of a facet with how many airliners have each.
+ * Counts take the rest of the filter into account, but not the facet itself, so that picking
+ * one value shows what picking another would add. Values already picked are always listed,
+ * even if no airliner in the dataset has them, so that they can be unpicked.
+ *
+ * @param data - The unfiltered airliners.
+ * @param filter - The filter.
+ * @param facet - The facet to count.
+ * @returns The values of the facet, in lifecycle or fuselage order for enums and alphabetically otherwise.
+ */
+export function getAirlinerFacetCounts(data: AirlinerData[], filter: AirlinerFilter, facet: AirlinerFilterFacet): AirlinerFacetCount[] {
+	const counts = new Map<string, number>(filter.facets[facet].map(value => [value, 0]));
+
+	data.forEach(({ airlinerData }) => {
+		const value = getFacetValue(airlinerData, facet);
+		if (value === undefined) return;
+		const count = counts.get(value) ?? 0;
+		counts.set(value, matchesAirlinerFilter(airlinerData, filter, facet) ? count + 1 : count);
+	});
+
+	const order: readonly string[] | null = facet === "status" ? AIRLINER_STATUSES : facet === "bodyType" ? AIRLINER_BODY_TYPES : null;
+	return Array.from(counts, ([value, count]) => ({ value, count }))
+		.sort((a, b) => order ? order.indexOf(a.value) - order.indexOf(b.value) : a.value.localeCompare(b.value));
+}
+
+/**
+ * @function getAirlinerRangeBounds
+ * @description Finds the smallest and largest value of a range across the airliners, for the bounds of its slider.
+ * @returns The bounds, or null if no airliner has a value.
+ */
+export function getAirlinerRangeBounds(data: AirlinerData[], range: AirlinerFilterRange): [number, number] | null {
+	const values = data
+		.map(airliner => getRangeValue(airliner.airlinerData, range))
+		.filter((value): value is number => value !== undefined);
+	if (values.length === 0) return null;
+	return [Math.min(...values), Math.max(...values)];
+}
+
+/**
+ * @function countAirlinersInRange
+ * @description Counts the airliners within a range that match the rest of the filter.
+ *
+ * @param data - The unfiltered airliners.
+ * @param filter - The filter.
+ * @param range - The range to count.
+ * @param bounds - The inclusive bounds to count within.
+ * @returns How many airliners have a value within the bounds.
+ */
+export function countAirlinersInRange(data: AirlinerData[], filter: AirlinerFilter, range: AirlinerFilterRange, bounds: [number, number]): number {
+	return data.filter(({ airlinerData }) => {
+		const value = getRangeValue(airlinerData, range);
+		return value !== undefined && value >= bounds[0] && value <= bounds[1] && matchesAirlinerFilter(airlinerData, filter, range);
+	}).length;
+}
@@ -0,0 +1,64 @@
+// [IMPORT] Testing //
+import { describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { createAirlinerHierarchy } from "@/lib/data/airliner-hierarchy";
+import { createAirlinerData } from "@/lib/data/airliner-dataset";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerStats } from "@/lib/data/airliner-types";
+
+// Interleaved so that variants of a generation are not next to each other in the dataset
+const HIERARCHY = createAirlinerHierarchy(createAirlinerData([
+	{ manufacturer: "Airbus", family: "A320", generation: "ceo", variant: "A320", nameCommon: "A320ceo", nameICAO: "A320", idNumber: 2 },
+	{ manufacturer: "Airbus", family: "A320", generation: "neo", variant: "A320", nameCommon: "A320neo", nameICAO: "A20N", idNumber: 5 },
+	{ manufacturer: "Boeing", family: "737", generation: "MAX", variant: "8", nameICAO: "B38M", idNumber: 30 },
+	{ manufacturer: "Airbus", family: "A320", generation: "ceo", variant: "A321", nameCommon: "A321ceo", nameICAO: "A321", idNumber: 3 },
+	{ manufacturer: "Airbus", family: "A340", variant: "300", nameICAO: "A343", idNumber: 12 },
+] as AirlinerStats[]));
+
+describe("createAirlinerHierarchy", () => {
+	it("groups variants by manufacturer, family and generation in the order they first appear", () => {
+		expect(HIERARCHY.manufacturers.map(manufacturer => manufacturer.id)).toEqual(["Airbus", "Boeing"]);
+		expect(HIERARCHY.manufacturers[0].families.map(family => family.id)).toEqual(["Airbus/A320", "Airbus/A340"]);
+		expect(HIERARCHY.variants.map(variant => variant.id)).toEqual(["2-A320", "3-A321", "5-A20N", "12-A343", "30-B38M"]);
+	});
+
+	it("groups variants without a generation into an unnamed one", () => {
+		const generation = HIERARCHY.getGeneration("12-A343");
+		expect(generation).toMatchObject({ id: "Airbus/A340/", name: undefined });
+		expect(generation?.variants.map(variant => variant.id)).toEqual(["12-A343"]);
+	});
+
+	it("names variants by common name, then variant, then ICAO code", () => {
+		expect(["2-A320", "30-B38M", "12-A343"].map(id => HIERARCHY.getVariant(id)?.name)).toEqual(["A320ceo", "8", "300"]);
+	});
+});
+
+describe("AirlinerHierarchy queries", () => {
+	it("finds the ancestors of a variant", () => {
+		expect(HIERARCHY.getGeneration("5-A20N")?.id).toBe("Airbus/A320/neo");
+		expect(HIERARCHY.getFamily("5-A20N")?.id).toBe("Airbus/A320");
+		expect(HIERARCHY.getManufacturer("5-A20N")?.id).toBe("Airbus");
+	});
+
+	it("accepts an ancestor's own ID", () => {
+		expect(HIERARCHY.getFamily("Airbus/A320")?.id).toBe("Airbus/A320");
+		expect(HIERARCHY.getFamily("Airbus/A320/ceo")?.id).toBe("Airbus/A320");
+		expect(HIERARCHY.getManufacturer("Boeing/737")?.id).toBe("Boeing");
+	});
+
+	it("finds nothing below the entity asked about, or for unknown IDs", () => {
+		expect(HIERARCHY.getFamily("Airbus")).toBeUndefined();
+		expect(HIERARCHY.getVariant("Airbus/A320/ceo")).toBeUndefined();
+		expect(HIERARCHY.getEntity("0-A318")).toBeUndefined();
+		expect(HIERARCHY.getSiblings("0-A318")).toEqual([]);
+	});
+
+	it("lists the other children of an entity's parent", () => {
+		expect(HIERARCHY.getSiblings("2-A320").map(entity => entity.id)).toEqual(["3-A321"]);
+		expect(HIERARCHY.getSiblings("Airbus/A320/ceo").map(entity => entity.id)).toEqual(["Airbus/A320/neo"]);
+		expect(HIERARCHY.getSiblings("Airbus/A340").map(entity => entity.id)).toEqual(["Airbus/A320"]);
+		expect(HIERARCHY.getSiblings("Boeing").map(entity => entity.id)).toEqual(["Airbus"]);
+	});
+});
@@ -0,0 +1,203 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerData } from "@/lib/data/airliner-types";
+
+/**
+ * @type {AirlinerManufacturer}
+ * @description A company that builds airliners, at the root of the hierarchy.
+ *
+ * @property {string} id - The manufacturer's name, e.g. `Airbus`.
+ * @property {string} name - The manufacturer's name.
+ * @property {AirlinerFamily[]} families - The manufacturer's families, in dataset order.
+ */
+export type AirlinerManufacturer = {
+	kind: "manufacturer";
+	id: string;
+	name: string;
+	families: AirlinerFamily[];
+}
+
+/**
+ * @type {AirlinerFamily}
+ * @description A family or series of airliners from one manufacturer.
+ *
+ * @property {string} id - The manufacturer and family names, e.g. `Airbus/A320`.
+ * @property {string} name - The family name, e.g. `A320`.
+ * @property {AirlinerManufacturer} manufacturer - The manufacturer that builds the family.
+ * @property {AirlinerGeneration[]} generations - The family's generations, in dataset order.
+ */
+export type AirlinerFamily = {
+	kind: "family";
+	id: string;
+	name: string;
+	manufacturer: AirlinerManufacturer;
+	generations: AirlinerGeneration[];
+}
+
+/**
+ * @type {AirlinerGeneration}
+ * @description A generation or subfamily within a family. Variants without a generation
+ * are grouped into a single unnamed generation of their family.
+ *
+ * @property {string} id - The family ID and generation name, e.g. `Airbus/A320/neo`, or `Airbus/A340/` if unnamed.
+ * @property {string} name - Optional. The generation name, e.g. `neo`.
+ * @property {AirlinerFamily} family - The family the generation belongs to.
+ * @property {AirlinerVariant[]} variants - The generation's variants, in dataset order.
+ */
+export type AirlinerGeneration = {
+	kind: "generation";
+	id: string;
+	name?: string;
+	family: AirlinerFamily;
+	variants: AirlinerVariant[];
+}
+
+/**
+ * @type {AirlinerVariant}
+ * @description A single airliner of the dataset, at the leaves of the hierarchy.
+ *
+ * @property {string} id - The airliner's `airlinerID`.
+ * @property {string} name - The airliner's common name, falling back to its variant name then ICAO code.
+ * @property {AirlinerGeneration} generation - The generation the variant belongs to.
+ * @property {AirlinerData} airliner - The airliner's data.
+ */
+export type AirlinerVariant = {
+	kind: "variant";
+	id: string;
+	name: string;
+	generation: AirlinerGeneration;
+	airliner: AirlinerData;
+}
+
+/**
+ * @type {AirlinerHierarchyEntity}
+ * @description Any entity of the hierarchy.
+ */
+export type AirlinerHierarchyEntity = AirlinerManufacturer | AirlinerFamily | AirlinerGeneration | AirlinerVariant;
+
+/**
+ * @type {AirlinerHierarchy}
+ * @description A dataset normalised into manufacturers, families, generations and variants,
+ * linked to their parents and children.
+ *
+ * Every query takes the ID of any entity: a variant's ID is its `airlinerID`. Queries for an
+ * ancestor accept the ancestor's own ID too, so `getFamily` works for a family or anything under it.
+ *
+ * @property {AirlinerManufacturer[]} manufacturers - Every manufacturer, in dataset order.
+ * @property {AirlinerVariant[]} variants - Every variant, grouped by manufacturer, family and generation.
+ * @property {function} getEntity - Gets an entity by its ID.
+ * @property {function} getManufacturer - Gets the manufacturer of an entity, or the manufacturer itself.
+ * @property {function} getFamily - Gets the family of a generation or variant, or the family itself.
+ * @property {function} getGeneration - Gets the generation of a variant, or the generation itself.
+ * @property {function} getVariant - Gets a variant by its `airlinerID`.
+ * @property {function} getSiblings - Gets the other children of an entity's parent, in order.
+ */
+export type AirlinerHierarchy = {
+	manufacturers: AirlinerManufacturer[];
+	variants: AirlinerVariant[];
+	getEntity: (id: string) => AirlinerHierarchyEntity | undefined;
+	getManufacturer: (id: string) => AirlinerManufacturer | undefined;
+	getFamily: (id: string) => AirlinerFamily | undefined;
+	getGeneration: (id: string) => AirlinerGeneration | undefined;
+	getVariant: (id: string) => AirlinerVariant | undefined;
+	getSiblings: (id: string) => AirlinerHierarchyEntity[];
+}
+
+/**
+ * @function createAirlinerHierarchy
+ * @description Builds the manufacturer → family → generation → variant hierarchy of a dataset.
+ * Entities are ordered by where they first appear in the dataset.
+ *
+ * @param airliners - The dataset's airliners.
+ * @returns The hierarchy, with its query helpers.
+ */
+export function createAirlinerHierarchy(airliners: AirlinerData[]): AirlinerHierarchy {
+	const manufacturers: AirlinerManufacturer[] = [];
+	const entities = new Map<string, AirlinerHierarchyEntity>();
+
+	for (const airliner of airliners) {
+		const { manufacturer: manufacturerName, family: familyName, generation: generationName, variant, nameCommon, nameICAO } = airliner.airlinerData;
+
+		let manufacturer = entities.get(manufacturerName) as AirlinerManufacturer | undefined;
+		if (!manufacturer) {
+			manufacturer = { kind: "manufacturer", id: manufacturerName, name: manufacturerName, families: [] };
+			manufacturers.push(manufacturer);
+			entities.set(manufacturer.id, manufacturer);
+		}
+
+		const familyID = `${manufacturer.id}/${familyName}`;
+		let family = entities.get(familyID) as AirlinerFamily | undefined;
+		if (!family) {
+			family = { kind: "family", id: familyID, name: familyName, manufacturer, generations: [] };
+			manufacturer.families.push(family);
+			entities.set(family.id, family);
+		}
+
+		const generationID = `${familyID}/${generationName ?? ""}`;
+		let generation = entities.get(generationID) as AirlinerGeneration | undefined;
+		if (!generation) {
+			generation = { kind: "generation", id: generationID, name: generationName, family, variants: [] };
+			family.generations.push(generation);
+			entities.set(generation.id, generation);
+		}
+
+		const airlinerVariant: AirlinerVariant = {
+			kind: "variant",
+			id: airliner.airlinerID,
+			name: nameCommon ?? variant ?? nameICAO,
+			generation,
+			airliner,
+		};
+		generation.variants.push(airlinerVariant);
+		entities.set(airlinerVariant.id, airlinerVariant);
+	}
+
+	const getEntity = (id: string) => entities.get(id);
+
+	const getGeneration = (id: string): AirlinerGeneration | undefined => {
+		const entity = entities.get(id);
+		if (entity?.kind === "variant") return entity.generation;
+		return entity?.kind === "generation" ? entity : undefined;
+	};
+
+	const getFamily = (id: string): AirlinerFamily | undefined => {
+		const entity = entities.get(id);
+		if (entity?.kind === "family") return entity;
+		return getGeneration(id)?.family;
+	};
+
+	const getManufacturer = (id: string): AirlinerManufacturer | undefined => {
+		const entity = entities.get(id);
+		if (entity?.kind === "manufacturer") return entity;
+		return getFamily(id)?.manufacturer;
+	};
+
+	const getVariant = (id: string): AirlinerVariant | undefined => {
+		const entity = entities.get(id);
+		return entity?.kind === "variant" ? entity : undefined;
+	};
+
+	const getSiblings = (id: string): AirlinerHierarchyEntity[] => {
+		const entity = entities.get(id);
+		if (!entity) return [];
+
+		const children: AirlinerHierarchyEntity[] =
+			entity.kind === "variant" ? entity.generation.variants
+			: entity.kind === "generation" ? entity.family.generations
+			: entity.kind === "family" ? entity.manufacturer.families
+			: manufacturers;
+		return children.filter(child => child !== entity);
+	};
+
+	return {
+		manufacturers,
+		variants: manufacturers.flatMap(manufacturer => manufacturer.families
+			.flatMap(family => family.generations
+				.flatMap(generation => generation.variants))),
+		getEntity,
+		getManufacturer,
+		getFamily,
+		getGeneration,
+		getVariant,
+		getSiblings,
+	};
+}
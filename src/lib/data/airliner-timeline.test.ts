@@ -0,0 +1,39 @@
+// [IMPORT] Testing //
+import { describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { getAirlinerTimelineBounds, getAirlinerTimelineState } from "@/lib/data/airliner-timeline";
+import { createAirlinerData } from "@/lib/data/airliner-dataset";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerStats } from "@/lib/data/airliner-types";
+
+const A318 = { nameICAO: "A318", idNumber: 0, status: "discontinued", firstDelivery: 2003, manufactureEnd: 2013 } as AirlinerStats;
+const A35K = { nameICAO: "A35K", idNumber: 17, status: "active", firstDelivery: 2019 } as AirlinerStats;
+
+describe("getAirlinerTimelineState", () => {
+	it("follows an airliner from first delivery to the end of production", () => {
+		expect([2002, 2003, 2013, 2014].map(year => getAirlinerTimelineState(A318, year)))
+			.toEqual(["undelivered", "inProduction", "inProduction", "outOfProduction"]);
+	});
+
+	it("keeps an airliner without a production end in production", () => {
+		expect(getAirlinerTimelineState(A35K, 2100)).toBe("inProduction");
+	});
+
+	it("goes by status when the first delivery year is missing", () => {
+		expect(getAirlinerTimelineState({ ...A35K, firstDelivery: undefined, status: "development" }, 2100)).toBe("undelivered");
+		expect(getAirlinerTimelineState({ ...A35K, firstDelivery: undefined, status: "active" }, 1950)).toBe("inProduction");
+	});
+});
+
+describe("getAirlinerTimelineBounds", () => {
+	it("runs from the earliest delivery to the year after the last delivery or production end", () => {
+		expect(getAirlinerTimelineBounds(createAirlinerData([A318, A35K]))).toEqual([2003, 2019]);
+		expect(getAirlinerTimelineBounds(createAirlinerData([A318]))).toEqual([2003, 2014]);
+	});
+
+	it("has no bounds without any delivery year", () => {
+		expect(getAirlinerTimelineBounds(createAirlinerData([{ ...A35K, firstDelivery: undefined }]))).toBeNull();
+	});
+});
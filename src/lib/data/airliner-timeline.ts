@@ -0,0 +1,54 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerData, AirlinerStats } from "@/lib/data/airliner-types";
+
+/**
+ * Where an airliner stands in a given year.
+ *
+ * - `undelivered`: Its first delivery is still to come
+ * - `inProduction`: It has been delivered and is still being built
+ * - `outOfProduction`: Its production has ended
+ */
+export const AIRLINER_TIMELINE_STATES = ["undelivered", "inProduction", "outOfProduction"] as const;
+export type AirlinerTimelineState = typeof AIRLINER_TIMELINE_STATES[number];
+
+/**
+ * How long each year is shown for during timeline playback, in milliseconds.
+ */
+export const TIMELINE_YEAR_DURATION = 600;
+
+/**
+ * @function getAirlinerTimelineState
+ * @description Works out where an airliner stands in a year from its first delivery and production end.
+ * An airliner without a first delivery year is taken to be undelivered while in development,
+ * and to have been around all along otherwise, as its status says it has flown.
+ *
+ * @param airlinerStats - The airliner's stats.
+ * @param year - The year.
+ * @returns The airliner's state in that year.
+ */
+export function getAirlinerTimelineState({ firstDelivery, manufactureEnd, status }: AirlinerStats, year: number): AirlinerTimelineState {
+	if (firstDelivery === undefined ? status === "development" : year < firstDelivery) return "undelivered";
+	if (manufactureEnd !== undefined && year > manufactureEnd) return "outOfProduction";
+	return "inProduction";
+}
+
+/**
+ * @function getAirlinerTimelineBounds
+ * @description Finds the years the timeline runs over: from the earliest first delivery to the year
+ * after the latest first delivery or production end, so that the last airliners to go out of production do so.
+ *
+ * @param data - The airliners.
+ * @returns The first and last year of the timeline, or null if no airliner has a first delivery year.
+ */
+export function getAirlinerTimelineBounds(data: AirlinerData[]): [number, number] | null {
+	const deliveries = data
+		.map(airliner => airliner.airlinerData.firstDelivery)
+		.filter((year): year is number => year !== undefined);
+	if (deliveries.length === 0) return null;
+
+	const productionEnds = data
+		.map(airliner => airliner.airlinerData.manufactureEnd)
+		.filter((year): year is number => year !== undefined);
+
+	return [Math.min(...deliveries), Math.max(...deliveries, ...productionEnds.map(year => year + 1))];
+}
@@ -0,0 +1,265 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerStats, AirlinerPayloadRangePoint } from "@/lib/data/airliner-types";
+import { AIRLINER_STATUSES, AIRLINER_BODY_TYPES, AIRLINER_PAYLOAD_RANGE_POINTS } from "@/lib/data/airliner-types";
+
+/**
+ * @type {TypeHint}
+ * @description A parsed type hint from the second row of an airliner CSV.
+ *
+ * Supported hints:
+ * - `string`: Free text
+ * - `number`: Any finite number
+ * - `int`: A whole number
+ * - `year`: A four-digit calendar year
+ * - `bool`: `true`/`false`, `yes`/`no` or `1`/`0`, case-insensitive
+ * - `enum(a|b|c)`: One of the listed values
+ * - `list<T>`: A `;`-separated list of values of type T, e.g. `list<string>`
+ */
+export type TypeHint =
+	| { kind: "string" }
+	| { kind: "number" }
+	| { kind: "int" }
+	| { kind: "year" }
+	| { kind: "bool" }
+	| { kind: "enum"; values: string[] }
+	| { kind: "list"; of: TypeHint };
+
+/**
+ * @type {CoercionResult}
+ * @description The outcome of coercing a raw value with a type hint.
+ *
+ * @property {unknown} value - The coerced value, or undefined if the raw value was empty or invalid.
+ * @property {string | null} problem - A description of why the raw value was rejected, or null if it was accepted.
+ */
+export type CoercionResult = {
+	value: unknown;
+	problem: string | null;
+}
+
+/**
+ * Type hints for every `AirlinerStats` field.
+ * Used for sources that carry no type row of their own, such as JSON and NDJSON,
+ * and kept in step with the type row of `public/data/airliners.csv`.
+ */
+export const AIRLINER_FIELD_TYPE_HINTS: Record<keyof AirlinerStats, TypeHint> = {
+	idNumber: { kind: "int" },
+	manufacturer: { kind: "string" },
+	family: { kind: "string" },
+	generation: { kind: "string" },
+	variant: { kind: "string" },
+	nameCommon: { kind: "string" },
+	nameICAO: { kind: "string" },
+	firstDelivery: { kind: "year" },
+	manufactureEnd: { kind: "year" },
+	status: { kind: "enum", values: [...AIRLINER_STATUSES] },
+	bodyType: { kind: "enum", values: [...AIRLINER_BODY_TYPES] },
+	rangeKM: { kind: "int" },
+	pax3Class: { kind: "int" },
+	pax2Class: { kind: "int" },
+	pax1Class: { kind: "int" },
+	paxLimit: { kind: "int" },
+	paxExit: { kind: "int" },
+	mtowKG: { kind: "int" },
+	cruiseMach: { kind: "number" },
+	wingspanM: { kind: "number" },
+	lengthM: { kind: "number" },
+	fuelCapacityL: { kind: "int" },
+	engineCount: { kind: "int" },
+	engineOptions: { kind: "list", of: { kind: "string" } },
+};
+
+/**
+ * Type hints for every column of a payload–range file,
+ * kept in step with the type row of `public/data/payload-range.csv`.
+ */
+export const PAYLOAD_RANGE_FIELD_TYPE_HINTS: Record<"airlinerID" | keyof AirlinerPayloadRangePoint, TypeHint> = {
+	airlinerID: { kind: "string" },
+	point: { kind: "enum", values: [...AIRLINER_PAYLOAD_RANGE_POINTS] },
+	rangeKM: { kind: "int" },
+	payloadKG: { kind: "int" },
+};
+
+// Separator between items of a list<T> value
+export const LIST_SEPARATOR = ";";
+
+// Accepted spellings of boolean values
+const TRUE_VALUES = ["true", "yes", "1"];
+const FALSE_VALUES = ["false", "no", "0"];
+
+/**
+ * @function parseTypeHint
+ * @description Parses a type hint string such as `int` or `enum(wide|narrow)`.
+ *
+ * @param hint - The raw type hint from the CSV.
+ * @returns The parsed type hint, or null if the hint is not recognised.
+ */
+export function parseTypeHint(hint: string | undefined | null): TypeHint | null {
+	if (!hint) return null;
+	const trimmed = hint.trim();
+
+	switch (trimmed) {
+		case "string":
+		case "number":
+		case "int":
+		case "year":
+		case "bool":
+			return { kind: trimmed };
+	}
+
+	// enum(a|b|c)
+	const enumMatch = trimmed.match(/^enum\((.*)\)$/);
+	if (enumMatch) {
+		const values = enumMatch[1].split("|").map(value => value.trim()).filter(Boolean);
+		return values.length > 0 ? { kind: "enum", values } : null;
+	}
+
+	// list<T>, where T is any hint other than another list
+	const listMatch = trimmed.match(/^list<(.*)>$/);
+	if (listMatch) {
+		const of = parseTypeHint(listMatch[1]);
+		return of && of.kind !== "list" ? { kind: "list", of } : null;
+	}
+
+	return null;
+}
+
+/**
+ * @function formatTypeHint
+ * @description Formats a type hint back into the string form used in the CSV type row.
+ *
+ * @param hint - The type hint to format.
+ * @returns The type hint string, e.g. `list<string>`.
+ */
+export function formatTypeHint(hint: TypeHint): string {
+	switch (hint.kind) {
+		case "enum":
+			return `enum(${hint.values.join("|")})`;
+		case "list":
+			return `list<${formatTypeHint(hint.of)}>`;
+		default:
+			return hint.kind;
+	}
+}
+
+/**
+ * @function coerceValue
+ * @description Converts a raw value into the type described by a hint.
+ * Text values, as read from a CSV, are parsed. Values that are already typed, as read
+ * from JSON, are checked against the hint and passed through.
+ * Empty values coerce to undefined without a problem; it is up to the data rules to decide
+ * whether a missing value is acceptable.
+ *
+ * @param raw - The raw value.
+ * @param hint - The type hint for the field.
+ * @returns The coerced value, and a problem description if the raw value was invalid.
+ */
+export function coerceValue(raw: unknown, hint: TypeHint): CoercionResult {
+	if (raw === undefined || raw === null) {
+		return { value: undefined, problem: null };
+	}
+
+	if (typeof raw === "string") {
+		return coerceText(raw, hint);
+	}
+
+	const invalid = { value: undefined, problem: `${JSON.stringify(raw)} is not a valid ${formatTypeHint(hint)}` };
+
+	switch (hint.kind) {
+		case "string":
+			return typeof raw === "number" || typeof raw === "boolean" ? { value: String(raw), problem: null } : invalid;
+
+		case "number":
+			return typeof raw === "number" && Number.isFinite(raw) ? { value: raw, problem: null } : invalid;
+
+		case "int":
+			return Number.isInteger(raw) ? { value: raw, problem: null } : invalid;
+
+		case "year":
+			return Number.isInteger(raw) && (raw as number) >= 1000 && (raw as number) <= 9999 ? { value: raw, problem: null } : invalid;
+
+		case "bool":
+			return typeof raw === "boolean" ? { value: raw, problem: null } : invalid;
+
+		case "enum":
+			return invalid;
+
+		case "list": {
+			if (!Array.isArray(raw)) return invalid;
+			return coerceItems(raw, hint.of);
+		}
+	}
+}
+
+/**
+ * @function coerceText
+ * @description Parses a text value into the type described by a hint.
+ *
+ * @param raw - The raw text value.
+ * @param hint - The type hint for the field.
+ * @returns The coerced value, and a problem description if the text was invalid.
+ */
+function coerceText(raw: string, hint: TypeHint): CoercionResult {
+	const text = raw.trim();
+	if (text === "") {
+		return { value: undefined, problem: null };
+	}
+
+	switch (hint.kind) {
+		case "string":
+			return { value: text, problem: null };
+
+		case "number": {
+			const value = Number(text);
+			return Number.isFinite(value)
+				? { value, problem: null }
+				: { value: undefined, problem: `"${text}" is not a number` };
+		}
+
+		case "int": {
+			return /^-?\d+$/.test(text)
+				? { value: Number(text), problem: null }
+				: { value: undefined, problem: `"${text}" is not a whole number` };
+		}
+
+		case "year": {
+			return /^\d{4}$/.test(text)
+				? { value: Number(text), problem: null }
+				: { value: undefined, problem: `"${text}" is not a four-digit year` };
+		}
+
+		case "bool": {
+			const lower = text.toLowerCase();
+			if (TRUE_VALUES.includes(lower)) return { value: true, problem: null };
+			if (FALSE_VALUES.includes(lower)) return { value: false, problem: null };
+			return { value: undefined, problem: `"${text}" is not a boolean` };
+		}
+
+		case "enum": {
+			return hint.values.includes(text)
+				? { value: text, problem: null }
+				: { value: undefined, problem: `"${text}" is not one of ${hint.values.join(", ")}` };
+		}
+
+		case "list":
+			return coerceItems(text.split(LIST_SEPARATOR), hint.of);
+	}
+}
+
+/**
+ * @function coerceItems
+ * @description Coerces each item of a list, keeping the valid ones.
+ *
+ * @param items - The raw list items.
+ * @param hint - The type hint for the items.
+ * @returns The valid items, and a description of every invalid one.
+ */
+function coerceItems(items: unknown[], hint: TypeHint): CoercionResult {
+	const values: unknown[] = [];
+	const problems: string[] = [];
+	items.forEach(item => {
+		const { value, problem } = coerceValue(item, hint);
+		if (problem) problems.push(problem);
+		else if (value !== undefined) values.push(value);
+	});
+	return { value: values, problem: problems.length > 0 ? problems.join("; ") : null };
+}
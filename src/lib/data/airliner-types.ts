@@ -1,3 +1,17 @@
+/**
+ * The statuses an airliner can have, in lifecycle order.
+ * Matches the `enum(...)` type hint of the `status` column.
+ */
+export const AIRLINER_STATUSES = ["development", "active", "discontinued", "retired"] as const;
+export type AirlinerStatus = typeof AIRLINER_STATUSES[number];
+
+/**
+ * The fuselage types an airliner can have.
+ * Matches the `enum(...)` type hint of the `bodyType` column.
+ */
+export const AIRLINER_BODY_TYPES = ["narrow", "wide"] as const;
+export type AirlinerBodyType = typeof AIRLINER_BODY_TYPES[number];
+
 /**
  * Represents a single airliner and its key attributes.
  * Used for type safety and IntelliSense when working with airliner datasets.
@@ -11,14 +25,21 @@
  * @property nameICAO       ICAO aircraft type designator
  * @property firstDelivery  Year of first delivery (optional)
  * @property manufactureEnd Year production ended (optional)
- * @property status         Current status: `development` `active` `discontinued` `retired`
- * @property bodyType       Fuselage type: `widebody` `narrowbody`
+ * @property status         Current status: `development` `active` `discontinued` `retired` (optional)
+ * @property bodyType       Fuselage type: `wide` `narrow` (optional)
  * @property rangeKM        Maximum range in kilometres
  * @property pax3Class      Typical 3-class seating capacity (optional)
  * @property pax2Class      Typical 2-class seating capacity (optional)
  * @property pax1Class      Typical 1-class seating capacity (optional)
  * @property paxLimit       Maximum passengers by seat limit (optional)
  * @property paxExit        Maximum passengers by exit limit (optional)
+ * @property mtowKG         Maximum takeoff weight in kilograms (optional)
+ * @property cruiseMach     Typical cruise speed as a Mach number (optional)
+ * @property wingspanM      Wingspan in metres (optional)
+ * @property lengthM        Overall length in metres (optional)
+ * @property fuelCapacityL  Maximum fuel capacity in litres (optional)
+ * @property engineCount    Number of engines (optional)
+ * @property engineOptions  Engine models offered, e.g. `CFM LEAP-1A` (optional)
  */
 export type AirlinerStats = {
 	idNumber: number;
@@ -30,26 +51,67 @@ export type AirlinerStats = {
 	nameICAO: string;
 	firstDelivery?: number;
 	manufactureEnd?: number;
-	status?: string;
-	bodyType?: string;
+	status?: AirlinerStatus;
+	bodyType?: AirlinerBodyType;
 	rangeKM: number;
 	pax3Class?: number;
 	pax2Class?: number;
 	pax1Class?: number;
 	paxLimit?: number;
 	paxExit?: number;
+	mtowKG?: number;
+	cruiseMach?: number;
+	wingspanM?: number;
+	lengthM?: number;
+	fuelCapacityL?: number;
+	engineCount?: number;
+	engineOptions?: string[];
+}
+
+/**
+ * The points of a payload–range diagram, in order of increasing range.
+ * Matches the `enum(...)` type hint of the `point` column of the payload–range file.
+ *
+ * - `maxPayload`: The furthest the airliner flies with its maximum payload
+ * - `maxFuel`: The furthest it flies on full tanks, with the payload that leaves room for
+ * - `ferry`: The furthest it flies with no payload at all
+ */
+export const AIRLINER_PAYLOAD_RANGE_POINTS = ["maxPayload", "maxFuel", "ferry"] as const;
+export type AirlinerPayloadRangePointKind = typeof AIRLINER_PAYLOAD_RANGE_POINTS[number];
+
+/**
+ * @type {AirlinerPayloadRangePoint}
+ * @description A point of an airliner's payload–range diagram.
+ *
+ * @property {AirlinerPayloadRangePointKind} point - Which point of the diagram this is.
+ * @property {number} rangeKM - The range at this point, in kilometres.
+ * @property {number} payloadKG - The payload at this point, in kilograms.
+ */
+export type AirlinerPayloadRangePoint = {
+	point: AirlinerPayloadRangePointKind;
+	rangeKM: number;
+	payloadKG: number;
 }
 
+/**
+ * @type {AirlinerPayloadRangeData}
+ * @description Payload–range diagrams keyed by `airlinerID`, each sorted by range.
+ * Loaded from a companion file, so that any dataset using the same IDs can be paired with them.
+ */
+export type AirlinerPayloadRangeData = Record<string, AirlinerPayloadRangePoint[]>;
+
 /**
  * @type {AirlinerData}
  * @description A raw data object from the CSV file. Contains just the ID and stats.
  * 
  * @property {string} airlinerID - The unique identifier for the airliner. Composed of an ID number and its ICAO code.
  * @property {AirlinerStats} airlinerData - The raw data for the airliner as extracted from the CSV.
+ * @property {AirlinerPayloadRangePoint[]} payloadRange - Optional. The airliner's payload–range diagram, sorted by range, if the companion file has one.
  */
 export type AirlinerData = {
 	airlinerID: string;
 	airlinerData: AirlinerStats;
+	payloadRange?: AirlinerPayloadRangePoint[];
 }
 
 /**
@@ -61,6 +123,7 @@ export type AirlinerData = {
  * @property {AirlinerMarkerSeries[]} markerSeries - An array of marker series, each containing an array of markers and a bounding box for the series.
  * @property {AirlinerLabel} labels - A label, containing text, a bounding box for the label, and the coordinates of the label.
  * @property {string} description - Optional markdown description content for the airliner. Loaded from files named by airlinerID (e.g., "16-A359.md").
+ * @property {string[]} familyMembers - Optional. Set on a family composite shown when zoomed out: the IDs of the variants it stands for.
  */
 export type AirlinerModel = AirlinerData & {
 	// Markers
@@ -71,6 +134,9 @@ export type AirlinerModel = AirlinerData & {
 	
 	// Description
 	description?: string;
+
+	// Family composite
+	familyMembers?: string[];
 }
 
 /**
@@ -110,11 +176,11 @@ export type AirlinerLine = {
  * @type {AirlinerMarker}
  * @description Plot data for a single marker for an airliner.
  * 
- * @property {string} markerClass - The class of the marker.
+ * @property {string} markerClass - The class of the marker: the capacity field it plots, or `value` for a single-field metric.
  * @property {BBox} markerCoordinates - The coordinates of the marker.
  */
 export type AirlinerMarker = {
-	markerClass: "pax3Class" | "pax2Class" | "pax1Class" | "paxLimit" | "paxExit";
+	markerClass: "pax3Class" | "pax2Class" | "pax1Class" | "paxLimit" | "paxExit" | "value";
 	markerCoordinates: { x: number; y: number };
 }
 
@@ -141,3 +207,45 @@ export type AirlinerLabel = {
 	clusterSize?: number | null;
 }
 
+
+/**
+ * @type {AirlinerDataDiagnostic}
+ * @description A single problem found while loading airliner data.
+ * 
+ * @property {number | null} line - The source line number of the offending row. Null if the problem is not tied to a row.
+ * @property {string | null} field - The field the problem concerns. Null if it concerns the whole row.
+ * @property {string} rule - A short identifier for the rule that was broken, e.g. `required-field`.
+ * @property {"error" | "warning"} severity - Errors reject the row, warnings keep it.
+ * @property {string} message - A human-readable description of the problem.
+ */
+export type AirlinerDataDiagnostic = {
+	line: number | null;
+	field: string | null;
+	rule: string;
+	severity: "error" | "warning";
+	message: string;
+}
+
+/**
+ * @type {AirlinerDataLoadResult}
+ * @description The result of loading an airliner dataset.
+ * 
+ * @property {AirlinerStats[]} data - The rows that passed validation.
+ * @property {AirlinerDataDiagnostic[]} diagnostics - Every problem found while loading, in source order.
+ */
+export type AirlinerDataLoadResult = {
+	data: AirlinerStats[];
+	diagnostics: AirlinerDataDiagnostic[];
+}
+
+/**
+ * @type {AirlinerPayloadRangeLoadResult}
+ * @description The result of loading a payload–range file.
+ *
+ * @property {AirlinerPayloadRangeData} curves - The diagrams of every airliner with valid points.
+ * @property {AirlinerDataDiagnostic[]} diagnostics - Every problem found while loading, in source order.
+ */
+export type AirlinerPayloadRangeLoadResult = {
+	curves: AirlinerPayloadRangeData;
+	diagnostics: AirlinerDataDiagnostic[];
+}
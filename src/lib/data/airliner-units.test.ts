@@ -0,0 +1,42 @@
+// [IMPORT] Testing //
+import { describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { convertDistance, formatDistance } from "@/lib/data/airliner-units";
+import { CAPACITY_AXIS_METRIC, RANGE_AXIS_METRIC, convertAirlinerAxisValue, getAirlinerAxisTicks } from "@/lib/data/airliner-axis-metrics";
+
+describe("convertDistance", () => {
+	it("converts kilometres into each unit", () => {
+		expect(convertDistance(1852, "nmi")).toBeCloseTo(1000);
+		expect(convertDistance(1609.344, "mi")).toBeCloseTo(1000);
+		expect(convertDistance(6100, "km")).toBe(6100);
+	});
+});
+
+describe("formatDistance", () => {
+	it("rounds to a whole number of the unit, with its symbol", () => {
+		expect(formatDistance(5700, "nmi")).toBe("3,078 nmi");
+		expect(formatDistance(5700, "mi")).toBe("3,542 mi");
+	});
+});
+
+describe("convertAirlinerAxisValue", () => {
+	it("only converts distance metrics", () => {
+		expect(convertAirlinerAxisValue(RANGE_AXIS_METRIC, 1852, "nmi")).toBeCloseTo(1000);
+		expect(convertAirlinerAxisValue(CAPACITY_AXIS_METRIC, 180, "nmi")).toBe(180);
+	});
+});
+
+describe("getAirlinerAxisTicks", () => {
+	it("places distance ticks on round values of the reader's unit", () => {
+		const { tickValues, tickFormat } = getAirlinerAxisTicks(RANGE_AXIS_METRIC, [0, 18520], "nmi", 5);
+
+		// Labelled in thousands, as the range axis is
+		expect(tickValues?.map(value => tickFormat!(value))).toEqual(["0", "2.0", "4.0", "6.0", "8.0", "10.0"]);
+		expect(tickValues?.[1]).toBeCloseTo(3704);
+	});
+
+	it("leaves kilometre ticks to the axis", () => {
+		expect(getAirlinerAxisTicks(RANGE_AXIS_METRIC, [0, 18520], "km").tickValues).toBeUndefined();
+	});
+});
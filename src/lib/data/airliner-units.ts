@@ -0,0 +1,52 @@
+/**
+ * The units distances can be shown in. Datasets always store distances in kilometres.
+ */
+export const DISTANCE_UNITS = ["km", "nmi", "mi"] as const;
+export type DistanceUnit = typeof DISTANCE_UNITS[number];
+
+/**
+ * @type {DistanceUnitInfo}
+ * @description How a distance unit is named and converted.
+ *
+ * @property {string} symbol - The short unit symbol, e.g. `nmi`.
+ * @property {string} name - The full unit name, e.g. `Nautical miles`.
+ * @property {number} perKilometre - How many of the unit make up a kilometre.
+ */
+export type DistanceUnitInfo = {
+	symbol: string;
+	name: string;
+	perKilometre: number;
+}
+
+/**
+ * Names and conversion factors for every distance unit.
+ */
+export const DISTANCE_UNIT_INFO: Record<DistanceUnit, DistanceUnitInfo> = {
+	km: { symbol: "km", name: "Kilometres", perKilometre: 1 },
+	nmi: { symbol: "nmi", name: "Nautical miles", perKilometre: 1 / 1.852 },
+	mi: { symbol: "mi", name: "Statute miles", perKilometre: 1 / 1.609344 },
+};
+
+/**
+ * @function convertDistance
+ * @description Converts a distance from kilometres into another unit.
+ *
+ * @param kilometres - The distance in kilometres.
+ * @param unit - The unit to convert to.
+ * @returns The distance in the given unit.
+ */
+export function convertDistance(kilometres: number, unit: DistanceUnit): number {
+	return kilometres * DISTANCE_UNIT_INFO[unit].perKilometre;
+}
+
+/**
+ * @function formatDistance
+ * @description Formats a distance in kilometres as a whole number of the given unit, e.g. `3,078 nmi`.
+ *
+ * @param kilometres - The distance in kilometres.
+ * @param unit - The unit to show the distance in.
+ * @returns The formatted distance, with its unit symbol.
+ */
+export function formatDistance(kilometres: number, unit: DistanceUnit): string {
+	return `${Math.round(convertDistance(kilometres, unit)).toLocaleString()} ${DISTANCE_UNIT_INFO[unit].symbol}`;
+}
@@ -0,0 +1,64 @@
+// [IMPORT] Testing //
+import { describe, expect, it } from "vitest";
+
+// [IMPORT] Utilities //
+import { isSameAirlinerURLViewport, parseAirlinerURLState, serializeAirlinerURLState } from "@/lib/data/airliner-url-state";
+import { DEFAULT_AIRLINER_AXES, findAirlinerAxisMetric } from "@/lib/data/airliner-axis-metrics";
+import { EMPTY_AIRLINER_FILTER } from "@/lib/data/airliner-filters";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerURLState } from "@/lib/data/airliner-url-state";
+
+const INITIAL_STATE: AirlinerURLState = {
+	axes: DEFAULT_AIRLINER_AXES,
+	viewport: null,
+	selectedAirlinerIDs: [],
+	debugMode: false,
+	filter: EMPTY_AIRLINER_FILTER,
+};
+
+describe("serializeAirlinerURLState", () => {
+	it("writes the initial view as an empty query", () => {
+		expect(serializeAirlinerURLState(INITIAL_STATE)).toBe("");
+	});
+
+	it("round-trips through parseAirlinerURLState", () => {
+		const state: AirlinerURLState = {
+			axes: { x: findAirlinerAxisMetric("firstDelivery")!, y: DEFAULT_AIRLINER_AXES.y },
+			viewport: { x: [1980, 2020], y: [2000, 8000] },
+			selectedAirlinerIDs: ["16-A359", "17-A35K"],
+			debugMode: true,
+			filter: {
+				facets: { manufacturer: ["Airbus", "Boeing"], bodyType: ["wide"], status: [] },
+				ranges: { firstDelivery: null, rangeKM: [5000, 15000], capacity: null },
+			},
+		};
+
+		const query = serializeAirlinerURLState(state);
+		expect(query).toBe("x=firstDelivery&vx=1980,2020&vy=2000,8000&sel=16-A359&sel=17-A35K&manufacturer=Airbus&manufacturer=Boeing&bodyType=wide&rangeKM=5000,15000&debug=1");
+		expect(parseAirlinerURLState(query)).toEqual(state);
+	});
+});
+
+describe("parseAirlinerURLState", () => {
+	it("accepts a leading question mark", () => {
+		expect(parseAirlinerURLState("?sel=2-A320").selectedAirlinerIDs).toEqual(["2-A320"]);
+	});
+
+	it("falls back to defaults for anything it does not understand", () => {
+		expect(parseAirlinerURLState("x=nope&y=capacity&vx=300,100&vy=1,2&rangeKM=a,b&debug=yes")).toEqual(INITIAL_STATE);
+	});
+
+	it("drops repeated selections and facet values", () => {
+		const state = parseAirlinerURLState("sel=2-A320&sel=2-A320&bodyType=wide&bodyType=wide");
+		expect(state.selectedAirlinerIDs).toEqual(["2-A320"]);
+		expect(state.filter.facets.bodyType).toEqual(["wide"]);
+	});
+});
+
+describe("isSameAirlinerURLViewport", () => {
+	it("matches viewports to the precision the URL keeps", () => {
+		expect(isSameAirlinerURLViewport({ x: [100, 300], y: [2000, 8000] }, { x: [100.0000001, 300], y: [2000, 8000] })).toBe(true);
+		expect(isSameAirlinerURLViewport({ x: [100, 300], y: [2000, 8000] }, { x: [101, 300], y: [2000, 8000] })).toBe(false);
+	});
+});
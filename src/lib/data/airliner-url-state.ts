@@ -0,0 +1,130 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerAxes } from "@/lib/data/airliner-axis-metrics";
+import type { AirlinerFilter } from "@/lib/data/airliner-filters";
+
+// [IMPORT] Utilities //
+import { DEFAULT_AIRLINER_AXES, findAirlinerAxisMetric } from "@/lib/data/airliner-axis-metrics";
+import { AIRLINER_FILTER_FACETS, AIRLINER_FILTER_RANGES, EMPTY_AIRLINER_FILTER } from "@/lib/data/airliner-filters";
+
+/**
+ * @type {AirlinerURLState}
+ * @description The view of the chart kept in the page URL, so that a link opens the same view.
+ *
+ * @property {AirlinerAxes} axes - The metrics plotted on each axis.
+ * @property {object | null} viewport - The visible data domain of each axis, or null for the chart's initial viewport.
+ * @property {string[]} selectedAirlinerIDs - The selected airliner IDs, in the order they were selected.
+ * @property {boolean} debugMode - Whether debug mode is on.
+ * @property {AirlinerFilter} filter - The facets and ranges airliners must match.
+ */
+export type AirlinerURLState = {
+	axes: AirlinerAxes;
+	viewport: { x: [number, number]; y: [number, number] } | null;
+	selectedAirlinerIDs: string[];
+	debugMode: boolean;
+	filter: AirlinerFilter;
+}
+
+// Significant digits viewport bounds are written with, enough to restore a view to well under a pixel
+const VIEWPORT_PRECISION = 6;
+
+/**
+ * @function formatPair
+ * @description Writes a [min, max] pair as `min,max`.
+ */
+function formatPair([min, max]: [number, number], precision?: number): string {
+	return [min, max].map(value => precision ? Number(value.toPrecision(precision)) : value).join(",");
+}
+
+/**
+ * @function parsePair
+ * @description Reads a `min,max` pair, or returns null if it is not two numbers in order.
+ */
+function parsePair(text: string | null): [number, number] | null {
+	if (text === null) return null;
+	const values = text.split(",").map(Number);
+	if (values.length !== 2 || !values.every(Number.isFinite) || values[0] > values[1]) return null;
+	return [values[0], values[1]];
+}
+
+/**
+ * @function isSameAirlinerURLViewport
+ * @description Checks whether two viewports are written to the URL alike, i.e. whether they match to the precision a URL keeps.
+ *
+ * @param a - The first viewport.
+ * @param b - The second viewport.
+ * @returns Whether both viewports would be written the same.
+ */
+export function isSameAirlinerURLViewport(a: NonNullable<AirlinerURLState["viewport"]>, b: NonNullable<AirlinerURLState["viewport"]>): boolean {
+	return formatPair(a.x, VIEWPORT_PRECISION) === formatPair(b.x, VIEWPORT_PRECISION)
+		&& formatPair(a.y, VIEWPORT_PRECISION) === formatPair(b.y, VIEWPORT_PRECISION);
+}
+
+/**
+ * @function serializeAirlinerURLState
+ * @description Writes a view of the chart as a URL query, without the leading `?`.
+ * Defaults are left out, so that the chart's initial view has an empty query.
+ * Lists repeat their key, e.g. `sel=16-A359&sel=17-A35K`, so that values may hold any character,
+ * and ranges are written as `min,max`, e.g. `vx=100,300`.
+ *
+ * @param state - The view to write.
+ * @returns The URL query.
+ */
+export function serializeAirlinerURLState({ axes, viewport, selectedAirlinerIDs, debugMode, filter }: AirlinerURLState): string {
+	const params = new URLSearchParams();
+
+	if (axes.x.id !== DEFAULT_AIRLINER_AXES.x.id) params.set("x", axes.x.id);
+	if (axes.y.id !== DEFAULT_AIRLINER_AXES.y.id) params.set("y", axes.y.id);
+	if (viewport) {
+		params.set("vx", formatPair(viewport.x, VIEWPORT_PRECISION));
+		params.set("vy", formatPair(viewport.y, VIEWPORT_PRECISION));
+	}
+	selectedAirlinerIDs.forEach(id => params.append("sel", id));
+	AIRLINER_FILTER_FACETS.forEach(facet => filter.facets[facet].forEach(value => params.append(facet, value)));
+	AIRLINER_FILTER_RANGES.forEach(range => {
+		const limits = filter.ranges[range];
+		if (limits) params.set(range, formatPair(limits));
+	});
+	if (debugMode) params.set("debug", "1");
+
+	// Commas only ever separate the numbers of a pair, so they are left readable
+	return params.toString().replace(/%2C/g, ",");
+}
+
+/**
+ * @function parseAirlinerURLState
+ * @description Reads a view of the chart from a URL query, as written by `serializeAirlinerURLState`.
+ * Anything missing or not understood falls back to its default, so that a mangled link still opens the chart.
+ *
+ * @param query - The URL query, with or without the leading `?`.
+ * @returns The view.
+ */
+export function parseAirlinerURLState(query: string): AirlinerURLState {
+	const params = new URLSearchParams(query);
+
+	const xMetric = findAirlinerAxisMetric(params.get("x") ?? "");
+	const yMetric = findAirlinerAxisMetric(params.get("y") ?? "");
+	const axes: AirlinerAxes = {
+		x: xMetric?.axes.includes("x") ? xMetric : DEFAULT_AIRLINER_AXES.x,
+		y: yMetric?.axes.includes("y") ? yMetric : DEFAULT_AIRLINER_AXES.y,
+	};
+
+	const viewportX = parsePair(params.get("vx"));
+	const viewportY = parsePair(params.get("vy"));
+
+	const filter: AirlinerFilter = {
+		facets: { ...EMPTY_AIRLINER_FILTER.facets },
+		ranges: { ...EMPTY_AIRLINER_FILTER.ranges },
+	};
+	AIRLINER_FILTER_FACETS.forEach(facet => filter.facets[facet] = Array.from(new Set(params.getAll(facet))));
+	AIRLINER_FILTER_RANGES.forEach(range => filter.ranges[range] = parsePair(params.get(range)));
+
+	return {
+		axes,
+		viewport: viewportX && viewportY && viewportX[0] < viewportX[1] && viewportY[0] < viewportY[1]
+			? { x: viewportX, y: viewportY }
+			: null,
+		selectedAirlinerIDs: Array.from(new Set(params.getAll("sel"))),
+		debugMode: params.get("debug") === "1",
+		filter,
+	};
+}
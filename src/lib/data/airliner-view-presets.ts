@@ -0,0 +1,54 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerFilterFacet, AirlinerFilterRange } from "@/lib/data/airliner-filters";
+
+/**
+ * @type {AirlinerViewPreset}
+ * @description A named region of the chart that is often looked at, offered in the views menu.
+ *
+ * @property {string} id - Identifier for the preset, e.g. `long-haul-widebodies`.
+ * @property {string} name - Human-readable name of the preset.
+ * @property {object} [axes] - The IDs of the metrics the viewport is on. Defaults to passenger capacity against range.
+ *   The preset is only offered while the chart is plotting these metrics.
+ * @property {object} viewport - The data domain of each axis to fit in view, as [min, max].
+ * @property {object} [filter] - Facets and ranges to filter by when the preset is picked, each replacing the current one.
+ *   Facets and ranges left out are kept as the user set them.
+ */
+export type AirlinerViewPreset = {
+	id: string;
+	name: string;
+	axes?: { x: string; y: string };
+	viewport: { x: [number, number]; y: [number, number] };
+	filter?: {
+		facets?: Partial<Record<AirlinerFilterFacet, string[]>>;
+		ranges?: Partial<Record<AirlinerFilterRange, [number, number]>>;
+	};
+}
+
+/**
+ * Preset views, in the order they are offered.
+ * Viewports on the default axes are in seats and kilometres.
+ */
+export const AIRLINER_VIEW_PRESETS: AirlinerViewPreset[] = [
+	{
+		id: "regional-jets",
+		name: "Regional jets",
+		viewport: { x: [50, 130], y: [1500, 7000] },
+	},
+	{
+		id: "narrowbody-battleground",
+		name: "150–250 seat narrowbodies",
+		viewport: { x: [140, 260], y: [4000, 8000] },
+		filter: {
+			facets: { bodyType: ["narrow"] },
+			ranges: { capacity: [150, 250] },
+		},
+	},
+	{
+		id: "long-haul-widebodies",
+		name: "Long-haul widebodies",
+		viewport: { x: [200, 550], y: [10000, 18500] },
+		filter: {
+			facets: { bodyType: ["wide"] },
+		},
+	},
+];
@@ -0,0 +1,99 @@
+// [IMPORT] Testing //
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// [IMPORT] Utilities //
+import {
+	createAirlinerBookmark,
+	getAirlinerBookmarkView,
+	getAirlinerPresetView,
+	loadAirlinerBookmarks,
+	saveAirlinerBookmarks,
+} from "@/lib/data/airliner-views";
+import { DEFAULT_AIRLINER_AXES } from "@/lib/data/airliner-axis-metrics";
+import { EMPTY_AIRLINER_FILTER } from "@/lib/data/airliner-filters";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerFilter } from "@/lib/data/airliner-filters";
+
+const VIEWPORT: { x: [number, number]; y: [number, number] } = { x: [140, 260], y: [4000, 8000] };
+
+const AIRBUS_FILTER: AirlinerFilter = {
+	facets: { ...EMPTY_AIRLINER_FILTER.facets, manufacturer: ["Airbus"], bodyType: ["wide"] },
+	ranges: { ...EMPTY_AIRLINER_FILTER.ranges, rangeKM: [5000, 15000] },
+};
+
+describe("getAirlinerPresetView", () => {
+	it("sets the facets and ranges the preset names and keeps the rest of the current filter", () => {
+		const presetView = getAirlinerPresetView({
+			id: "narrowbodies",
+			name: "Narrowbodies",
+			viewport: VIEWPORT,
+			filter: { facets: { bodyType: ["narrow"] }, ranges: { capacity: [150, 250] } },
+		}, AIRBUS_FILTER);
+
+		expect(presetView?.filter).toEqual({
+			facets: { manufacturer: ["Airbus"], bodyType: ["narrow"], status: [] },
+			ranges: { firstDelivery: null, rangeKM: [5000, 15000], capacity: [150, 250] },
+		});
+	});
+
+	it("leaves the filter alone when the preset has none", () => {
+		expect(getAirlinerPresetView({ id: "all", name: "All", viewport: VIEWPORT }, AIRBUS_FILTER)?.filter).toBeNull();
+	});
+});
+
+describe("airliner bookmarks", () => {
+	let stored: string | null;
+
+	beforeEach(() => {
+		stored = null;
+		vi.stubGlobal("window", {
+			localStorage: {
+				getItem: () => stored,
+				setItem: (_key: string, value: string) => { stored = value; },
+			},
+		});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it("round-trips a bookmark through local storage", () => {
+		const bookmark = createAirlinerBookmark("Airbus widebodies", { axes: DEFAULT_AIRLINER_AXES, viewport: VIEWPORT, filter: AIRBUS_FILTER });
+
+		expect(saveAirlinerBookmarks([bookmark])).toBe(true);
+		const [loaded] = loadAirlinerBookmarks();
+		expect(loaded).toEqual(bookmark);
+		expect(getAirlinerBookmarkView(loaded)).toEqual({ name: "Airbus widebodies", axes: DEFAULT_AIRLINER_AXES, viewport: VIEWPORT, filter: AIRBUS_FILTER });
+	});
+
+	it("gives each bookmark its own ID", () => {
+		const view = { axes: DEFAULT_AIRLINER_AXES, viewport: VIEWPORT, filter: EMPTY_AIRLINER_FILTER };
+		expect(createAirlinerBookmark("One", view).id).not.toBe(createAirlinerBookmark("Two", view).id);
+	});
+
+	it("reads nothing from storage that is not JSON", () => {
+		stored = "[{\"id\":";
+		expect(loadAirlinerBookmarks()).toEqual([]);
+		expect(console.warn).toHaveBeenCalled();
+	});
+
+	it("reads nothing from storage that is not a list", () => {
+		stored = JSON.stringify({ id: "a", name: "A", query: "" });
+		expect(loadAirlinerBookmarks()).toEqual([]);
+	});
+
+	it("skips corrupted entries and keeps the rest", () => {
+		const bookmark = { id: "a", name: "A", query: "vx=100,200&vy=4000,8000" };
+		stored = JSON.stringify([null, "b", { id: 3, name: "C", query: "" }, { id: "d", name: "D" }, bookmark]);
+		expect(loadAirlinerBookmarks()).toEqual([bookmark]);
+	});
+
+	it("reports when local storage refuses the bookmarks", () => {
+		vi.stubGlobal("window", { localStorage: { setItem: () => { throw new Error("QuotaExceededError"); } } });
+		expect(saveAirlinerBookmarks([])).toBe(false);
+	});
+});
@@ -0,0 +1,156 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerAxes } from "@/lib/data/airliner-axis-metrics";
+import type { AirlinerFilter } from "@/lib/data/airliner-filters";
+import type { AirlinerViewPreset } from "@/lib/data/airliner-view-presets";
+
+// [IMPORT] Utilities //
+import { DEFAULT_AIRLINER_AXES, findAirlinerAxisMetric } from "@/lib/data/airliner-axis-metrics";
+import { parseAirlinerURLState, serializeAirlinerURLState } from "@/lib/data/airliner-url-state";
+
+/**
+ * @type {AirlinerView}
+ * @description A named view of the chart the viewport can be sent to, from a preset or a bookmark.
+ *
+ * @property {string} name - Human-readable name of the view.
+ * @property {AirlinerAxes} axes - The metrics the viewport is on.
+ * @property {object} viewport - The data domain of each axis to fit in view, as [min, max].
+ * @property {AirlinerFilter | null} filter - The filter to apply with the view, or null to leave the filter as it is.
+ */
+export type AirlinerView = {
+	name: string;
+	axes: AirlinerAxes;
+	viewport: { x: [number, number]; y: [number, number] };
+	filter: AirlinerFilter | null;
+}
+
+/**
+ * @type {AirlinerBookmark}
+ * @description A view saved by the user, kept in local storage.
+ * The view is stored as a URL query, as written by `serializeAirlinerURLState`,
+ * so that bookmarks saved by an older version of the chart still open.
+ *
+ * @property {string} id - Identifier for the bookmark.
+ * @property {string} name - Name given by the user.
+ * @property {string} query - The axes, viewport and filter of the view, as a URL query.
+ */
+export type AirlinerBookmark = {
+	id: string;
+	name: string;
+	query: string;
+}
+
+// Local storage key bookmarks are kept under
+const BOOKMARKS_STORAGE_KEY = "airliner-chart-bookmarks";
+
+/**
+ * @function getAirlinerPresetView
+ * @description Resolves a preset into a view, filling in the default axes. The facets and ranges the preset sets
+ * replace those of the current filter, and the rest of the current filter is kept, so that picking a preset
+ * does not drop what the user has filtered by.
+ *
+ * @param preset - The preset to resolve.
+ * @param currentFilter - The filter the chart has now.
+ * @returns The view, or null if the preset names an axis metric that does not exist or cannot go on its axis.
+ */
+export function getAirlinerPresetView(preset: AirlinerViewPreset, currentFilter: AirlinerFilter): AirlinerView | null {
+	const xMetric = preset.axes ? findAirlinerAxisMetric(preset.axes.x) : DEFAULT_AIRLINER_AXES.x;
+	const yMetric = preset.axes ? findAirlinerAxisMetric(preset.axes.y) : DEFAULT_AIRLINER_AXES.y;
+	if (!xMetric?.axes.includes("x") || !yMetric?.axes.includes("y")) return null;
+
+	return {
+		name: preset.name,
+		axes: { x: xMetric, y: yMetric },
+		viewport: preset.viewport,
+		filter: preset.filter
+			? {
+				facets: { ...currentFilter.facets, ...preset.filter.facets },
+				ranges: { ...currentFilter.ranges, ...preset.filter.ranges },
+			}
+			: null,
+	};
+}
+
+/**
+ * @function getAirlinerBookmarkView
+ * @description Reads the view a bookmark was saved with. The bookmark's filter is always applied,
+ * even when it keeps every airliner, as it is part of what was saved.
+ *
+ * @param bookmark - The bookmark to read.
+ * @returns The view, or null if the bookmark's query has no viewport.
+ */
+export function getAirlinerBookmarkView(bookmark: AirlinerBookmark): AirlinerView | null {
+	const { axes, viewport, filter } = parseAirlinerURLState(bookmark.query);
+	return viewport ? { name: bookmark.name, axes, viewport, filter } : null;
+}
+
+/**
+ * @function createAirlinerBookmark
+ * @description Creates a bookmark for a view of the chart. The selection and debug mode are not saved.
+ *
+ * @param name - Name given by the user.
+ * @param view - The axes, viewport and filter to save.
+ * @returns The bookmark.
+ */
+export function createAirlinerBookmark(name: string, { axes, viewport, filter }: {
+	axes: AirlinerAxes;
+	viewport: AirlinerView["viewport"];
+	filter: AirlinerFilter;
+}): AirlinerBookmark {
+	return {
+		id: crypto.randomUUID(),
+		name,
+		query: serializeAirlinerURLState({ axes, viewport, selectedAirlinerIDs: [], debugMode: false, filter }),
+	};
+}
+
+/**
+ * @function isAirlinerViewOnAxes
+ * @description Checks whether a view is on the axes the chart is plotting.
+ */
+export function isAirlinerViewOnAxes(view: AirlinerView, axes: AirlinerAxes): boolean {
+	return view.axes.x.id === axes.x.id && view.axes.y.id === axes.y.id;
+}
+
+/**
+ * @function isAirlinerBookmark
+ * @description Checks whether a value read from local storage is a bookmark.
+ */
+function isAirlinerBookmark(value: unknown): value is AirlinerBookmark {
+	if (typeof value !== "object" || value === null) return false;
+	const { id, name, query } = value as Record<string, unknown>;
+	return typeof id === "string" && typeof name === "string" && typeof query === "string";
+}
+
+/**
+ * @function loadAirlinerBookmarks
+ * @description Reads the user's bookmarks from local storage.
+ * Anything unreadable is skipped, so that a corrupted entry does not lose the rest.
+ *
+ * @returns The bookmarks, in the order they were saved, or none if local storage is unavailable.
+ */
+export function loadAirlinerBookmarks(): AirlinerBookmark[] {
+	try {
+		const stored = JSON.parse(window.localStorage.getItem(BOOKMARKS_STORAGE_KEY) ?? "[]");
+		return Array.isArray(stored) ? stored.filter(isAirlinerBookmark) : [];
+	} catch (error) {
+		console.warn("[loadAirlinerBookmarks] Failed to read bookmarks:", error);
+		return [];
+	}
+}
+
+/**
+ * @function saveAirlinerBookmarks
+ * @description Writes the user's bookmarks to local storage, replacing those stored.
+ *
+ * @param bookmarks - The bookmarks, in the order they were saved.
+ * @returns Whether the bookmarks were written; local storage may be full, or blocked by the browser.
+ */
+export function saveAirlinerBookmarks(bookmarks: AirlinerBookmark[]): boolean {
+	try {
+		window.localStorage.setItem(BOOKMARKS_STORAGE_KEY, JSON.stringify(bookmarks));
+		return true;
+	} catch (error) {
+		console.warn("[saveAirlinerBookmarks] Failed to write bookmarks:", error);
+		return false;
+	}
+}
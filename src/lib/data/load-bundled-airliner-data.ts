@@ -0,0 +1,80 @@
+// [IMPORT] Node //
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+// [IMPORT] Utilities //
+import { parseAirlinerData, parsePayloadRangeCSV, detectAirlinerDataFormat, formatAirlinerDataDiagnostic } from "@/lib/data/airliner-data-processor";
+
+// [IMPORT] Types/interfaces //
+import type { AirlinerDataLoadResult, AirlinerDataDiagnostic, AirlinerPayloadRangeData } from "@/lib/data/airliner-types";
+
+/**
+ * Path of the bundled dataset, relative to the project root.
+ */
+export const BUNDLED_AIRLINER_DATA_PATH = path.join("public", "data", "airliners.csv");
+
+/**
+ * Path of the bundled payload–range diagrams, relative to the project root.
+ */
+export const BUNDLED_PAYLOAD_RANGE_PATH = path.join("public", "data", "payload-range.csv");
+
+/**
+ * Loads the bundled airliner dataset from disk. Server-only: runs while the page is
+ * prerendered at build time, so that visitors receive already-parsed data.
+ *
+ * Any validation error fails the build instead of reaching production as a skipped row.
+ * Warnings are logged to the build output and passed on for the data issues panel.
+ *
+ * @param dataPath Optional. Path of the dataset relative to the project root. Defaults to `BUNDLED_AIRLINER_DATA_PATH`.
+ * @returns Promise<AirlinerDataLoadResult> The airliner rows and any warnings
+ * @throws {Error} If the dataset has validation errors
+ */
+export async function loadBundledAirlinerData(dataPath: string = BUNDLED_AIRLINER_DATA_PATH): Promise<AirlinerDataLoadResult> {
+	const text = await readFile(path.join(process.cwd(), dataPath), "utf8");
+	const result = await parseAirlinerData(text, detectAirlinerDataFormat(dataPath, null, text));
+
+	reportBundledDiagnostics(result.diagnostics, dataPath, "loadBundledAirlinerData");
+	return result;
+}
+
+/**
+ * Loads the bundled payload–range diagrams from disk. Server-only, like `loadBundledAirlinerData`:
+ * errors fail the build and warnings are logged to the build output.
+ * Diagrams for airliners not in the dataset are reported as warnings.
+ *
+ * @param airlinerIDs The IDs of the airliners in the bundled dataset
+ * @param dataPath Optional. Path of the file relative to the project root. Defaults to `BUNDLED_PAYLOAD_RANGE_PATH`.
+ * @returns Promise<AirlinerPayloadRangeData> The diagrams, keyed by `airlinerID`
+ * @throws {Error} If the file has validation errors
+ */
+export async function loadBundledPayloadRangeData(airlinerIDs: string[], dataPath: string = BUNDLED_PAYLOAD_RANGE_PATH): Promise<AirlinerPayloadRangeData> {
+	const text = await readFile(path.join(process.cwd(), dataPath), "utf8");
+	const { curves, diagnostics } = await parsePayloadRangeCSV(text);
+
+	const knownIDs = new Set(airlinerIDs);
+	Object.keys(curves).filter(airlinerID => !knownIDs.has(airlinerID)).forEach(airlinerID => {
+		diagnostics.push({ line: null, field: "airlinerID", rule: "unknown-airliner", severity: "warning", message: `No airliner in the dataset has the ID ${airlinerID}` });
+	});
+
+	reportBundledDiagnostics(diagnostics, dataPath, "loadBundledPayloadRangeData");
+	return curves;
+}
+
+/**
+ * @function reportBundledDiagnostics
+ * @description Throws on any validation error in a bundled file, and logs its warnings
+ * prefixed with the name of the loader that read the file.
+ */
+function reportBundledDiagnostics(diagnostics: AirlinerDataDiagnostic[], dataPath: string, loaderName: string) {
+	const errors = diagnostics.filter(diagnostic => diagnostic.severity === "error");
+	if (errors.length > 0) {
+		throw new Error(
+			`${dataPath} has ${errors.length} validation error(s):\n` +
+			errors.map(diagnostic => formatAirlinerDataDiagnostic(diagnostic, dataPath)).join("\n")
+		);
+	}
+
+	diagnostics.forEach(diagnostic => {
+		console.warn(`[${loaderName}] ${formatAirlinerDataDiagnostic(diagnostic, dataPath)}`);
+	});
+}
@@ -1,14 +1,21 @@
 // [IMPORT] Types/interfaces //
 import type { AirlinerStats, AirlinerMarker, AirlinerMarkerSeries, AirlinerLine} from "@/lib/data/airliner-types";
+import type { AirlinerAxes } from "@/lib/data/airliner-axis-metrics";
+
+// [IMPORT] Utilities //
+import { DEFAULT_AIRLINER_AXES, getAirlinerAxisValues, getAirlinerAxisFieldValue, isClassMarker, isLimitMarker } from "@/lib/data/airliner-axis-metrics";
 
 /**
  * @function plotAirlinerMarkerSeries
  * @description Converts AirlinerStats data into screen-space AirlinerMarker objects.
+ * The x metric's fields are plotted as a row of markers at the y metric's value.
+ * The airliner must be plottable on the axes; see `isAirlinerPlottable`.
  * 
  * @param {AirlinerStats} airlinerStats - The airliner's stats.
  * @param {any} xScaleView - The x-scale for the view.
  * @param {any} yScaleView - The y-scale for the view.
  * @param {number} markerSize - The size of the marker.
+ * @param {AirlinerAxes} axes - Optional. The metrics plotted on each axis. Defaults to passenger capacity against range.
  * 
  * @returns {AirlinerMarkerSeries} An object containing the airliner ID and the screen-space coordinates for the markers.
  * 
@@ -18,30 +25,24 @@ export function plotAirlinerMarkerSeries(
 	airlinerStats: AirlinerStats,
 	xScaleView: any,
 	yScaleView: any,
-	markerSize: number = 12
+	markerSize: number = 12,
+	axes: AirlinerAxes = DEFAULT_AIRLINER_AXES
 ): AirlinerMarkerSeries {
 
 	let markers: AirlinerMarker[] = [];
+
+	// Get the y value, which is the same for all markers
+	const yValue = getAirlinerAxisValues(airlinerStats, axes.y)[0];
 	
-	// Get the x-coordinates for the markers
-	if (airlinerStats.pax3Class) {
-		markers.push({
-			markerClass: "pax3Class",
-			markerCoordinates: plotAirlinerMarkerXY(airlinerStats.pax3Class, airlinerStats.rangeKM, xScaleView, yScaleView)
-		});
-	}
-	if (airlinerStats.pax2Class) {
-		markers.push({
-			markerClass: "pax2Class",
-			markerCoordinates: plotAirlinerMarkerXY(airlinerStats.pax2Class, airlinerStats.rangeKM, xScaleView, yScaleView)
-		});
-	}
-	if (airlinerStats.pax1Class) {	
+	// Get the x-coordinates for the main markers
+	axes.x.fields.filter(({ markerClass }) => isClassMarker(markerClass)).forEach(({ field, markerClass }) => {
+		const value = getAirlinerAxisFieldValue(airlinerStats, field);
+		if (value === undefined) return;
 		markers.push({
-			markerClass: "pax1Class",
-			markerCoordinates: plotAirlinerMarkerXY(airlinerStats.pax1Class, airlinerStats.rangeKM, xScaleView, yScaleView)
+			markerClass,
+			markerCoordinates: plotAirlinerMarkerXY(value, yValue, xScaleView, yScaleView)
 		});
-	}
+	});
 
 	// Map the markers to their x coordinates
 	let xCoordinates = markers.map(marker => marker.markerCoordinates.x);
@@ -55,37 +56,23 @@ export function plotAirlinerMarkerSeries(
 	// Get the smallest x coordinate of the class markers
 	const classXMin = Math.min(...xCoordinates);
 
-	// Add the limit and exit markers
-	if (airlinerStats.paxLimit) {
+	// Add the limit markers, such as the theoretical seat limit and the exit limit
+	axes.x.fields.filter(({ markerClass }) => isLimitMarker(markerClass)).forEach(({ field, markerClass }) => {
+		const value = getAirlinerAxisFieldValue(airlinerStats, field);
+		if (value === undefined) return;
 
-		// Get the theoretical limit marker
-		const limitMarker = plotAirlinerMarkerXY(airlinerStats.paxLimit, airlinerStats.rangeKM, xScaleView, yScaleView);
+		const limitMarker = plotAirlinerMarkerXY(value, yValue, xScaleView, yScaleView);
 
-		// Skip if the theoretical limit is under the largest class marker
+		// Skip if the limit is under the largest class marker
 		if (limitMarker.x < classXMax) {
-			// console.warn(`[plotAirlinerMarkerSeries] Limit marker is under the largest class marker for airliner ${airlinerID}`);
-		} else {
-			markers.push({
-				markerClass: "paxLimit",
-				markerCoordinates: limitMarker
-			});
-		}
-	}
-	if (airlinerStats.paxExit) {
-
-		// Get the exit marker
-		const exitMarker = plotAirlinerMarkerXY(airlinerStats.paxExit, airlinerStats.rangeKM, xScaleView, yScaleView);
-
-		// Skip if the exit limit is under the largest class marker
-		if (exitMarker.x < classXMax) {
-			// console.warn(`[plotAirlinerMarkerSeries] Exit marker is under the largest class marker for airliner ${airlinerID}`);
-		} else {
-			markers.push({
-				markerClass: "paxExit",
-				markerCoordinates: exitMarker
-			});
+			// console.warn(`[plotAirlinerMarkerSeries] ${markerClass} marker is under the largest class marker for airliner ${airlinerID}`);
+			return;
 		}
-	}
+		markers.push({
+			markerClass,
+			markerCoordinates: limitMarker
+		});
+	});
 
 	// Remap the markers to their x coordinates
 	xCoordinates = markers.map(marker => marker.markerCoordinates.x);
@@ -132,7 +119,7 @@ export function plotAirlinerMarkerSeries(
 
 /**
  * @function plotLabelAnchor
- * @description Calculates the anchor point for a label based on the passenger class markers.
+ * @description Calculates the anchor point for a label based on the main (e.g. passenger class) markers.
  * Anchor slides from leftmost marker -> clamped at 0 (left chart edge) -> follows rightmost off-screen
  * 
  * @param {string} airlinerID - The airliner's ID.
@@ -141,12 +128,8 @@ export function plotAirlinerMarkerSeries(
  */
 export function plotLabelAnchor(airlinerID: string, markerSeries: AirlinerMarkerSeries): { x: number; y: number } {
 
-	// Get list of passenger class markers
-	const paxClassMarkers = markerSeries.markers.filter(marker =>
-		marker.markerClass === "pax3Class" ||
-		marker.markerClass === "pax2Class" ||
-		marker.markerClass === "pax1Class"
-	);
+	// Get list of main markers, e.g. passenger class markers
+	const paxClassMarkers = markerSeries.markers.filter(marker => isClassMarker(marker.markerClass));
 
 	// Get the leftmost passenger class marker coordinate
 	const leftmostMarker = paxClassMarkers.reduce((min, marker) => marker.markerCoordinates.x < min.markerCoordinates.x ? marker : min).markerCoordinates.x;
@@ -177,10 +160,10 @@ export function plotLabelAnchor(airlinerID: string, markerSeries: AirlinerMarker
 
 /**
  * @function plotAirlinerMarkerXY
- * @description Converts a passenger capacity and range values to screen-space coordinates
+ * @description Converts x and y metric values to screen-space coordinates
  * 
- * @param {number} value - The value to convert.
- * @param {number} range - The range to convert.
+ * @param {number} value - The x value to convert.
+ * @param {number} range - The y value to convert.
  * @param {any} xScaleView - The x-scale for the view.
  * @param {any} yScaleView - The y-scale for the view.
  * @returns {AirlinerMarker} The converted marker.
@@ -0,0 +1,117 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerMarkerSeries, AirlinerStats } from "@/lib/data/airliner-types";
+import type { AirlinerHierarchy } from "@/lib/data/airliner-hierarchy";
+
+/**
+ * @type {AirlinerDetailLevel}
+ * @description How much detail the chart shows: one composite per family, or every variant.
+ */
+export type AirlinerDetailLevel = "families" | "variants";
+
+/**
+ * How far the chart must be zoomed in from its full view, on either axis, before families expand into variants.
+ */
+export const FAMILY_EXPAND_ZOOM = 1.5;
+
+/**
+ * Prefix of the IDs given to family composites, so that they cannot be mistaken for an `airlinerID`.
+ */
+const FAMILY_COMPOSITE_ID_PREFIX = "family:";
+
+/**
+ * @type {AirlinerFamilyComposite}
+ * @description A single marker standing in for every plotted variant of a family when zoomed out.
+ * It is charted like an airliner, so that its label is placed and clustered along with the rest.
+ *
+ * @property {string} airlinerID - The composite's ID, made from the family's ID. See `getFamilyCompositeID`.
+ * @property {AirlinerStats} airlinerData - The first variant's stats, named after the family, e.g. "A320 family".
+ * @property {string[]} familyMembers - The IDs of the variants the composite stands for.
+ * @property {AirlinerMarkerSeries} markerSeries - The capacity and range envelope of the variants, with no markers of its own.
+ * @property {object} labelAnchor - The middle of the envelope's left edge, clamped to the chart like an airliner's anchor.
+ */
+export type AirlinerFamilyComposite = {
+	airlinerID: string;
+	airlinerData: AirlinerStats;
+	familyMembers: string[];
+	markerSeries: AirlinerMarkerSeries;
+	labelAnchor: { x: number; y: number };
+}
+
+/**
+ * @function getFamilyCompositeID
+ * @description Gets the ID of a family's composite from the family's ID in the hierarchy.
+ */
+export function getFamilyCompositeID(familyID: string): string {
+	return `${FAMILY_COMPOSITE_ID_PREFIX}${familyID}`;
+}
+
+/**
+ * @function isFamilyCompositeID
+ * @description Checks whether an ID belongs to a family composite rather than an airliner.
+ */
+export function isFamilyCompositeID(id: string): boolean {
+	return id.startsWith(FAMILY_COMPOSITE_ID_PREFIX);
+}
+
+/**
+ * @function getAirlinerDetailLevel
+ * @description Decides the level of detail from how far the viewport is zoomed in from the full view.
+ * Families expand once either axis is zoomed in by `threshold` or more.
+ *
+ * @param fullViewport - The data domain of the full, unzoomed view.
+ * @param viewport - The data domain currently in view.
+ * @param threshold - Optional. The zoom at which families expand. Defaults to `FAMILY_EXPAND_ZOOM`.
+ * @returns The level of detail to show.
+ */
+export function getAirlinerDetailLevel(
+	fullViewport: { x: [number, number]; y: [number, number] },
+	viewport: { x: number[]; y: number[] },
+	threshold: number = FAMILY_EXPAND_ZOOM
+): AirlinerDetailLevel {
+	const zoomX = (fullViewport.x[1] - fullViewport.x[0]) / Math.abs(viewport.x[1] - viewport.x[0]);
+	const zoomY = (fullViewport.y[1] - fullViewport.y[0]) / Math.abs(viewport.y[1] - viewport.y[0]);
+	return Math.max(zoomX, zoomY) >= threshold ? "variants" : "families";
+}
+
+/**
+ * @function plotFamilyComposites
+ * @description Plots a composite for every family with more than one plotted variant.
+ * Its envelope spans the bounding boxes of the variants' marker series.
+ *
+ * @param hierarchy - The dataset hierarchy.
+ * @param plotElements - The plotted marker series, keyed by airliner ID. Variants without one are left out.
+ * @returns The composite of each family.
+ */
+export function plotFamilyComposites(
+	hierarchy: AirlinerHierarchy,
+	plotElements: Map<string, { markerSeries: AirlinerMarkerSeries }>
+): AirlinerFamilyComposite[] {
+	return hierarchy.manufacturers
+		.flatMap(manufacturer => manufacturer.families)
+		.flatMap(family => {
+			const variants = family.generations
+				.flatMap(generation => generation.variants)
+				.filter(variant => plotElements.get(variant.id)?.markerSeries);
+			if (variants.length < 2) return [];
+
+			const bboxes = variants.map(variant => plotElements.get(variant.id)!.markerSeries.seriesBBox);
+			const xMin = Math.min(...bboxes.map(bbox => bbox.x[0]));
+			const xMax = Math.max(...bboxes.map(bbox => bbox.x[1]));
+			const yMin = Math.min(...bboxes.map(bbox => bbox.y[0]));
+			const yMax = Math.max(...bboxes.map(bbox => bbox.y[1]));
+			const yCentre = (yMin + yMax) / 2;
+
+			return [{
+				airlinerID: getFamilyCompositeID(family.id),
+				airlinerData: { ...variants[0].airliner.airlinerData, nameCommon: `${family.name} family` },
+				familyMembers: variants.map(variant => variant.id),
+				markerSeries: {
+					markers: [],
+					lines: { x1: xMin, x2: xMax, x3: xMax, y: yCentre },
+					seriesBBox: { x: [xMin, xMax], y: [yMin, yMax] },
+				},
+				// Slides along the envelope to stay visible, as airliner anchors do
+				labelAnchor: { x: Math.min(Math.max(0, xMin), xMax), y: yCentre },
+			}];
+		});
+}
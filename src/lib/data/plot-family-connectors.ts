@@ -0,0 +1,151 @@
+// [IMPORT] Types/interfaces //
+import type { AirlinerMarkerSeries } from "@/lib/data/airliner-types";
+import type { AirlinerHierarchy, AirlinerVariant } from "@/lib/data/airliner-hierarchy";
+import type { Obstacle } from "@/lib/band-placement/band-placement-types";
+
+// [IMPORT] Utilities //
+import { getAirlinerSeats } from "@/lib/data/airliner-derived-fields";
+
+/**
+ * The orders a family's variants can be joined in: by passenger capacity, or generation by generation.
+ */
+export const FAMILY_CONNECTOR_ORDERS = ["capacity", "generation"] as const;
+export type FamilyConnectorOrder = typeof FAMILY_CONNECTOR_ORDERS[number];
+
+/**
+ * @type {AirlinerFamilyConnector}
+ * @description A path joining the plotted variants of one airliner family.
+ *
+ * @property {string} familyID - The ID of the family in the hierarchy, e.g. `Airbus/A320`.
+ * @property {string[]} airlinerIDs - The variants the path passes through, in order.
+ * @property {object[]} points - The screen-space point of each variant, in the same order.
+ */
+export type AirlinerFamilyConnector = {
+	familyID: string;
+	airlinerIDs: string[];
+	points: { x: number; y: number }[];
+}
+
+/**
+ * @function plotFamilyConnectors
+ * @description Plots a connector path for every family with more than one plotted variant.
+ * Each variant is joined at the middle of its passenger class markers.
+ *
+ * @param hierarchy - The dataset hierarchy.
+ * @param plotElements - The plotted marker series, keyed by airliner ID. Variants without one are skipped.
+ * @param order - Whether variants are joined by capacity, or generation by generation in dataset order.
+ * @returns The connector of each family.
+ */
+export function plotFamilyConnectors(
+	hierarchy: AirlinerHierarchy,
+	plotElements: Map<string, { markerSeries: AirlinerMarkerSeries }>,
+	order: FamilyConnectorOrder
+): AirlinerFamilyConnector[] {
+	return hierarchy.manufacturers
+		.flatMap(manufacturer => manufacturer.families)
+		.flatMap(family => {
+			let variants: AirlinerVariant[] = family.generations
+				.flatMap(generation => generation.variants)
+				.filter(variant => plotElements.get(variant.id)?.markerSeries);
+			if (variants.length < 2) return [];
+
+			if (order === "capacity") {
+				variants = [...variants].sort((a, b) => (getAirlinerSeats(a.airliner.airlinerData) ?? 0) - (getAirlinerSeats(b.airliner.airlinerData) ?? 0));
+			}
+
+			return [{
+				familyID: family.id,
+				airlinerIDs: variants.map(variant => variant.id),
+				points: variants.map(variant => {
+					const { lines } = plotElements.get(variant.id)!.markerSeries;
+					return { x: (lines.x1 + lines.x2) / 2, y: lines.y };
+				}),
+			}];
+		});
+}
+
+/**
+ * @function clipSegment
+ * @description Clips a line segment to a rectangle (Liang–Barsky).
+ * @returns The start and end of the visible part as fractions along the segment, or null if none of it is visible.
+ */
+function clipSegment(
+	from: { x: number; y: number },
+	to: { x: number; y: number },
+	width: number,
+	height: number
+): [number, number] | null {
+	const dx = to.x - from.x;
+	const dy = to.y - from.y;
+	let tMin = 0;
+	let tMax = 1;
+
+	// Each pair is the direction along the segment and its distance from one edge of the rectangle
+	const edges: [number, number][] = [[-dx, from.x], [dx, width - from.x], [-dy, from.y], [dy, height - from.y]];
+	for (const [direction, distance] of edges) {
+		if (direction === 0) {
+			if (distance < 0) return null;
+			continue;
+		}
+		const t = distance / direction;
+		if (direction < 0) tMin = Math.max(tMin, t);
+		else tMax = Math.min(tMax, t);
+	}
+
+	return tMin <= tMax ? [tMin, tMax] : null;
+}
+
+/**
+ * @function plotFamilyConnectorObstacles
+ * @description Turns connector paths into obstacles for label placement. A slanted path's
+ * bounding box would block a whole region of the chart, so each segment is cut into short
+ * pieces, each its own obstacle. Only the parts of the paths within the chart are kept.
+ *
+ * @param connectors - The family connectors.
+ * @param width - The width of the chart.
+ * @param height - The height of the chart.
+ * @param padding - How far the obstacles reach either side of the path.
+ * @param pieceLength - Optional. The longest piece a segment is cut into. Defaults to 16.
+ * @returns The obstacles covering the connectors.
+ */
+export function plotFamilyConnectorObstacles(
+	connectors: AirlinerFamilyConnector[],
+	width: number,
+	height: number,
+	padding: number,
+	pieceLength: number = 16
+): Obstacle[] {
+	const obstacles: Obstacle[] = [];
+
+	connectors.forEach(({ points }) => {
+		for (let i = 1; i < points.length; i++) {
+			const from = points[i - 1];
+			const to = points[i];
+
+			const visible = clipSegment(from, to, width, height);
+			if (!visible) continue;
+
+			const [tStart, tEnd] = visible;
+			const visibleLength = Math.hypot(to.x - from.x, to.y - from.y) * (tEnd - tStart);
+			const pieceCount = Math.max(1, Math.ceil(visibleLength / pieceLength));
+
+			for (let piece = 0; piece < pieceCount; piece++) {
+				const t0 = tStart + (tEnd - tStart) * piece / pieceCount;
+				const t1 = tStart + (tEnd - tStart) * (piece + 1) / pieceCount;
+				const x0 = from.x + (to.x - from.x) * t0;
+				const x1 = from.x + (to.x - from.x) * t1;
+				const y0 = from.y + (to.y - from.y) * t0;
+				const y1 = from.y + (to.y - from.y) * t1;
+
+				obstacles.push({
+					minX: Math.min(x0, x1) - padding,
+					maxX: Math.max(x0, x1) + padding,
+					minY: Math.min(y0, y1) - padding,
+					maxY: Math.max(y0, y1) + padding,
+				});
+			}
+		}
+	});
+
+	return obstacles;
+}
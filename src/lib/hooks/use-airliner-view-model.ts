@@ -6,6 +6,8 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 // [IMPORT] Types/interfaces //
 import type { AirlinerData, AirlinerLabel, AirlinerModel, AirlinerMarkerSeries } from "@/lib/data/airliner-types";
 import type { Obstacle, PlacementBand, BandOccupancy, PlacementObject } from "@/lib/band-placement/band-placement-types";
+import type { AirlinerFamilyConnector, FamilyConnectorOrder } from "@/lib/data/plot-family-connectors";
+import type { AirlinerDetailLevel } from "@/lib/data/plot-family-composites";
 
 // [IMPORT] Utilities //
 import { plotAirlinerMarkerSeries, plotLabelAnchor } from "@/lib/data/plot-airliner-markers";
@@ -13,6 +15,12 @@ import { calculateChartPlacementBands } from "@/lib/band-placement/chart-bands";
 import { calculateBandOccupancy } from "@/lib/band-placement/band-occupancy";
 import { calculateBandPlacement } from "@/lib/band-placement/calculate-band-placement";
 import { detectClustersWithFlatbush } from "@/lib/utils/detect-clusters-with-flatbush";
+import { plotFamilyConnectors, plotFamilyConnectorObstacles } from "@/lib/data/plot-family-connectors";
+import { plotFamilyComposites } from "@/lib/data/plot-family-composites";
+
+// [IMPORT] Context providers/hooks //
+import { useAirlinerAxes } from "@/context/AirlinerAxesContext";
+import { useAirlinerHierarchy } from "@/context/AirlinerHierarchyContext";
 
 /**
  * @type {AirlinerPlotData}
@@ -49,6 +57,10 @@ export type AirlinerPlotData = {
  * - Selective updates: Only recalculates what changed (e.g., markers on zoom, not label measurements)
  * - Batched placement: Waits for enough data before running expensive global calculations
  * - Mixed granularity: Per-airliner data (markers, labels) + global data (bands, occupancy)
+ * - Axis metrics: markers are plotted for the metrics chosen in the AirlinerAxesContext
+ * - Family connectors: optional paths joining each family's variants, which labels avoid
+ * - Semantic zoom: at the "families" detail level, each family's variants are replaced by a single
+ *   composite, which is placed, labelled and clustered like an airliner
  * 
  * @param data - Array of airliner data with unique IDs
  * @param xScaleView - X-axis scale function (triggers marker recalculation on change)
@@ -56,6 +68,10 @@ export type AirlinerPlotData = {
  * @param width - The width of the chart
  * @param height - The height of the chart
  * @param debug - Optional debug mode flag
+ * @param deferLabelPlacement - Optional. Skips label placement, e.g. while a dataset is still streaming in,
+ * so that labels are placed once rather than shuffled around as each chunk of airliners arrives
+ * @param familyConnectorOrder - Optional. The order to join each family's variants in, or null to draw no connectors
+ * @param detailLevel - Optional. Whether to show every variant, or one composite per family. Defaults to every variant
  * 
  * @returns {object} ViewModel interface
  * @returns {Map<string, AirlinerModel>} airlinerEntries - Per-airliner computed data
@@ -63,6 +79,7 @@ export type AirlinerPlotData = {
  * @returns {function} plotFormat - Formatting options for the plot (to be moved somewhere else)
  * @returns {function} updateLabelDimensions - Callback for DOM measurement updates
  * @returns {boolean} areAllLabelsMeasured - Whether all labels have been measured
+ * @returns {AirlinerFamilyConnector[]} familyConnectors - The family connector paths, if drawn
  */
 export function useAirlinerViewModel(
 	data: AirlinerData[], 
@@ -70,9 +87,18 @@ export function useAirlinerViewModel(
 	yScaleView: any,
 	width: number,
 	height: number,
-	debug: boolean = false
+	debug: boolean = false,
+	deferLabelPlacement: boolean = false,
+	familyConnectorOrder: FamilyConnectorOrder | null = null,
+	detailLevel: AirlinerDetailLevel = "variants"
   ) {
 
+	// Metrics plotted on each axis
+	const axes = useAirlinerAxes();
+
+	// Manufacturer → family → generation → variant hierarchy, for joining families
+	const hierarchy = useAirlinerHierarchy();
+
 	// Plot visual config
 	const plotFormat = useMemo(() => ({
 		markerSize: 6,
@@ -81,7 +107,9 @@ export function useAirlinerViewModel(
 		markerMargin: 8,
 		labelFontSize: 16,
 		labelPadding: [4, 12],
-		labelMargin: [0, 0]
+		labelMargin: [0, 0],
+		familyConnectorWidth: 2,
+		familyConnectorMargin: 4
 	}), []);
 	
 	/**
@@ -105,9 +133,10 @@ export function useAirlinerViewModel(
 	const [areLabelsMeasured, setAreLabelsMeasured] = useState(false);
 
 	// Callback for batch label measurements
+	// Merges into the labels already measured, as family composites are measured when they first appear
 	const batchUpdateLabelDimensions = useCallback((dimensionsMap: Map<string, {width: number, height: number}>) => {
 		// console.log("[useAirlinerViewModel] batchUpdateLabelDimensions: Updating label dimensions");
-		setLabelDimensions(dimensionsMap);
+		setLabelDimensions(previous => new Map([...previous, ...dimensionsMap]));
 		setAreLabelsMeasured(true);
 	}, []);
 
@@ -120,6 +149,7 @@ export function useAirlinerViewModel(
 	 * This needs to be recalculated when:
 	 * - The data changes (airlinerData)
 	 * - The xScaleView or yScaleView changes (the user zooms or pans)
+	 * - The axis metrics change
 	 * - Plot format changes (to be implemented properly)
 	 */
 	const plotElements = useMemo(() => {
@@ -130,7 +160,8 @@ export function useAirlinerViewModel(
 				airliner.airlinerData,
 				xScaleView,
 				yScaleView,
-				Math.max(plotFormat.markerSize, plotFormat.markerLineMajorWidth) + plotFormat.markerMargin
+				Math.max(plotFormat.markerSize, plotFormat.markerLineMajorWidth) + plotFormat.markerMargin,
+				axes
 			);
 
 			const newLabelAnchor = plotLabelAnchor(
@@ -143,8 +174,57 @@ export function useAirlinerViewModel(
 			});
 		});
 		return newElements;
-	}, [data, xScaleView, yScaleView, plotFormat]);
+	}, [data, xScaleView, yScaleView, plotFormat, axes]);
+
+	/**
+	 * @type {{detailData: Map<string, AirlinerData>, detailElements: Map<string, {markerSeries: AirlinerMarkerSeries, labelAnchor: {x: number, y: number}}>}}
+	 * @description useMemo that holds the airliners and plot elements at the current level of detail.
+	 * At the "families" level, the variants of each family are swapped for the family's composite;
+	 * everything downstream (connectors, bands, labels and clusters) works from these.
+	 * 
+	 * This needs to be recalculated when:
+	 * - The data or plot elements change (airlinerData, plotElements)
+	 * - The hierarchy changes (the dataset changes)
+	 * - The level of detail changes (detailLevel)
+	 */
+	const { detailData, detailElements } = useMemo(() => {
+		if (detailLevel === "variants") {
+			return { detailData: airlinerData, detailElements: plotElements };
+		}
 
+		const composites = plotFamilyComposites(hierarchy, plotElements);
+		const collapsedIDs = new Set(composites.flatMap(composite => composite.familyMembers));
+
+		const newData = new Map();
+		const newElements = new Map();
+		airlinerData.forEach((airliner, id) => {
+			if (!collapsedIDs.has(id)) newData.set(id, airliner);
+		});
+		plotElements.forEach((element, id) => {
+			if (!collapsedIDs.has(id)) newElements.set(id, element);
+		});
+		composites.forEach(({ airlinerID, airlinerData, familyMembers, markerSeries, labelAnchor }) => {
+			newData.set(airlinerID, { airlinerID, airlinerData, familyMembers });
+			newElements.set(airlinerID, { markerSeries, labelAnchor });
+		});
+
+		return { detailData: newData, detailElements: newElements };
+	}, [airlinerData, plotElements, hierarchy, detailLevel]);
+
+	/**
+	 * @type {AirlinerFamilyConnector[]}
+	 * @description useMemo that holds the paths joining each family's plotted variants.
+	 * Families collapsed into a composite have no variants plotted, and so no connector.
+	 * 
+	 * This needs to be recalculated when:
+	 * - The plot elements at the current level of detail change (detailElements)
+	 * - The hierarchy changes (the dataset changes)
+	 * - The connector order changes, or connectors are turned on or off
+	 */
+	const familyConnectors: AirlinerFamilyConnector[] = useMemo(() => {
+		if (!familyConnectorOrder) return [];
+		return plotFamilyConnectors(hierarchy, detailElements, familyConnectorOrder);
+	}, [hierarchy, detailElements, familyConnectorOrder]);
 
 	
 	/**
@@ -154,13 +234,20 @@ export function useAirlinerViewModel(
 	 * - Occupancy
 	 * 
 	 * This needs to be recalculated when:
-	 * - The plot elements change (plotElements)
+	 * - The plot elements at the current level of detail change (detailElements)
+	 * - The family connectors change (familyConnectors)
 	 * - The width or height changes
 	 */
 	const airlinerPlotBands = useMemo(() => {
 		// console.log("[useAirlinerViewModel] airlinerPlotBands: Calculating airliner plot bands");
-		return plotChartBands(plotElements, width, height);
-	}, [plotElements, width, height]);
+		const connectorObstacles = plotFamilyConnectorObstacles(
+			familyConnectors,
+			width,
+			height,
+			plotFormat.familyConnectorWidth / 2 + plotFormat.familyConnectorMargin
+		);
+		return plotChartBands(detailElements, width, height, connectorObstacles);
+	}, [detailElements, familyConnectors, plotFormat, width, height]);
 
 	
 
@@ -175,15 +262,25 @@ export function useAirlinerViewModel(
 	 * @property {any} labelDebugData - Debug information
 	 *
 	 * This useMemo recalculates when:
+	 * - The airliners at the current level of detail change (`detailData`, `detailElements`)
 	 * - The airliner plot bands change (`airlinerPlotBands`)
 	 * - The label dimensions change (`labelDimensions`)
 	 * - The width or height changes
+	 * - Label placement stops being deferred (`deferLabelPlacement`)
 	 */
 	const { labelPlacement, labelFailed, debugData: labelDebugData } = useMemo(() => {
 
+		if (deferLabelPlacement) {
+			return {
+				labelPlacement: new Map(),
+				labelFailed: new Map(),
+				debugData: null
+			};
+		}
+
 		const newLabelPlacement = calculateLabelPlacement(
-			airlinerData,
-			plotElements,
+			detailData,
+			detailElements,
 			labelDimensions,
 			airlinerPlotBands.chartBands,
 			airlinerPlotBands.occupancy,
@@ -202,7 +299,7 @@ export function useAirlinerViewModel(
 			// console.log("[useAirlinerViewModel] labelPlacement: Labels placed: ", newLabelPlacement.labelPlacement.get("0-A318"));
 			return newLabelPlacement;
 		}
-	}, [airlinerData, plotElements, labelDimensions, airlinerPlotBands, width, height]);
+	}, [detailData, detailElements, labelDimensions, airlinerPlotBands, width, height, deferLabelPlacement]);
 
 	/**
 	 * @type {Map<number, labelCluster> | null}
@@ -267,14 +364,14 @@ export function useAirlinerViewModel(
 	/**
 	 * @type {Map<string, AirlinerModel>}
 	 * @description
-	 * Compose airlinerEntries from airlinerData, plotElements, and labelDimensions in a single useMemo.
+	 * Compose airlinerEntries from detailData, detailElements, and labelDimensions in a single useMemo.
 	 * This avoids chained effects or infinite loops: do not use airlinerEntries to update anything.
 	 */
 	const airlinerEntries = useMemo(() => {
 		const entries = new Map();
-		airlinerData.forEach((airliner, id) => {
+		detailData.forEach((airliner, id) => {
 
-			const plot = plotElements.get(id);
+			const plot = detailElements.get(id);
 			const dims = labelDimensions.get(id);
 			const place = labelPlacement.get(id);
 			const clusterID = labelToClusterMap.get(id);
@@ -305,7 +402,7 @@ export function useAirlinerViewModel(
 			});
 		});
 		return entries;
-	}, [plotElements, labelDimensions, labelPlacement, labelToClusterMap]);
+	}, [detailData, detailElements, labelDimensions, labelPlacement, labelToClusterMap]);
 	
 	useEffect(() => {
 		// console.log("[useAirlinerViewModel] Airliner entries updated. =================================================");
@@ -340,7 +437,8 @@ export function useAirlinerViewModel(
 		labelPlacement,
 		labelFailed,
 		airlinerLabelClusters,
-		labelDebugData
+		labelDebugData,
+		familyConnectors
 	};
 }
 
@@ -351,6 +449,7 @@ export function useAirlinerViewModel(
  * @param {Map<string, {markerSeries: AirlinerMarkerSeries, labelAnchor: {x: number, y: number}}>} plotElements - The plot elements.
  * @param {number} width - The width of the chart.
  * @param {number} height - The height of the chart.
+ * @param {Obstacle[]} extraObstacles - Optional. Obstacles besides the markers, such as family connectors.
  * @returns {AirlinerPlotData} The chart bands.
  */
 function plotChartBands(
@@ -362,31 +461,32 @@ function plotChartBands(
 		}
 	>,
 	width: number,
-	height: number
+	height: number,
+	extraObstacles: Obstacle[] = []
 ): AirlinerPlotData {
 
-	// Transform marker series bounding boxes into obstacles
-	const markersAsObstacles = Array.from(plotElements.values()).map(entry => {
+	// Transform marker series bounding boxes into obstacles, alongside any extra obstacles
+	const obstacles = Array.from(plotElements.values()).map(entry => {
 		return {
 			minX: entry.markerSeries?.seriesBBox.x[0],
 			maxX: entry.markerSeries?.seriesBBox.x[1],
 			minY: entry.markerSeries?.seriesBBox.y[0],
 			maxY: entry.markerSeries?.seriesBBox.y[1]
 		} as Obstacle;
-	});
+	}).concat(extraObstacles);
 
 	// Get the chart bands
 	const chartBands = calculateChartPlacementBands(
 		{width,	height},	// Dimensions
 		28,				// Minimum band height
 		28,				// Maximum band height
-		markersAsObstacles	// Obstacles
+		obstacles	// Obstacles
 	);
 
 	// Get the band occupancy
 	const occupancy = calculateBandOccupancy(
 		chartBands,
-		markersAsObstacles,
+		obstacles,
 		width,
 		height
 	);
@@ -394,7 +494,7 @@ function plotChartBands(
 	return {
 		chartBands,
 		occupancy,
-		obstacles: markersAsObstacles,
+		obstacles,
 	}
 }
 